@@ -0,0 +1,50 @@
+import { resolveForm } from './history-cli';
+import { describePublishState } from './access';
+import { MANIFEST_FILE } from './manifest';
+import { Command, CommandContext, CommandResult, PROGRAM } from './command';
+
+// `open` and `close`: start or stop accepting responses without the Forms UI
+
+async function setAccepting(ctx: CommandContext, accepting: boolean): Promise<CommandResult> {
+  const { formId } = resolveForm(ctx.positionals[0]);
+  const generator = await ctx.signIn();
+  const plan = await generator.applyAccess(formId, { acceptingResponses: accepting });
+  const changed = plan.publishState !== undefined;
+  const state = accepting ? 'accepting responses' : 'not accepting responses';
+  return {
+    data: { formId, acceptingResponses: accepting, changed },
+    text: changed
+      ? `Form ${formId} is now ${describePublishState(plan.publishState)}.`
+      : `Form ${formId} was already ${state}; nothing changed.`,
+  };
+}
+
+const NOTE = 'A file whose YAML sets `acceptingResponses` changes it back on its next update.';
+
+export const openCommand: Command = {
+  name: 'open',
+  summary: 'Start accepting responses, publishing the form if needed',
+  usage: '<form-id|file> [options]',
+  description: [`Takes a YAML file tracked in ${MANIFEST_FILE}, or a form ID.`, NOTE],
+  examples: [`${PROGRAM} open survey.yaml`],
+  async run(ctx) {
+    return setAccepting(ctx, true);
+  },
+};
+
+export const closeCommand: Command = {
+  name: 'close',
+  summary: 'Stop accepting responses; the form stays published',
+  usage: '<form-id|file> [options]',
+  description: [
+    'Respondents see a message that the form is closed.',
+    `Takes a YAML file tracked in ${MANIFEST_FILE}, or a form ID.`,
+    NOTE,
+  ],
+  examples: [`${PROGRAM} close survey.yaml`, `${PROGRAM} close <form-id> --json`],
+  async run(ctx) {
+    return setAccepting(ctx, false);
+  },
+};
+
+export const ACCESS_COMMANDS: Command[] = [openCommand, closeCommand];
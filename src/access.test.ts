@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { formatAccessPlan, planAccess } from './access';
+
+describe('planAccess', () => {
+  const closed = { publishState: { isPublished: true, isAcceptingResponses: false }, permissions: [] };
+  const unpublished = { publishState: { isPublished: false, isAcceptingResponses: false }, permissions: [] };
+
+  it('publishes to accept responses, and stops responses to unpublish', () => {
+    expect(planAccess(unpublished, { acceptingResponses: true }).publishState).toEqual({ isPublished: true, isAcceptingResponses: true });
+    expect(planAccess(unpublished, { published: true }).publishState).toEqual({ isPublished: true, isAcceptingResponses: true });
+    expect(planAccess(closed, { published: true }).publishState).toBeUndefined();
+    expect(planAccess(closed, { published: false }).publishState).toEqual({ isPublished: false, isAcceptingResponses: false });
+    expect(() => planAccess({ permissions: [] }, { acceptingResponses: false }, 'f1')).toThrow('Form f1 predates publish settings');
+    const window = { opensAt: '2025-03-01T09:00:00Z', closesAt: '2025-03-08T09:00:00Z' };
+    expect(planAccess(closed, window, 'f1', new Date('2025-03-01T09:00:00Z')).publishState).toEqual({ isPublished: true, isAcceptingResponses: true });
+    expect(planAccess(closed, window, 'f1', new Date('2025-03-08T09:00:00Z')).publishState).toBeUndefined();
+    // Sharing alone does not need publish settings
+    expect(planAccess({ permissions: [] }, { responders: 'anyone' }).create).toHaveLength(1);
+  });
+
+  it('leaves the owner and unmanaged kinds of access alone', () => {
+    const current = {
+      permissions: [
+        { id: 'o', type: 'user', role: 'owner', emailAddress: 'me@example.com' },
+        { id: 'e', type: 'user', role: 'writer', emailAddress: 'Ada@Example.com' },
+        { id: 'c', type: 'user', role: 'commenter', emailAddress: 'cy@example.com' },
+        { id: 'r', type: 'anyone', role: 'reader', view: 'published' },
+      ],
+    };
+    const plan = planAccess(current, { editors: ['ada@example.com', 'bob@example.com'], responders: ['ann@example.com'] });
+    expect(formatAccessPlan(plan)).toEqual([
+      '+ editor: bob@example.com',
+      '+ responder: ann@example.com',
+      '- responder: anyone with the link',
+    ]);
+    expect(formatAccessPlan(planAccess(current, { editors: [] }))).toEqual(['- editor: Ada@Example.com']);
+  });
+});
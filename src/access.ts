@@ -0,0 +1,158 @@
+import { drive_v3 } from 'googleapis';
+import { PublishState } from './clients';
+
+// Who can edit and who can answer a form. Publishing goes through the Forms
+// API's publish settings; editors and responders are Drive permissions on the
+// form's file, responders being readers of its "published" view.
+
+// Anyone with the link, anyone in a Google Workspace domain, or these people
+export type Responders = 'anyone' | { domain: string } | string[];
+
+export interface AccessSettings {
+  // Unset leaves the form as it is
+  published?: boolean;
+  acceptingResponses?: boolean;
+  // ISO 8601 times with a zone; when set, they decide acceptingResponses
+  opensAt?: string;
+  closesAt?: string;
+  // The complete list of people who may edit, besides the owner
+  editors?: string[];
+  responders?: Responders;
+}
+
+export interface FormAccess {
+  // Absent on forms that predate publish settings
+  publishState?: PublishState;
+  permissions: drive_v3.Schema$Permission[];
+}
+
+export interface AccessPlan {
+  publishState?: PublishState;
+  create: drive_v3.Schema$Permission[];
+  remove: drive_v3.Schema$Permission[];
+}
+
+export const hasWindow = (settings: AccessSettings): boolean => !!(settings.opensAt || settings.closesAt);
+
+export const hasAccessSettings = (settings: AccessSettings = {}): boolean =>
+  settings.published !== undefined ||
+  settings.acceptingResponses !== undefined ||
+  hasWindow(settings) ||
+  settings.editors !== undefined ||
+  settings.responders !== undefined;
+
+// Whether `time` falls inside the window: at or after opensAt, and before closesAt
+export function isOpenAt(settings: AccessSettings, time: Date): boolean {
+  const at = time.getTime();
+  if (settings.opensAt && at < Date.parse(settings.opensAt)) return false;
+  if (settings.closesAt && at >= Date.parse(settings.closesAt)) return false;
+  return true;
+}
+
+/**
+ * The window boundaries passed after `since` and up to `until`, in order;
+ * every boundary up to `until` when there is no `since`.
+ */
+export function boundariesPassed(
+  settings: AccessSettings,
+  since: Date | undefined,
+  until: Date
+): { boundary: 'opensAt' | 'closesAt'; at: string }[] {
+  const passed = (['opensAt', 'closesAt'] as const)
+    .filter((boundary) => settings[boundary])
+    .map((boundary) => ({ boundary, at: settings[boundary]!, time: Date.parse(settings[boundary]!) }))
+    .filter(({ time }) => (!since || time > since.getTime()) && time <= until.getTime())
+    .sort((a, b) => a.time - b.time);
+  return passed.map(({ boundary, at }) => ({ boundary, at }));
+}
+
+const isResponder = (p: drive_v3.Schema$Permission) => p.view === 'published';
+const isEditor = (p: drive_v3.Schema$Permission) => p.role === 'writer' && p.type === 'user' && !p.view;
+
+// Who a permission is for, e.g. "user:ada@example.com" or "anyone:"
+const grantee = (p: drive_v3.Schema$Permission) =>
+  `${p.type}:${(p.emailAddress || p.domain || '').toLowerCase()}`;
+
+function responderPermissions(responders: Responders): drive_v3.Schema$Permission[] {
+  const base = { role: 'reader', view: 'published' };
+  if (responders === 'anyone') return [{ ...base, type: 'anyone' }];
+  if (Array.isArray(responders)) return responders.map((emailAddress) => ({ ...base, type: 'user', emailAddress }));
+  return [{ ...base, type: 'domain', domain: responders.domain }];
+}
+
+/**
+ * The permissions in `desired` that `current` lacks, and those in `current`
+ * (of the kind `managed` picks out) that `desired` lacks.
+ */
+function reconcilePermissions(
+  current: drive_v3.Schema$Permission[],
+  desired: drive_v3.Schema$Permission[],
+  managed: (p: drive_v3.Schema$Permission) => boolean,
+  plan: AccessPlan
+): void {
+  const existing = current.filter(managed);
+  const wanted = new Set(desired.map(grantee));
+  const have = new Set(existing.map(grantee));
+  plan.create.push(...desired.filter((p) => !have.has(grantee(p))));
+  plan.remove.push(...existing.filter((p) => !wanted.has(grantee(p))));
+}
+
+/**
+ * What has to change for a form with `current` access to have `settings`.
+ * Accepting responses implies publishing; unpublishing stops responses. A
+ * window (opensAt/closesAt) accepts responses if `now` is inside it.
+ */
+export function planAccess(current: FormAccess, settings: AccessSettings, formId = 'the form', now = new Date()): AccessPlan {
+  const plan: AccessPlan = { create: [], remove: [] };
+  if (settings.acceptingResponses === undefined && hasWindow(settings)) {
+    settings = { ...settings, acceptingResponses: isOpenAt(settings, now) };
+  }
+
+  if (settings.published !== undefined || settings.acceptingResponses !== undefined) {
+    const state = current.publishState;
+    if (!state) {
+      throw new Error(
+        `Form ${formId} predates publish settings, so whether it is published or accepting responses ` +
+          'can only be changed in Google Forms'
+      );
+    }
+    const isPublished = settings.published ?? (settings.acceptingResponses || !!state.isPublished);
+    // A form being published starts accepting responses unless told otherwise
+    const isAcceptingResponses = isPublished && (settings.acceptingResponses ?? (state.isPublished ? !!state.isAcceptingResponses : true));
+    if (isPublished !== !!state.isPublished || isAcceptingResponses !== !!state.isAcceptingResponses) {
+      plan.publishState = { isPublished, isAcceptingResponses };
+    }
+  }
+
+  if (settings.editors) {
+    const editors = settings.editors.map((emailAddress) => ({ type: 'user', role: 'writer', emailAddress }));
+    reconcilePermissions(current.permissions, editors, isEditor, plan);
+  }
+  if (settings.responders) {
+    reconcilePermissions(current.permissions, responderPermissions(settings.responders), isResponder, plan);
+  }
+  return plan;
+}
+
+export const accessPlanIsEmpty = (plan: AccessPlan): boolean =>
+  !plan.publishState && plan.create.length === 0 && plan.remove.length === 0;
+
+function describePermission(p: drive_v3.Schema$Permission): string {
+  const who = p.type === 'anyone' ? 'anyone with the link' : p.type === 'domain' ? `anyone at ${p.domain}` : p.emailAddress || p.id || '';
+  return `${p.view === 'published' ? 'responder' : p.role === 'writer' ? 'editor' : p.role}: ${who}`;
+}
+
+export function describePublishState(state: PublishState | undefined): string {
+  if (!state) return 'publish state unknown (the form predates publish settings)';
+  if (!state.isPublished) return 'unpublished';
+  return state.isAcceptingResponses ? 'published, accepting responses' : 'published, not accepting responses';
+}
+
+// One line per change, marked + (added) or - (removed) like an item plan, and ~ for the publish state
+export function formatAccessPlan(plan: AccessPlan): string[] {
+  return [
+    ...(plan.publishState ? [`~ ${describePublishState(plan.publishState)}`] : []),
+    ...plan.create.map((p) => `+ ${describePermission(p)}`),
+    ...plan.remove.map((p) => `- ${describePermission(p)}`),
+  ];
+}
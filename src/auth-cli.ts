@@ -0,0 +1,108 @@
+import { explainAuthError, resolveAuthProvider, SCOPES } from './auth';
+import { AuthError, Command, CommandError, EXIT, main, PROGRAM } from './command';
+
+export const authStatusCommand: Command = {
+  name: 'auth status',
+  summary: 'Check the saved credentials: scopes granted, token expiry, problems',
+  usage: '[options]',
+  description: [
+    `Exits with ${EXIT.auth} when not signed in, the token was revoked, or scopes are missing.`,
+    `Required scopes: ${SCOPES.join(', ')}`,
+  ],
+  async run() {
+    const provider = resolveAuthProvider();
+    const status = await provider.status();
+
+    const lines = [`Provider: ${provider.name}`, `Signed in: ${status.signedIn ? 'yes' : 'no'}`];
+    if (status.problem) {
+      lines.push(`Problem: ${status.problem}`);
+    }
+    if (status.expiresAt) {
+      lines.push(`Access token expires: ${status.expiresAt}`);
+    }
+    if (status.signedIn) {
+      lines.push(`Refresh token: ${status.refreshable ? 'yes' : 'no'}`);
+    }
+    if (status.scopes.length > 0) {
+      lines.push('Granted scopes:', ...status.scopes.map((scope) => `  ${scope}`));
+    }
+    if (status.missingScopes.length > 0) {
+      lines.push('Missing scopes:', ...status.missingScopes.map((scope) => `  ${scope}`));
+      if (provider.login) {
+        lines.push(`Run \`${PROGRAM} auth login\` to grant them.`);
+      }
+    }
+
+    return {
+      data: { provider: provider.name, ...status },
+      text: lines.join('\n'),
+      exitCode: !status.signedIn || status.missingScopes.length > 0 ? EXIT.auth : EXIT.ok,
+    };
+  },
+};
+
+export const authLoginCommand: Command = {
+  name: 'auth login',
+  summary: 'Authorize in the browser again (e.g. after scopes change)',
+  usage: '[options]',
+  async run() {
+    const provider = resolveAuthProvider();
+    if (!provider.login) {
+      throw new CommandError(`The ${provider.name} provider has no interactive login.`, EXIT.usage);
+    }
+    try {
+      await provider.login();
+    } catch (error) {
+      throw new AuthError(`Login failed: ${explainAuthError(error)}`);
+    }
+    return { data: { provider: provider.name, signedIn: true } };
+  },
+};
+
+export const authLogoutCommand: Command = {
+  name: 'auth logout',
+  summary: 'Revoke the saved token and delete it',
+  usage: '[options]',
+  async run() {
+    const provider = resolveAuthProvider();
+    if (!provider.logout) {
+      throw new CommandError(`The ${provider.name} provider keeps no saved token to log out of.`, EXIT.usage);
+    }
+    const loggedOut = await provider.logout();
+    return {
+      data: { provider: provider.name, loggedOut },
+      text: loggedOut ? 'Logged out: token revoked and deleted.' : 'Not logged in.',
+    };
+  },
+};
+
+export const authWhoamiCommand: Command = {
+  name: 'auth whoami',
+  summary: 'Show the credentials in use and the Google account the API sees',
+  usage: '[options]',
+  options: {
+    local: { type: 'boolean', description: 'Describe the credentials only, without calling the API' },
+  },
+  async run(ctx) {
+    const generator = ctx.values.local ? ctx.generator() : await ctx.signIn();
+    const info = await generator.whoami();
+
+    const lines = [`Provider: ${info.provider}`];
+    if (info.identity) {
+      lines.push(`Identity: ${info.identity}`);
+    }
+    for (const [key, value] of Object.entries(info.details)) {
+      lines.push(`  ${key}: ${value}`);
+    }
+    if (info.user) {
+      lines.push(`Google user: ${info.user}`);
+    }
+    return { data: info, text: lines.join('\n') };
+  },
+};
+
+export const AUTH_COMMANDS = [authStatusCommand, authLoginCommand, authLogoutCommand, authWhoamiCommand];
+
+if (require.main === module) {
+  main(AUTH_COMMANDS, ['auth', ...process.argv.slice(2)]);
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Auth } from 'googleapis';
+import {
+  ApplicationDefaultAuth,
+  AUTH_ENV,
+  ClientAuth,
+  codeFromInput,
+  explainAuthError,
+  InstalledAppAuth,
+  missingScopes,
+  resolveAuthProvider,
+  SCOPES,
+  ServiceAccountAuth,
+} from './auth';
+
+describe('resolveAuthProvider', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    for (const name of Object.values(AUTH_ENV)) delete process.env[name];
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('defaults to the installed-app flow with files in the working directory', () => {
+    const provider = resolveAuthProvider() as InstalledAppAuth;
+
+    expect(provider).toBeInstanceOf(InstalledAppAuth);
+    expect(provider.credentialsPath).toBe(path.join(process.cwd(), 'credentials.json'));
+    expect(provider.tokenPath).toBe(path.join(process.cwd(), 'token.json'));
+  });
+
+  it('reads credential and token paths from the environment', () => {
+    process.env[AUTH_ENV.credentials] = '/etc/gform/client.json';
+    process.env[AUTH_ENV.token] = 'tokens/me.json';
+
+    const provider = resolveAuthProvider() as InstalledAppAuth;
+
+    expect(provider.credentialsPath).toBe('/etc/gform/client.json');
+    expect(provider.tokenPath).toBe(path.join(process.cwd(), 'tokens/me.json'));
+  });
+
+  it('prefers options over the environment', () => {
+    process.env[AUTH_ENV.token] = '/env/token.json';
+
+    const provider = resolveAuthProvider({ tokenPath: '/opt/token.json' }) as InstalledAppAuth;
+
+    expect(provider.tokenPath).toBe('/opt/token.json');
+  });
+
+  it('uses a service account when a key is given, with optional impersonation', () => {
+    process.env[AUTH_ENV.serviceAccountKey] = '/keys/sa.json';
+    process.env[AUTH_ENV.impersonate] = 'forms@example.com';
+
+    const provider = resolveAuthProvider() as ServiceAccountAuth;
+
+    expect(provider).toBeInstanceOf(ServiceAccountAuth);
+    expect(provider.keyFile).toBe('/keys/sa.json');
+    expect(provider.impersonate).toBe('forms@example.com');
+  });
+
+  it('selects ADC by mode', () => {
+    expect(resolveAuthProvider({ mode: 'adc' })).toBeInstanceOf(ApplicationDefaultAuth);
+  });
+
+  it('wraps an injected client', async () => {
+    const client = new Auth.OAuth2Client();
+    const provider = resolveAuthProvider({ client });
+
+    expect(provider).toBeInstanceOf(ClientAuth);
+    expect(await provider.getClient()).toBe(client);
+  });
+
+  it('rejects service-account mode without a key and unknown modes', () => {
+    expect(() => resolveAuthProvider({ mode: 'service-account' })).toThrow(/needs a key file/);
+    process.env[AUTH_ENV.mode] = 'kerberos';
+    expect(() => resolveAuthProvider()).toThrow(/Unknown GFORM_AUTH "kerberos"/);
+  });
+});
+
+describe('missingScopes', () => {
+  it('lists required scopes absent from a granted list', () => {
+    expect(missingScopes(SCOPES.slice(1).join(' '))).toEqual([SCOPES[0]]);
+    expect(missingScopes(SCOPES)).toEqual([]);
+  });
+
+  it('trusts tokens that never recorded their scopes', () => {
+    expect(missingScopes(undefined)).toEqual([]);
+  });
+});
+
+describe('codeFromInput', () => {
+  it('accepts a bare code or the redirect address', () => {
+    expect(codeFromInput('  4/0Abc  ')).toBe('4/0Abc');
+    expect(codeFromInput('http://127.0.0.1:53682/?state=x&code=4%2F0Abc&scope=a')).toBe('4/0Abc');
+  });
+});
+
+describe('explainAuthError', () => {
+  it('explains a revoked token', () => {
+    const error = Object.assign(new Error('invalid_grant'), { response: { data: { error: 'invalid_grant' } } });
+    expect(explainAuthError(error)).toMatch(/revoked or has expired/);
+  });
+});
+
+describe('InstalledAppAuth', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gform-auth-'));
+    fs.writeFileSync(
+      path.join(dir, 'credentials.json'),
+      JSON.stringify({ installed: { client_id: 'id', client_secret: 'secret', redirect_uris: ['http://localhost'] } })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes refreshed tokens back, keeping the refresh token', async () => {
+    const tokenPath = path.join(dir, 'token.json');
+    const saved = { access_token: 'old', refresh_token: 'refresh', scope: SCOPES.join(' '), expiry_date: Date.now() + 3600e3 };
+    fs.writeFileSync(tokenPath, JSON.stringify(saved));
+
+    const client = await new InstalledAppAuth(path.join(dir, 'credentials.json'), tokenPath).getClient();
+    client.emit('tokens', { access_token: 'new', expiry_date: 42 });
+
+    expect(JSON.parse(fs.readFileSync(tokenPath, 'utf8'))).toEqual({
+      ...saved,
+      access_token: 'new',
+      expiry_date: 42,
+    });
+  });
+
+  it('reports not signed in without a token', async () => {
+    const status = await new InstalledAppAuth(path.join(dir, 'credentials.json'), path.join(dir, 'none.json')).status();
+
+    expect(status.signedIn).toBe(false);
+    expect(status.missingScopes).toEqual(SCOPES);
+    expect(status.problem).toMatch(/Not signed in/);
+  });
+
+  it('logs out by deleting the token', async () => {
+    const tokenPath = path.join(dir, 'token.json');
+    fs.writeFileSync(tokenPath, JSON.stringify({}));
+
+    const provider = new InstalledAppAuth(path.join(dir, 'credentials.json'), tokenPath);
+
+    expect(await provider.logout()).toBe(true);
+    expect(fs.existsSync(tokenPath)).toBe(false);
+    expect(await provider.logout()).toBe(false);
+  });
+});
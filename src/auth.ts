@@ -0,0 +1,557 @@
+import { Auth, google } from 'googleapis';
+import { spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PROGRAM } from './command';
+
+// Where GoogleFormsGenerator gets its credentials from. Each provider builds
+// an authorized client; resolveAuthProvider picks one from options and env.
+
+export const SCOPES = [
+  'https://www.googleapis.com/auth/forms.body',
+  'https://www.googleapis.com/auth/forms.responses.readonly',
+  'https://www.googleapis.com/auth/drive.file',
+];
+
+// Environment variables read when the matching option is not given
+export const AUTH_ENV = {
+  mode: 'GFORM_AUTH',                        // oauth | service-account | adc
+  credentials: 'GFORM_CREDENTIALS',          // OAuth client file
+  token: 'GFORM_TOKEN',                      // Saved OAuth token
+  serviceAccountKey: 'GFORM_SERVICE_ACCOUNT_KEY',
+  impersonate: 'GFORM_IMPERSONATE',          // User to act as (domain-wide delegation)
+  oauthFlow: 'GFORM_OAUTH_FLOW',             // loopback (default) | manual
+};
+
+// The client types googleapis accepts; JWT, Compute and UserRefreshClient are OAuth2Clients
+export type AuthClient = Auth.OAuth2Client | Auth.BaseExternalAccountClient;
+
+export interface AuthInfo {
+  provider: string;
+  identity?: string;                   // Who the calls are made as, when known locally
+  details: Record<string, string>;
+}
+
+export interface AuthProvider {
+  readonly name: string;
+  getClient(): Promise<AuthClient>;
+  describe(): Promise<AuthInfo>;
+  status(): Promise<AuthStatus>;
+  login?(): Promise<void>;        // Only for providers that ask the user
+  logout?(): Promise<boolean>;
+}
+
+export interface AuthOptions {
+  provider?: AuthProvider;             // Fully custom provider
+  client?: AuthClient;                 // Pre-built, already authorized client
+  mode?: 'oauth' | 'service-account' | 'adc';
+  credentialsPath?: string;            // OAuth client file (default: ./credentials.json)
+  tokenPath?: string;                  // Saved OAuth token (default: ./token.json)
+  serviceAccountKey?: string;          // Service-account JSON key file
+  impersonate?: string;                // Email to impersonate with a service account
+  oauthFlow?: OAuthFlow;
+}
+
+// How the installed-app flow receives the authorization code
+export type OAuthFlow = 'loopback' | 'manual';
+
+export interface AuthStatus {
+  signedIn: boolean;
+  scopes: string[];          // Granted to the current access token
+  missingScopes: string[];   // Required by this tool but not granted
+  expiresAt?: string;        // When the current access token expires
+  refreshable: boolean;      // Whether a new access token can be fetched without the user
+  problem?: string;
+}
+
+const NOT_SIGNED_IN: AuthStatus = { signedIn: false, scopes: [], missingScopes: SCOPES, refreshable: false };
+
+// How long the loopback server waits for the browser
+const LOOPBACK_TIMEOUT_MS = 5 * 60 * 1000;
+
+class LoopbackUnavailable extends Error {}
+
+/**
+ * Scopes this tool needs that are not in a space-separated `granted` list.
+ * Tokens saved before scopes were recorded are given the benefit of the doubt.
+ */
+export function missingScopes(granted: string | string[] | null | undefined): string[] {
+  if (!granted) return [];
+  const list = Array.isArray(granted) ? granted : granted.split(' ');
+  return SCOPES.filter((scope) => !list.includes(scope));
+}
+
+/**
+ * Accept either a bare code or the full address the browser was sent to.
+ */
+export function codeFromInput(input: string): string {
+  const trimmed = input.trim();
+  if (/^https?:\/\//.test(trimmed)) {
+    const code = new URL(trimmed).searchParams.get('code');
+    if (code) return code;
+  }
+  return trimmed;
+}
+
+// The JSON body of a token-endpoint error, e.g. { "error": "invalid_grant" }
+interface TokenErrorBody {
+  error?: string;
+  error_description?: string;
+}
+
+function tokenErrorBody(error: unknown): TokenErrorBody | undefined {
+  if (typeof error !== 'object' || error === null || !('response' in error)) return undefined;
+  const { response } = error;
+  if (typeof response !== 'object' || response === null || !('data' in response)) return undefined;
+  const { data } = response;
+  return typeof data === 'object' && data !== null ? data : undefined;
+}
+
+/**
+ * Turn token-endpoint errors into something a user can act on.
+ */
+export function explainAuthError(error: unknown): string {
+  const data = tokenErrorBody(error);
+  const reason = String(data?.error || (error instanceof Error ? error.message : error));
+  if (reason.includes('invalid_grant')) {
+    return 'The saved authorization was revoked or has expired';
+  }
+  if (reason.includes('unauthorized_client')) {
+    return 'The client is not authorized for these scopes (for a service account, check domain-wide delegation)';
+  }
+  if (reason.includes('invalid_client')) {
+    return 'The OAuth client in the credentials file was deleted or is invalid';
+  }
+  return data?.error_description || reason;
+}
+
+/**
+ * Fetch an access token and ask Google which scopes it carries.
+ */
+async function checkAccess(getClient: () => Promise<AuthClient>): Promise<AuthStatus> {
+  try {
+    const client = await getClient();
+    const { token } = await client.getAccessToken();
+    if (!token) {
+      return { ...NOT_SIGNED_IN, problem: 'No access token was issued' };
+    }
+    if (!(client instanceof Auth.OAuth2Client)) {
+      return { signedIn: true, scopes: [], missingScopes: [], refreshable: true };
+    }
+    const info = await client.getTokenInfo(token);
+    return {
+      signedIn: true,
+      scopes: info.scopes,
+      missingScopes: missingScopes(info.scopes),
+      expiresAt: new Date(info.expiry_date).toISOString(),
+      refreshable: true,
+    };
+  } catch (error) {
+    return { ...NOT_SIGNED_IN, problem: explainAuthError(error) };
+  }
+}
+
+function openBrowser(url: string): void {
+  const [command, ...args] =
+    process.platform === 'darwin' ? ['open', url]
+      : process.platform === 'win32' ? ['cmd', '/c', 'start', '""', url]
+        : ['xdg-open', url];
+  try {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true });
+    child.on('error', () => { /* No browser here; the URL is printed */ });
+    child.unref();
+  } catch {
+    // Same: the user can open the printed URL
+  }
+}
+
+const readJson = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+/**
+ * The installed-app OAuth flow: a client file from Google Cloud Console plus a
+ * token saved after the user authorizes in the browser. Refreshed tokens are
+ * written back to the token file.
+ */
+export class InstalledAppAuth implements AuthProvider {
+  readonly name = 'oauth';
+
+  constructor(
+    readonly credentialsPath: string,
+    readonly tokenPath: string,
+    readonly flow: OAuthFlow = 'loopback'
+  ) {}
+
+  private clientSecrets(): { client_id: string; client_secret: string; redirect_uris: string[] } {
+    if (!fs.existsSync(this.credentialsPath)) {
+      throw new Error(
+        `credentials.json not found at ${this.credentialsPath}\n` +
+          'Please download OAuth 2.0 credentials from Google Cloud Console.\n' +
+          `See README.md for setup instructions, or set ${AUTH_ENV.credentials} to its location.`
+      );
+    }
+    const credentials = readJson(this.credentialsPath);
+    return credentials.installed || credentials.web;
+  }
+
+  private createClient(): Auth.OAuth2Client {
+    const { client_secret, client_id, redirect_uris } = this.clientSecrets();
+    const oAuth2Client = new google.auth.OAuth2(client_id, client_secret, redirect_uris[0]);
+    // A refresh returns a new access token but usually no refresh token, so merge
+    oAuth2Client.on('tokens', (tokens) => {
+      this.saveToken({ ...this.loadToken(), ...tokens });
+    });
+    return oAuth2Client;
+  }
+
+  loadToken(): Auth.Credentials | undefined {
+    return fs.existsSync(this.tokenPath) ? readJson(this.tokenPath) : undefined;
+  }
+
+  private saveToken(tokens: Auth.Credentials): void {
+    fs.mkdirSync(path.dirname(this.tokenPath), { recursive: true });
+    fs.writeFileSync(this.tokenPath, JSON.stringify(tokens), { mode: 0o600 });
+  }
+
+  async getClient(): Promise<Auth.OAuth2Client> {
+    const oAuth2Client = this.createClient();
+    const token = this.loadToken();
+
+    const missing = token ? missingScopes(token.scope) : [];
+    if (!token) {
+      await this.authorize(oAuth2Client);
+    } else if (missing.length > 0) {
+      console.log(`The saved token is missing scopes: ${missing.join(', ')}. Authorizing again.`);
+      await this.authorize(oAuth2Client);
+    } else {
+      oAuth2Client.setCredentials(token);
+      // Refresh an expired token now, so a revoked one fails here and not mid-update
+      if (token.expiry_date && token.expiry_date <= Date.now()) {
+        try {
+          await oAuth2Client.getAccessToken();
+        } catch (error) {
+          throw new Error(`${explainAuthError(error)} (token: ${this.tokenPath}). Run \`${PROGRAM} auth login\` to authorize again.`);
+        }
+      }
+    }
+
+    return oAuth2Client;
+  }
+
+  /**
+   * Ask the user for consent, even if a token is saved, and store the result.
+   */
+  async login(): Promise<void> {
+    await this.authorize(this.createClient());
+  }
+
+  private async authorize(oAuth2Client: Auth.OAuth2Client): Promise<void> {
+    let tokens: Auth.Credentials | undefined;
+    if (this.flow === 'loopback') {
+      try {
+        tokens = await this.getTokenByLoopback(oAuth2Client);
+      } catch (error) {
+        if (!(error instanceof LoopbackUnavailable)) throw error;
+        console.log(`Could not start a local server for the redirect (${error.message}); falling back to copy-paste.`);
+      }
+    }
+    tokens = tokens || (await this.getTokenByPaste(oAuth2Client));
+    oAuth2Client.setCredentials(tokens);
+
+    // Save the token for future use
+    this.saveToken(tokens);
+    console.log('Token stored to', this.tokenPath);
+  }
+
+  /**
+   * Redirect the browser to a one-off server on 127.0.0.1, which receives the
+   * code. A user on another machine can still paste the address the browser
+   * ended up on.
+   */
+  private async getTokenByLoopback(oAuth2Client: Auth.OAuth2Client): Promise<Auth.Credentials> {
+    const server = http.createServer();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', resolve);
+      });
+    } catch (error) {
+      throw new LoopbackUnavailable(error instanceof Error ? error.message : String(error));
+    }
+
+    const { port } = server.address() as AddressInfo;
+    const redirectUri = `http://127.0.0.1:${port}`;
+    const state = crypto.randomBytes(16).toString('hex');
+    const { codeVerifier, codeChallenge } = await oAuth2Client.generateCodeVerifierAsync();
+    const authUrl = oAuth2Client.generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: SCOPES,
+      redirect_uri: redirectUri,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: Auth.CodeChallengeMethod.S256,
+    });
+
+    console.log('Authorize this app by visiting this URL:\n');
+    console.log(authUrl);
+    console.log();
+    openBrowser(authUrl);
+
+    let rl: readline.Interface | undefined;
+    const fromBrowser = new Promise<string>((resolve, reject) => {
+      server.on('request', (req, res) => {
+        const url = new URL(req.url || '/', redirectUri);
+        const error = url.searchParams.get('error');
+        const code = url.searchParams.get('code');
+        if (url.searchParams.get('state') !== state || (!code && !error)) {
+          res.writeHead(400).end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(error
+          ? `<p>Authorization failed: ${error}. You can close this tab.</p>`
+          : '<p>Authorized. You can close this tab and return to the terminal.</p>');
+        if (error) {
+          reject(new Error(`Authorization failed: ${error}`));
+        } else {
+          resolve(code!);
+        }
+      });
+    });
+    const fromPaste = process.stdin.isTTY
+      ? new Promise<string>((resolve) => {
+          rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+          rl.question('Waiting for the browser. If it cannot reach this machine, paste the address it was redirected to: ', (answer) => {
+            resolve(codeFromInput(answer));
+          });
+        })
+      : new Promise<string>(() => {});
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<string>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Timed out waiting for authorization')), LOOPBACK_TIMEOUT_MS);
+    });
+
+    try {
+      const code = await Promise.race([fromBrowser, fromPaste, timeout]);
+      const { tokens } = await oAuth2Client.getToken({ code, codeVerifier, redirect_uri: redirectUri });
+      return tokens;
+    } finally {
+      clearTimeout(timer);
+      rl?.close();
+      server.close();
+    }
+  }
+
+  private async getTokenByPaste(oAuth2Client: Auth.OAuth2Client): Promise<Auth.Credentials> {
+    const authUrl = oAuth2Client.generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: SCOPES,
+    });
+
+    console.log('Authorize this app by visiting this URL:\n');
+    console.log(authUrl);
+    console.log();
+
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+
+    const code = await new Promise<string>((resolve) => {
+      rl.question('Enter the authorization code from the page: ', (answer) => {
+        rl.close();
+        resolve(codeFromInput(answer));
+      });
+    });
+
+    const { tokens } = await oAuth2Client.getToken(code);
+    return tokens;
+  }
+
+  async status(): Promise<AuthStatus> {
+    const token = this.loadToken();
+    if (!token) {
+      return { ...NOT_SIGNED_IN, problem: `Not signed in (no token at ${this.tokenPath})` };
+    }
+    const oAuth2Client = this.createClient();
+    oAuth2Client.setCredentials(token);
+    const status = await checkAccess(async () => oAuth2Client);
+    return { ...status, refreshable: status.signedIn && Boolean(token.refresh_token) };
+  }
+
+  /**
+   * Revoke the saved token with Google and delete it. Returns false when
+   * there was nothing to log out of.
+   */
+  async logout(): Promise<boolean> {
+    const token = this.loadToken();
+    if (!token) {
+      return false;
+    }
+    const revocable = token.refresh_token || token.access_token;
+    if (revocable) {
+      try {
+        await this.createClient().revokeToken(revocable);
+      } catch {
+        // Already revoked or expired; deleting the file is what matters
+      }
+    }
+    fs.unlinkSync(this.tokenPath);
+    return true;
+  }
+
+  async describe(): Promise<AuthInfo> {
+    const details: Record<string, string> = {
+      credentials: this.credentialsPath,
+      token: fs.existsSync(this.tokenPath) ? this.tokenPath : `${this.tokenPath} (not yet authorized)`,
+    };
+    if (fs.existsSync(this.credentialsPath)) {
+      const credentials = readJson(this.credentialsPath);
+      details.clientId = (credentials.installed || credentials.web)?.client_id ?? '';
+    }
+    return { provider: this.name, details };
+  }
+}
+
+/**
+ * A service-account key, optionally impersonating a Workspace user through
+ * domain-wide delegation. Without impersonation, forms belong to the service
+ * account itself.
+ */
+export class ServiceAccountAuth implements AuthProvider {
+  readonly name = 'service-account';
+
+  constructor(
+    readonly keyFile: string,
+    readonly impersonate?: string
+  ) {}
+
+  private key(): { client_email: string; private_key: string } {
+    if (!fs.existsSync(this.keyFile)) {
+      throw new Error(`Service-account key not found at ${this.keyFile}`);
+    }
+    const key = readJson(this.keyFile);
+    if (key.type !== 'service_account') {
+      throw new Error(`${this.keyFile} is not a service-account key (type: ${key.type ?? 'missing'})`);
+    }
+    return key;
+  }
+
+  async getClient(): Promise<Auth.JWT> {
+    const key = this.key();
+    return new Auth.JWT({
+      email: key.client_email,
+      key: key.private_key,
+      scopes: SCOPES,
+      subject: this.impersonate,
+    });
+  }
+
+  async status(): Promise<AuthStatus> {
+    return checkAccess(() => this.getClient());
+  }
+
+  async describe(): Promise<AuthInfo> {
+    const { client_email } = this.key();
+    const details: Record<string, string> = { key: this.keyFile, serviceAccount: client_email };
+    if (this.impersonate) {
+      details.impersonating = this.impersonate;
+    }
+    return { provider: this.name, identity: this.impersonate || client_email, details };
+  }
+}
+
+/**
+ * Application Default Credentials: GOOGLE_APPLICATION_CREDENTIALS, the gcloud
+ * user login, or the metadata server on Google Cloud.
+ */
+export class ApplicationDefaultAuth implements AuthProvider {
+  readonly name = 'adc';
+  private readonly googleAuth = new Auth.GoogleAuth({ scopes: SCOPES });
+
+  async getClient(): Promise<AuthClient> {
+    return (await this.googleAuth.getClient()) as AuthClient;
+  }
+
+  async status(): Promise<AuthStatus> {
+    return checkAccess(() => this.getClient());
+  }
+
+  async describe(): Promise<AuthInfo> {
+    const details: Record<string, string> = {};
+    if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+      details.file = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+    }
+    let identity: string | undefined;
+    try {
+      identity = (await this.googleAuth.getCredentials()).client_email || undefined;
+    } catch {
+      // User credentials from gcloud carry no email; whoami asks Drive instead
+    }
+    return { provider: this.name, identity, details };
+  }
+}
+
+/**
+ * A client built and authorized by the caller, used as is.
+ */
+export class ClientAuth implements AuthProvider {
+  readonly name = 'client';
+
+  constructor(readonly client: AuthClient) {}
+
+  async getClient(): Promise<AuthClient> {
+    return this.client;
+  }
+
+  async status(): Promise<AuthStatus> {
+    return checkAccess(async () => this.client);
+  }
+
+  async describe(): Promise<AuthInfo> {
+    return { provider: this.name, details: { type: this.client.constructor.name } };
+  }
+}
+
+const fromEnv = (key: keyof typeof AUTH_ENV) => process.env[AUTH_ENV[key]] || undefined;
+const resolvePath = (file: string) => path.resolve(process.cwd(), file);
+
+/**
+ * Pick the provider for a set of options. Explicit options win over
+ * environment variables; without either, the installed-app OAuth flow reads
+ * credentials.json and token.json from the working directory.
+ */
+export function resolveAuthProvider(options: AuthOptions = {}): AuthProvider {
+  if (options.provider) return options.provider;
+  if (options.client) return new ClientAuth(options.client);
+
+  const serviceAccountKey = options.serviceAccountKey || fromEnv('serviceAccountKey');
+  const oauthFlow = options.oauthFlow || fromEnv('oauthFlow');
+  if (oauthFlow && oauthFlow !== 'loopback' && oauthFlow !== 'manual') {
+    throw new Error(`Unknown ${AUTH_ENV.oauthFlow} "${oauthFlow}". Expected loopback or manual`);
+  }
+  const mode = options.mode || fromEnv('mode') || (serviceAccountKey ? 'service-account' : 'oauth');
+
+  switch (mode) {
+    case 'service-account':
+      if (!serviceAccountKey) {
+        throw new Error(`Service-account auth needs a key file: set serviceAccountKey or ${AUTH_ENV.serviceAccountKey}`);
+      }
+      return new ServiceAccountAuth(resolvePath(serviceAccountKey), options.impersonate || fromEnv('impersonate'));
+    case 'adc':
+      return new ApplicationDefaultAuth();
+    case 'oauth':
+      return new InstalledAppAuth(
+        resolvePath(options.credentialsPath || fromEnv('credentials') || 'credentials.json'),
+        resolvePath(options.tokenPath || fromEnv('token') || 'token.json'),
+        oauthFlow as OAuthFlow | undefined
+      );
+    default:
+      throw new Error(`Unknown ${AUTH_ENV.mode} "${mode}". Expected oauth, service-account or adc`);
+  }
+}
@@ -0,0 +1,410 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import { FakeGoogleBackend } from './fake-google';
+import { COMMANDS } from './cli';
+import { EXIT, formatHelp, formatTable, parseCommandArgs, pause, runCli, UsageError } from './command';
+
+// Snapshots and the response cache go to .gform/ in the working directory
+vi.mock('./snapshots', () => ({ saveSnapshot: vi.fn(), loadSnapshot: vi.fn() }));
+vi.mock('./response-cache', () => ({
+  syncResponses: async (generator: GoogleFormsGenerator, formId: string) => {
+    const { responses = [] } = await generator.getResponses(formId);
+    return { responses, changed: responses, added: responses.length, updated: 0 };
+  },
+}));
+
+const SURVEY = `
+title: Team survey
+numbering: false
+questions:
+  - type: text
+    title: Name
+  - type: multipleChoice
+    title: Remote?
+    options: ["Yes", "No"]
+`;
+
+describe('parseCommandArgs', () => {
+  const command = {
+    options: {
+      'dry-run': { type: 'boolean' as const, aliases: ['plan'], description: '' },
+      output: { type: 'string' as const, short: 'o', description: '' },
+    },
+  };
+
+  it('folds aliases and short flags into the option name', () => {
+    expect(parseCommandArgs(command, ['a.yaml', '--plan', '-o', 'x.csv', '--json'])).toEqual({
+      values: { 'dry-run': true, output: 'x.csv', json: true },
+      positionals: ['a.yaml'],
+    });
+  });
+
+  it('rejects unknown flags and missing values as usage errors', () => {
+    expect(() => parseCommandArgs(command, ['--bogus'])).toThrow(UsageError);
+    expect(() => parseCommandArgs(command, ['--output'])).toThrow(UsageError);
+  });
+});
+
+describe('formatTable', () => {
+  it('pads each column to its widest cell and trims the line ends', () => {
+    expect(formatTable([['FILE', 'FORM ID', 'URL'], ['survey.yaml', 'f1', '-'], ['a.yaml', 'form-2', '']])).toBe(
+      ['FILE         FORM ID  URL', 'survey.yaml  f1       -', 'a.yaml       form-2'].join('\n')
+    );
+  });
+});
+
+describe('pause', () => {
+  it('tells a finished wait from a stop', async () => {
+    expect(await pause(1, new Promise(() => {}))).toBe(false);
+    expect(await pause(60_000, Promise.resolve())).toBe(true);
+  });
+});
+
+describe('gform', () => {
+  let dir: string;
+  let cwd: string;
+  let backend: FakeGoogleBackend;
+  let stdout: string;
+  let stderr: string;
+
+  const run = (...argv: string[]) =>
+    runCli(COMMANDS, argv, {
+      generator: new GoogleFormsGenerator({ forms: backend.forms, drive: backend.drive }),
+      stdout: (text) => { stdout += text; },
+      stderr: (text) => { stderr += text; },
+    });
+
+  const writeYaml = (content: string) => {
+    const file = path.join(dir, 'survey.yaml');
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gform-cli-'));
+    // gform.lock.json is written to the working directory
+    cwd = process.cwd();
+    process.chdir(dir);
+    backend = new FakeGoogleBackend();
+    stdout = '';
+    stderr = '';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prints help for every command', async () => {
+    for (const command of COMMANDS) {
+      stdout = '';
+      expect(await run(...command.name.split(' '), '--help')).toBe(EXIT.ok);
+      expect(stdout).toBe(formatHelp(command));
+      expect(stdout).toContain('--json');
+    }
+  });
+
+  it('lists the commands and exit codes without arguments', async () => {
+    expect(await run()).toBe(EXIT.usage);
+    expect(stdout).toContain('responses export');
+    expect(stdout).toContain('Exit codes:');
+  });
+
+  it('reports unknown commands and missing arguments as usage errors', async () => {
+    expect(await run('frobnicate')).toBe(EXIT.usage);
+    expect(stderr).toContain('Unknown command: frobnicate');
+    expect(await run('responses', 'print')).toBe(EXIT.usage);
+    expect(await run('update', writeYaml(SURVEY))).toBe(EXIT.usage);
+    expect(stderr).toContain('is not tracked in gform.lock.json');
+    expect(await run('responses', 'watch', 'form-1', '--email', 'ann@example.com')).toBe(EXIT.usage);
+    expect(stderr).toContain('--email needs an SMTP server');
+  });
+
+  it('creates, lists and deletes forms with JSON output', async () => {
+    expect(await run('generate', writeYaml(SURVEY), '--json')).toBe(EXIT.ok);
+    const created = JSON.parse(stdout);
+    expect(created).toMatchObject({ action: 'created', editUrl: expect.stringContaining(created.formId) });
+
+    stdout = '';
+    expect(await run('list', '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toEqual([expect.objectContaining({ id: created.formId, name: 'Team survey' })]);
+
+    stdout = '';
+    expect(await run('delete', created.formId, 'missing', '--json')).toBe(EXIT.error);
+    expect(JSON.parse(stdout)).toMatchObject({ deleted: [created.formId], failed: [{ id: 'missing' }] });
+  });
+
+  it('returns exit code 3 with diagnostics for invalid YAML', async () => {
+    const file = writeYaml('title: Broken\nquestions:\n  - type: txt\n    title: Name\n');
+    expect(await run('generate', file, '--json')).toBe(EXIT.invalid);
+    expect(JSON.parse(stdout).error).toMatchObject({ exitCode: EXIT.invalid, diagnostics: [{ line: 3 }] });
+    expect(backend.calls).toEqual([]);
+  });
+
+  it('refuses to update a form with responses unless forced', async () => {
+    const file = writeYaml(SURVEY);
+    await run('generate', file, '--json');
+    const { formId } = JSON.parse(stdout);
+    backend.submit(formId, { Name: 'Ann' });
+    writeYaml(SURVEY.replace('title: Name', 'title: Full name'));
+
+    expect(await run('update', file)).toBe(EXIT.hasResponses);
+    expect(stderr).toContain('Use --force');
+    expect(await run('update', file, '--form-id', formId, '--force')).toBe(EXIT.ok);
+    expect(backend.form(formId).items?.[0].title).toBe('Full name');
+  });
+
+  it('dumps, exports and validates responses', async () => {
+    await run('generate', writeYaml(SURVEY), '--json');
+    const { formId } = JSON.parse(stdout);
+    backend.submit(formId, { Name: 'Ann', 'Remote?': 'Yes' });
+    backend.submit(formId, { Name: '', 'Remote?': 'Yes' });
+
+    stdout = '';
+    expect(await run('responses', 'dump', formId, '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toMatchObject({ title: 'Team survey', total: 2 });
+
+    stdout = '';
+    expect(await run('responses', 'export', formId, '--format', 'tsv')).toBe(EXIT.ok);
+    expect(stdout.split('\n')[0]).toBe('Response ID\tTimestamp\tEmail\tTotal score\tName\tRemote?');
+
+    expect(await run('responses', 'export', formId, '--format', 'xml')).toBe(EXIT.usage);
+
+    stdout = '';
+    expect(await run('responses', 'report', formId)).toBe(EXIT.ok);
+    expect(stdout).toMatch(/^# Team survey\n\n\*\*2\*\* response\(s\)/);
+    expect(await run('responses', 'report', formId, '--interval', 'year')).toBe(EXIT.usage);
+
+    stdout = '';
+    expect(await run('validate', formId, '--json')).toBe(EXIT.invalid);
+    expect(JSON.parse(stdout)).toMatchObject({ checked: 2, issues: [{ questionTitle: 'Name' }] });
+  });
+
+  it('exports a live form to YAML', async () => {
+    await run('generate', writeYaml(SURVEY), '--json');
+    const { formId } = JSON.parse(stdout);
+
+    stdout = '';
+    expect(await run('export', formId, '-o', 'exported.yaml')).toBe(EXIT.ok);
+    expect(stdout).toBe('Wrote exported.yaml\n');
+    expect(fs.readFileSync('exported.yaml', 'utf8')).toContain('title: Team survey');
+    expect(await run('export')).toBe(EXIT.usage);
+  });
+
+  it('tracks generated forms in gform.lock.json and updates them in place', async () => {
+    const file = writeYaml(SURVEY);
+    expect(await run('generate', file, '--json')).toBe(EXIT.ok);
+    const { formId } = JSON.parse(stdout);
+    const lock = JSON.parse(fs.readFileSync(path.join(dir, 'gform.lock.json'), 'utf8'));
+    expect(lock.forms['survey.yaml']).toMatchObject({ formId, hash: expect.stringMatching(/^sha256:/) });
+
+    // Nothing changed: no sign-in, no API calls
+    const calls = backend.calls.length;
+    stdout = '';
+    expect(await run('generate', file, '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toMatchObject({ action: 'unchanged', formId });
+    expect(backend.calls.length).toBe(calls);
+
+    writeYaml(SURVEY.replace('title: Name', 'title: Full name'));
+    stdout = '';
+    expect(await run('generate', file, '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toMatchObject({ action: 'updated', formId });
+    expect(backend.callsTo('forms.create')).toHaveLength(1);
+
+    stdout = '';
+    expect(await run('list', '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toHaveLength(1);
+  });
+
+  it('reports local and remote drift with status', async () => {
+    const file = writeYaml(SURVEY);
+    await run('generate', file, '--json');
+    const { formId } = JSON.parse(stdout);
+
+    stdout = '';
+    expect(await run('status', '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toEqual([
+      expect.objectContaining({ file: 'survey.yaml', formId, local: 'unchanged', remote: 'in sync' }),
+    ]);
+
+    writeYaml(SURVEY.replace('title: Name', 'title: Full name'));
+    await backend.forms.forms.batchUpdate({
+      formId,
+      requestBody: { requests: [{ updateFormInfo: { info: { title: 'Renamed in the UI' }, updateMask: 'title' } }] },
+    });
+    stdout = '';
+    await run('status', '--json');
+    expect(JSON.parse(stdout)[0]).toMatchObject({ local: 'modified', remote: 'edited' });
+
+    fs.rmSync(file);
+    await backend.drive.files.delete({ fileId: formId });
+    stdout = '';
+    await run('status', '--json');
+    expect(JSON.parse(stdout)[0]).toMatchObject({ local: 'missing', remote: 'deleted' });
+
+    stdout = '';
+    await run('status', '--local');
+    expect(stdout).toMatch(/survey\.yaml\s+\S+\s+missing\s+-/);
+  });
+
+  it('generates a directory of forms, carrying on past a bad file', async () => {
+    fs.mkdirSync(path.join(dir, 'forms'));
+    fs.writeFileSync(path.join(dir, 'forms', 'a.yaml'), SURVEY);
+    fs.writeFileSync(path.join(dir, 'forms', 'b.yaml'), SURVEY.replace('Team survey', 'Exit survey'));
+    fs.writeFileSync(path.join(dir, 'forms', 'bad.yaml'), 'title: Broken\nquestions:\n  - type: txt\n    title: Name\n');
+    const batch = ['forms', '--rate', '60000', '--concurrency', '2'];
+
+    expect(await run('generate', ...batch)).toBe(EXIT.invalid);
+    expect(stdout).toMatch(/created\s+forms\/a\.yaml\s+\S+\s+https:\/\/docs\.google\.com\/forms\/d\//);
+    expect(stdout).toMatch(/failed\s+forms\/bad\.yaml/);
+    expect(stdout).toContain('3 file(s): 2 created, 1 failed');
+    expect(backend.callsTo('forms.create')).toHaveLength(2);
+
+    fs.rmSync(path.join(dir, 'forms', 'bad.yaml'));
+    stdout = '';
+    expect(await run('generate', ...batch, '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout).map((o: { action: string }) => o.action)).toEqual(['unchanged', 'unchanged']);
+
+    expect(await run('generate', 'forms', '--form-id', 'x')).toBe(EXIT.usage);
+    expect(await run('generate', 'forms', '--concurrency', '0')).toBe(EXIT.usage);
+  });
+
+  it('generates a form per locale and merges their responses on export', async () => {
+    const file = writeYaml([
+      'title: { en: Team survey, es: Encuesta del equipo }',
+      'locales: [en, es]',
+      'numbering: false',
+      'questions:',
+      '  - type: text',
+      '    title: { en: Name, es: Nombre }',
+      '  - type: multipleChoice',
+      '    title: { en: Remote?, es: ¿Remoto? }',
+      '    options: [{ en: "Yes", es: "Sí" }, "No"]',
+    ].join('\n'));
+
+    expect(await run('generate', file, '--all-locales', '--rate', '60000', '--json')).toBe(EXIT.ok);
+    const outcomes = JSON.parse(stdout);
+    expect(outcomes.map((o: { locale: string; action: string }) => [o.locale, o.action])).toEqual([
+      ['en', 'created'],
+      ['es', 'created'],
+    ]);
+    const lock = JSON.parse(fs.readFileSync(path.join(dir, 'gform.lock.json'), 'utf8'));
+    expect(Object.keys(lock.forms)).toEqual(['survey.yaml', 'survey.yaml#es']);
+    expect(lock.forms['survey.yaml#es'].options).toEqual({ locale: 'es' });
+    expect(backend.form(outcomes[1].formId).info?.title).toBe('Encuesta del equipo');
+
+    backend.submit(outcomes[0].formId, { Name: 'Ann', 'Remote?': 'Yes' }, { time: new Date('2024-05-01T10:00:00Z') });
+    backend.submit(outcomes[1].formId, { Nombre: 'Bea', '¿Remoto?': 'Sí' }, { time: new Date('2024-05-02T10:00:00Z') });
+    stdout = '';
+    expect(await run('responses', 'export', file, '--all-locales', '--format', 'json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toEqual([
+      expect.objectContaining({ Locale: 'en', Name: 'Ann', 'Remote?': 'Yes' }),
+      expect.objectContaining({ Locale: 'es', Name: 'Bea', 'Remote?': 'Yes' }),
+    ]);
+
+    stdout = '';
+    expect(await run('status', file, '--local', '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout).map((s: { file: string; local: string }) => [s.file, s.local])).toEqual([
+      ['survey.yaml', 'unchanged'],
+      ['survey.yaml#es', 'unchanged'],
+    ]);
+    expect(await run('generate', file, '--locale', 'de')).toBe(EXIT.invalid);
+  });
+
+  it('publishes and shares forms as the YAML says, and opens and closes them', async () => {
+    const file = writeYaml(SURVEY.replace('title: Team survey\n', [
+      'title: Team survey',
+      'settings:',
+      '  acceptingResponses: false',
+      '  editors: [ada@example.com]',
+      '  responders: { domain: example.com }',
+      '',
+    ].join('\n')));
+    expect(await run('generate', file, '--json')).toBe(EXIT.ok);
+    const { formId } = JSON.parse(stdout);
+    expect(backend.form(formId).publishSettings).toEqual({ publishState: { isPublished: true, isAcceptingResponses: false } });
+    expect(backend.permissions(formId).map(({ type, role, emailAddress, domain, view }) => ({ type, role, emailAddress, domain, view }))).toEqual([
+      { type: 'user', role: 'owner', emailAddress: 'fake@example.com' },
+      { type: 'user', role: 'writer', emailAddress: 'ada@example.com' },
+      { type: 'domain', role: 'reader', domain: 'example.com', view: 'published' },
+    ]);
+
+    // Only what differs is changed: Ada stays, Bob is added, and the domain makes way for anyone
+    writeYaml(fs.readFileSync(file, 'utf8')
+      .replace('[ada@example.com]', '[ada@example.com, bob@example.com]')
+      .replace('{ domain: example.com }', 'anyone'));
+    expect(await run('generate', file)).toBe(EXIT.ok);
+    expect(backend.callsTo('drive.permissions.create').map((p) => p.requestBody.emailAddress || p.requestBody.type)).toEqual([
+      'ada@example.com', 'domain', 'bob@example.com', 'anyone',
+    ]);
+    expect(backend.callsTo('drive.permissions.delete')).toHaveLength(1);
+
+    stdout = '';
+    expect(await run('open', file)).toBe(EXIT.ok);
+    expect(stdout).toContain(`Form ${formId} is now published, accepting responses.`);
+    backend.submit(formId, { Name: 'Ann' });
+
+    stdout = '';
+    expect(await run('close', formId, '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toEqual({ formId, acceptingResponses: false, changed: true });
+    expect(() => backend.submit(formId, { Name: 'Bob' })).toThrow('not accepting responses');
+    stdout = '';
+    expect(await run('close', formId)).toBe(EXIT.ok);
+    expect(stdout).toContain('was already not accepting responses');
+  });
+
+  it('saves a version before each update and rolls back to one', async () => {
+    const file = writeYaml(SURVEY);
+    expect(await run('generate', file)).toBe(EXIT.ok);
+    const { formId } = JSON.parse(fs.readFileSync(path.join(dir, 'gform.lock.json'), 'utf8')).forms['survey.yaml'];
+    writeYaml(SURVEY.replace('title: Name', 'title: Full name') + '  - type: paragraph\n    title: Goals\n');
+    expect(await run('generate', file)).toBe(EXIT.ok);
+
+    stdout = '';
+    expect(await run('history', 'list', file, '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout)).toEqual([
+      expect.objectContaining({ version: 1, reason: `generate ${file}`, items: 2, files: ['survey.yaml'] }),
+    ]);
+
+    stdout = '';
+    expect(await run('history', 'diff', file, '1')).toBe(EXIT.ok);
+    expect(stdout).toContain('- [0] "Name"');
+    expect(stdout).toContain('+ [2] "Goals"');
+    expect(stdout).toContain('Items: 2 created, 1 deleted, 1 unchanged');
+
+    stdout = '';
+    expect(await run('rollback', file, '1')).toBe(EXIT.ok);
+    expect(stdout).toContain('saved as version 2');
+    expect(backend.form(formId).items!.map((i) => i.title)).toEqual(['Name', 'Remote?']);
+    expect(await run('history', 'diff', file, '1', 'live')).toBe(EXIT.ok);
+
+    // The YAML still has the newer version, and the next generate applies it again
+    stdout = '';
+    expect(await run('generate', file, '--json')).toBe(EXIT.ok);
+    expect(JSON.parse(stdout).action).toBe('updated');
+    expect(await run('rollback', file, '7')).toBe(EXIT.usage);
+    expect(stderr).toContain('No version 7 of form');
+  });
+
+  it('refuses a rollback that would lose images', async () => {
+    const file = writeYaml(SURVEY);
+    expect(await run('generate', file)).toBe(EXIT.ok);
+    const { formId } = JSON.parse(fs.readFileSync(path.join(dir, 'gform.lock.json'), 'utf8')).forms['survey.yaml'];
+    writeYaml(SURVEY + '  - type: image\n    title: Logo\n    url: https://example.com/logo.png\n');
+    expect(await run('generate', file)).toBe(EXIT.ok);
+
+    for (const args of [['--dry-run'], []]) {
+      expect(await run('rollback', file, '1', ...args)).toBe(EXIT.error);
+      expect(stderr).toContain(`Rolling back form ${formId} to version 1 would lose content`);
+      expect(stderr).toContain('"Logo" (imageItem) would be deleted');
+    }
+    expect(backend.form(formId).items!.map((i) => i.title)).toEqual(['Name', 'Remote?', 'Logo']);
+    expect(backend.form(formId).items![2].imageItem?.image?.contentUri).toBeTruthy();
+  });
+});
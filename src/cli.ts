@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+import { Command, main } from './command';
+import { generateCommand, updateCommand } from './generate';
+import { listCommand } from './list-forms';
+import { deleteCommand } from './delete-forms';
+import { dumpCommand } from './dump-responses';
+import { exportCommand } from './export-responses';
+import { reportCommand } from './report-responses';
+import { watchResponsesCommand } from './watch-responses';
+import { validateCommand } from './validate-responses';
+import { exportFormCommand } from './form-to-yaml';
+import { statusCommand } from './status';
+import { HISTORY_COMMANDS } from './history-cli';
+import { ACCESS_COMMANDS } from './access-cli';
+import { schedulerRunCommand } from './scheduler';
+import { AUTH_COMMANDS } from './auth-cli';
+
+// The `gform` binary: every command, in the order `gform --help` lists them
+export const COMMANDS: Command[] = [
+  generateCommand,
+  updateCommand,
+  statusCommand,
+  ...HISTORY_COMMANDS,
+  ...ACCESS_COMMANDS,
+  schedulerRunCommand,
+  listCommand,
+  deleteCommand,
+  dumpCommand,
+  exportCommand,
+  reportCommand,
+  watchResponsesCommand,
+  validateCommand,
+  exportFormCommand,
+  ...AUTH_COMMANDS,
+];
+
+if (require.main === module) {
+  main(COMMANDS);
+}
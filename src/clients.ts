@@ -0,0 +1,86 @@
+import { drive_v3, forms_v1, google } from 'googleapis';
+import { AuthClient } from './auth';
+
+// The parts of the Forms and Drive clients that GoogleFormsGenerator calls.
+// The googleapis clients satisfy these as is; FakeGoogleBackend implements
+// them in memory for offline tests.
+
+export interface ApiResponse<T> {
+  data: T;
+}
+
+// Publish settings are newer than the googleapis release this depends on, so
+// their types are declared here
+export interface PublishState {
+  isPublished?: boolean;
+  isAcceptingResponses?: boolean;
+}
+
+export interface PublishSettings {
+  publishState?: PublishState;
+}
+
+export interface SetPublishSettingsParams {
+  formId: string;
+  requestBody: { publishSettings: PublishSettings; updateMask?: string };
+}
+
+export interface SetPublishSettingsResponse {
+  formId?: string;
+  publishSettings?: PublishSettings;
+}
+
+// What forms.get returns; publishSettings is absent on forms that predate them
+export type PublishedForm = forms_v1.Schema$Form & { publishSettings?: PublishSettings };
+
+// The typings of form settings lack emailCollectionType as well
+export type EmailCollectionType = 'DO_NOT_COLLECT' | 'VERIFIED' | 'RESPONDER_INPUT';
+export type ApiFormSettings = forms_v1.Schema$FormSettings & { emailCollectionType?: EmailCollectionType };
+
+export interface FormsClient {
+  forms: {
+    create(params: forms_v1.Params$Resource$Forms$Create): Promise<ApiResponse<forms_v1.Schema$Form>>;
+    get(params: forms_v1.Params$Resource$Forms$Get): Promise<ApiResponse<forms_v1.Schema$Form>>;
+    batchUpdate(
+      params: forms_v1.Params$Resource$Forms$Batchupdate
+    ): Promise<ApiResponse<forms_v1.Schema$BatchUpdateFormResponse>>;
+    setPublishSettings(params: SetPublishSettingsParams): Promise<ApiResponse<SetPublishSettingsResponse>>;
+    responses: {
+      list(
+        params: forms_v1.Params$Resource$Forms$Responses$List
+      ): Promise<ApiResponse<forms_v1.Schema$ListFormResponsesResponse>>;
+    };
+  };
+}
+
+export interface DriveClient {
+  about: {
+    get(params: drive_v3.Params$Resource$About$Get): Promise<ApiResponse<drive_v3.Schema$About>>;
+  };
+  files: {
+    list(params: drive_v3.Params$Resource$Files$List): Promise<ApiResponse<drive_v3.Schema$FileList>>;
+    delete(params: drive_v3.Params$Resource$Files$Delete): Promise<unknown>;
+  };
+  permissions: {
+    list(params: drive_v3.Params$Resource$Permissions$List): Promise<ApiResponse<drive_v3.Schema$PermissionList>>;
+    create(params: drive_v3.Params$Resource$Permissions$Create): Promise<ApiResponse<drive_v3.Schema$Permission>>;
+    delete(params: drive_v3.Params$Resource$Permissions$Delete): Promise<unknown>;
+  };
+}
+
+/**
+ * The googleapis Forms client, with forms.setPublishSettings sent as a plain
+ * authorized request until googleapis has it.
+ */
+export function googleFormsClient(auth: AuthClient): FormsClient {
+  const client = google.forms({ version: 'v1', auth });
+  const setPublishSettings = async ({ formId, requestBody }: SetPublishSettingsParams) => {
+    const response = await auth.request<SetPublishSettingsResponse>({
+      url: `https://forms.googleapis.com/v1/forms/${encodeURIComponent(formId)}:setPublishSettings`,
+      method: 'POST',
+      data: requestBody,
+    });
+    return { data: response.data };
+  };
+  return { forms: Object.assign(client.forms, { setPublishSettings }) };
+}
@@ -0,0 +1,349 @@
+import { parseArgs } from 'util';
+import GoogleFormsGenerator from './index';
+import { YamlValidationError } from './yaml-validation';
+
+// Shared plumbing for the `gform` subcommands: flag parsing, --help and --json
+// output, and the mapping from errors to exit codes.
+
+export const PROGRAM = 'gform';
+
+export const EXIT = {
+  ok: 0,
+  // Anything else that went wrong, such as an API error
+  error: 1,
+  // Unknown command or flag, or a missing argument
+  usage: 2,
+  // The YAML is invalid, or `validate` found problems in the responses
+  invalid: 3,
+  // Not signed in, the token was revoked, or scopes are missing
+  auth: 4,
+  // An update was refused because the form already has responses
+  hasResponses: 5,
+} as const;
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// A failure that has its own exit code, such as EXIT.hasResponses
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number
+  ) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+export interface OptionSpec {
+  type: 'boolean' | 'string';
+  description: string;
+  short?: string;
+  // Other long names for the same flag, e.g. --plan for --dry-run
+  aliases?: string[];
+  // Placeholder shown in help for string flags
+  value?: string;
+  // May be given more than once; the values are collected into an array
+  multiple?: boolean;
+}
+
+export type OptionValues = Record<string, string | string[] | boolean | undefined>;
+
+export interface CommandContext {
+  values: OptionValues;
+  positionals: string[];
+  json: boolean;
+  // Sign in (unless the clients were injected) and return the generator
+  signIn(): Promise<GoogleFormsGenerator>;
+  // The generator without signing in, for commands that work offline
+  generator(): GoogleFormsGenerator;
+}
+
+export interface CommandResult {
+  // Printed as JSON with --json
+  data?: unknown;
+  // Printed otherwise
+  text?: string;
+  exitCode?: number;
+}
+
+export interface Command {
+  // Words after the program name, e.g. "responses dump"
+  name: string;
+  summary: string;
+  // Arguments after the name in the usage line, e.g. "<form-id> [options]"
+  usage: string;
+  description?: string[];
+  options?: Record<string, OptionSpec>;
+  examples?: string[];
+  run(ctx: CommandContext): Promise<CommandResult>;
+}
+
+export interface RunOptions {
+  // Use this generator instead of signing in to Google (tests, embedding)
+  generator?: GoogleFormsGenerator;
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+}
+
+export const GLOBAL_OPTIONS: Record<string, OptionSpec> = {
+  help: { type: 'boolean', short: 'h', description: 'Show help for the command' },
+  json: { type: 'boolean', description: 'Print machine-readable JSON on stdout' },
+};
+
+/**
+ * Parse a command's flags. Unknown flags and string flags without a value
+ * are usage errors.
+ */
+export function parseCommandArgs(
+  command: Pick<Command, 'options'>,
+  args: string[]
+): { values: OptionValues; positionals: string[] } {
+  const specs = { ...command.options, ...GLOBAL_OPTIONS };
+  const options: Record<string, { type: 'boolean' | 'string'; short?: string; multiple?: boolean }> = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    const base = spec.multiple ? { type: spec.type, multiple: true } : { type: spec.type };
+    options[name] = spec.short ? { ...base, short: spec.short } : base;
+    for (const alias of spec.aliases || []) {
+      options[alias] = base;
+    }
+  }
+
+  let parsed: { values: Record<string, unknown>; positionals: string[] };
+  try {
+    parsed = parseArgs({ args, options, strict: true, allowPositionals: true });
+  } catch (error) {
+    const code = (error as { code?: string }).code || '';
+    if (code.startsWith('ERR_PARSE_ARGS')) {
+      throw new UsageError((error as Error).message);
+    }
+    throw error;
+  }
+
+  const values: OptionValues = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    for (const key of [name, ...(spec.aliases || [])]) {
+      const value = parsed.values[key] as string | string[] | boolean | undefined;
+      if (value === undefined) continue;
+      values[name] = Array.isArray(value) ? [...((values[name] as string[] | undefined) || []), ...value] : value;
+    }
+  }
+  return { values, positionals: parsed.positionals };
+}
+
+function formatOptions(specs: Record<string, OptionSpec>): string[] {
+  const rows = Object.entries(specs).map(([name, spec]) => {
+    const names = [
+      ...(spec.short ? [`-${spec.short}`] : []),
+      ...[name, ...(spec.aliases || [])].map((n) => `--${n}`),
+    ].join(', ');
+    const flag = spec.type === 'string' ? `${names} <${spec.value || 'value'}>` : names;
+    return [flag, spec.description];
+  });
+  const width = Math.max(...rows.map(([flag]) => flag.length)) + 2;
+  return rows.map(([flag, description]) => `  ${flag.padEnd(width)}${description}`);
+}
+
+/**
+ * Rows of cells as aligned columns, each as wide as its widest cell. The
+ * first row is the header.
+ */
+export function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => row[col].length)));
+  return rows.map((row) => row.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd()).join('\n');
+}
+
+export function formatHelp(command: Command): string {
+  const lines = [`Usage: ${PROGRAM} ${command.name} ${command.usage}`.trimEnd(), '', command.summary];
+  if (command.description) {
+    lines.push('', ...command.description);
+  }
+  lines.push('', 'Options:', ...formatOptions({ ...command.options, ...GLOBAL_OPTIONS }));
+  if (command.examples) {
+    lines.push('', 'Examples:', ...command.examples.map((e) => `  ${e}`));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Help for the program, or for a group such as "responses": the commands
+ * under it with their one-line summaries.
+ */
+export function formatCommandList(commands: Command[], group?: string): string {
+  const listed = group ? commands.filter((c) => c.name.startsWith(`${group} `)) : commands;
+  const width = Math.max(...listed.map((c) => c.name.length)) + 2;
+  const lines = [
+    `Usage: ${PROGRAM} ${group ? `${group} ` : ''}<command> [options]`,
+    '',
+    'Commands:',
+    ...listed.map((c) => `  ${c.name.padEnd(width)}${c.summary}`),
+    '',
+    `Run \`${PROGRAM} <command> --help\` for the options of a command.`,
+  ];
+  if (!group) {
+    lines.push(
+      '',
+      'Exit codes:',
+      `  ${EXIT.ok}  Success`,
+      `  ${EXIT.error}  Error, such as a failed API request`,
+      `  ${EXIT.usage}  Unknown command or option, or a missing argument`,
+      `  ${EXIT.invalid}  Invalid YAML, or problems found by \`validate\``,
+      `  ${EXIT.auth}  Not signed in, or the saved authorization is unusable`,
+      `  ${EXIT.hasResponses}  Update refused because the form has responses (see --force)`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function exitCodeOf(error: unknown): number {
+  if (error instanceof UsageError) return EXIT.usage;
+  if (error instanceof YamlValidationError) return EXIT.invalid;
+  if (error instanceof AuthError) return EXIT.auth;
+  if (error instanceof CommandError) return error.exitCode;
+  // The API rejected the access token
+  if ((error as { response?: { status?: number } })?.response?.status === 401) return EXIT.auth;
+  return EXIT.error;
+}
+
+export function messageOf(error: unknown): string {
+  if (error instanceof YamlValidationError) {
+    return `${error.message}\n\n${error.diagnostics.length} problem(s) in ${error.file}; nothing was sent to Google Forms.`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// The command whose name is the longest run of leading words in argv
+function findCommand(commands: Command[], argv: string[]): { command?: Command; rest: string[] } {
+  for (let words = Math.min(argv.length, 3); words > 0; words--) {
+    const name = argv.slice(0, words).join(' ');
+    const command = commands.find((c) => c.name === name);
+    if (command) return { command, rest: argv.slice(words) };
+  }
+  return { rest: argv };
+}
+
+/**
+ * Run the command named by argv and return the process exit code. Output is
+ * written through `options.stdout`/`stderr`; nothing here calls process.exit.
+ */
+export async function runCli(commands: Command[], argv: string[], options: RunOptions = {}): Promise<number> {
+  const stdout = options.stdout || ((text: string) => process.stdout.write(text));
+  const stderr = options.stderr || ((text: string) => process.stderr.write(text));
+  const json = argv.includes('--json');
+
+  const { command, rest } = findCommand(commands, argv);
+  if (!command) {
+    const [first, ...others] = argv;
+    const isGroup = commands.some((c) => c.name.startsWith(`${first} `));
+    const words = isGroup ? others : argv;
+    const help = formatCommandList(commands, isGroup ? first : undefined);
+    if (words.length === 0) {
+      stdout(help);
+      return EXIT.usage;
+    }
+    if (['--help', '-h', 'help'].includes(words[0])) {
+      stdout(help);
+      return EXIT.ok;
+    }
+    stderr(`Unknown command: ${argv.slice(0, isGroup ? 2 : 1).join(' ')}\n\n${help}`);
+    return EXIT.usage;
+  }
+
+  let generator: GoogleFormsGenerator | undefined = options.generator;
+  const getGenerator = () => (generator ??= new GoogleFormsGenerator());
+
+  // Library code reports progress with console.log; keep stdout for the JSON
+  const log = console.log;
+  if (json) console.log = console.error;
+  try {
+    const { values, positionals } = parseCommandArgs(command, rest);
+    if (values.help) {
+      stdout(formatHelp(command));
+      return EXIT.ok;
+    }
+
+    const result = await command.run({
+      values,
+      positionals,
+      json,
+      generator: getGenerator,
+      async signIn() {
+        const g = getGenerator();
+        try {
+          await g.authenticate();
+        } catch (error) {
+          throw new AuthError(`Could not sign in: ${messageOf(error)}`);
+        }
+        return g;
+      },
+    });
+
+    if (json && result.data !== undefined) {
+      stdout(JSON.stringify(result.data, null, 2) + '\n');
+    } else if (!json && result.text) {
+      stdout(result.text.endsWith('\n') ? result.text : result.text + '\n');
+    }
+    return result.exitCode ?? EXIT.ok;
+  } catch (error) {
+    const exitCode = exitCodeOf(error);
+    const message = messageOf(error);
+    stderr(`${message}\n`);
+    if (error instanceof UsageError) {
+      stderr(`Run \`${PROGRAM} ${command.name} --help\` for usage.\n`);
+    }
+    if (json) {
+      const details = error instanceof YamlValidationError ? { file: error.file, diagnostics: error.diagnostics } : {};
+      stdout(JSON.stringify({ error: { message, exitCode, ...details } }, null, 2) + '\n');
+    }
+    return exitCode;
+  } finally {
+    console.log = log;
+  }
+}
+
+/**
+ * Resolves on the first SIGINT or SIGTERM, for commands that run until
+ * interrupted (--watch).
+ */
+export function untilStopped(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+}
+
+/**
+ * Wait `ms` between polls. Resolves to true as soon as `stop` settles, or to
+ * false when the time is up.
+ */
+export function pause(ms: number, stop: Promise<void>): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  return Promise.race([
+    new Promise<boolean>((resolve) => { timer = setTimeout(() => resolve(false), ms); }),
+    stop.then(() => true),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Entry point for a script: run argv against `commands` and exit with the result.
+ */
+export function main(commands: Command[], argv = process.argv.slice(2)): void {
+  runCli(commands, argv).then(
+    (code) => { process.exitCode = code; },
+    (error) => {
+      console.error(error);
+      process.exitCode = EXIT.error;
+    }
+  );
+}
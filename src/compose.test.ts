@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { composeFormYaml, flattenVars } from './compose';
+import { buildFormConfig } from './yaml-to-form';
+import { YamlValidationError } from './yaml-validation';
+
+describe('composeFormYaml', () => {
+  let dir: string;
+  let cwd: string;
+
+  const write = (file: string, lines: string[]) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), lines.join('\n') + '\n');
+    return file;
+  };
+  const messages = (file: string, vars?: Record<string, string>) =>
+    composeFormYaml(file, { vars }).diagnostics.map((d) => `${d.file || file}:${d.line}:${d.column} ${d.message}`);
+
+  beforeEach(() => {
+    cwd = process.cwd();
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gform-compose-')));
+    process.chdir(dir);
+    write('common/contact.yaml', [
+      'title: Contact Information',
+      'questions:',
+      '  - type: text',
+      '    title: Name',
+      '  - type: text',
+      '    title: Email',
+    ]);
+    write('common/questions.yaml', [
+      'nps:',
+      '  type: scale',
+      '  title: How likely are you to recommend {{ client }}?',
+      '  scale: { min: 0, max: 10 }',
+      'comments:',
+      '  type: paragraph',
+      '  title: Anything else?',
+    ]);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('splices in included pages and library questions with overrides', () => {
+    write('forms/survey.yaml', [
+      'title: "{{ client }} survey"',
+      'library: ../common/questions.yaml',
+      'vars:',
+      '  client: Acme',
+      'pages:',
+      '  - include: ../common/contact.yaml',
+      '  - title: Feedback',
+      '    questions:',
+      '      - $ref: nps',
+      '        required: true',
+      '      - $ref: comments',
+    ]);
+
+    const composed = composeFormYaml('forms/survey.yaml');
+    expect(composed.diagnostics).toEqual([]);
+    expect(composed.doc.toJS()).toEqual({
+      title: 'Acme survey',
+      pages: [
+        {
+          title: 'Contact Information',
+          questions: [{ type: 'text', title: 'Name' }, { type: 'text', title: 'Email' }],
+        },
+        {
+          title: 'Feedback',
+          questions: [
+            {
+              type: 'scale',
+              title: 'How likely are you to recommend Acme?',
+              scale: { min: 0, max: 10 },
+              required: true,
+            },
+            { type: 'paragraph', title: 'Anything else?' },
+          ],
+        },
+      ],
+    });
+    expect(composed.files.map((f) => path.relative(dir, f)).sort()).toEqual([
+      'common/contact.yaml',
+      'common/questions.yaml',
+      'forms/survey.yaml',
+    ]);
+  });
+
+  it('includes the list under the same key, or only the items a fragment names', () => {
+    write('form.yaml', [
+      'title: Intake',
+      'questions:',
+      '  - include: common/contact.yaml',
+      '  - include: common/contact.yaml#Email',
+    ]);
+    const form = composeFormYaml('form.yaml').doc.toJS();
+    expect(form.questions.map((q: { title: string }) => q.title)).toEqual(['Name', 'Email', 'Email']);
+  });
+
+  it('includes fragments of the same file, and reports a fragment that includes itself', () => {
+    write('parts.yaml', ['- key: loop', '  title: Loop', '  questions:', "    - include: '#loop'"]);
+    write('form.yaml', [
+      'title: Rounds',
+      'pages:',
+      '  - key: round',
+      '    title: Round',
+      '    questions:',
+      '      - type: text',
+      '        title: Score',
+      "  - include: '#round'",
+    ]);
+    const composed = composeFormYaml('form.yaml');
+    expect(composed.diagnostics).toEqual([]);
+    expect(composed.doc.toJS().pages.map((p: { title: string }) => p.title)).toEqual(['Round', 'Round']);
+
+    write('form.yaml', ['title: Loops', 'pages:', '  - include: parts.yaml#loop']);
+    expect(messages('form.yaml')).toEqual(['parts.yaml:4:16 Include cycle: parts.yaml#loop → parts.yaml#loop']);
+  });
+
+  it('lets --var values override the form defaults', () => {
+    write('form.yaml', ['title: "{{ client }} / {{ event.year }}"', 'vars: { client: Acme }', 'questions: []']);
+    const vars = { ...flattenVars({ event: { year: 2025 } }), client: 'Globex' };
+    expect(composeFormYaml('form.yaml', { vars }).doc.toJS().title).toBe('Globex / 2025');
+  });
+
+  it('reports undefined variables where they are written, in included files too', () => {
+    write('common/greeting.yaml', ['- type: text', '  title: Hello {{ name }}']);
+    write('form.yaml', ['title: "{{ client }}"', 'questions:', '  - include: common/greeting.yaml']);
+    expect(messages('form.yaml')).toEqual([
+      expect.stringMatching(/^form\.yaml:1:8 Undefined variable "client"/),
+      expect.stringMatching(/^common\/greeting\.yaml:2:10 Undefined variable "name"/),
+    ]);
+  });
+
+  it('reports include cycles, missing files and unknown refs', () => {
+    write('a.yaml', ['- include: b.yaml']);
+    write('b.yaml', ['- include: a.yaml']);
+    write('form.yaml', [
+      'title: Broken',
+      'library: common/questions.yaml',
+      'questions:',
+      '  - include: a.yaml',
+      '  - include: missing.yaml',
+      '  - $ref: nsp',
+    ]);
+    expect(messages('form.yaml')).toEqual([
+      'form.yaml:5:14 File not found: missing.yaml',
+      'form.yaml:6:11 Unknown $ref "nsp" (known: nps, comments)',
+      'b.yaml:1:12 Include cycle: a.yaml → b.yaml → a.yaml',
+    ]);
+  });
+
+  it('throws validation errors with the file the problem is in', () => {
+    write('common/bad.yaml', ['- type: slider', '  title: Rate us']);
+    write('form.yaml', ['title: Survey', 'questions:', '  - include: common/bad.yaml']);
+    try {
+      buildFormConfig('form.yaml');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(YamlValidationError);
+      expect((error as Error).message).toMatch(/common\/bad\.yaml:1:9/);
+    }
+  });
+});
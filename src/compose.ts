@@ -0,0 +1,335 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document, isMap, isScalar, isSeq, LineCounter, Node, Pair, parseDocument, visit, YAMLMap } from 'yaml';
+import { byPosition, Diagnostic, Locate, parseDiagnostics } from './yaml-validation';
+
+// Assembles a form from several YAML files before it is validated:
+//
+//   library: common/questions.yaml     # Named questions for `$ref`
+//   vars: { client: Acme }             # Defaults for {{ client }}
+//   pages:
+//     - include: common/contact.yaml   # Spliced in: one page, or a list of them
+//     - title: "{{ client }} feedback"
+//       questions:
+//         - $ref: nps                  # The library entry, with these keys on top
+//           required: true
+//
+// Nodes keep the position they had in their own file, so problems found later
+// are reported where they were written.
+
+export type Vars = Record<string, string>;
+
+export interface ComposeOptions {
+  // Take precedence over the form's own `vars`
+  vars?: Vars;
+}
+
+export interface ComposedForm {
+  doc: Document;
+  locate: Locate;
+  // Absolute paths of the form and every file it pulled in
+  files: string[];
+  diagnostics: Diagnostic[];
+}
+
+const VAR_RE = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+interface Source {
+  file: string;
+  lineCounter: LineCounter;
+}
+
+interface Context {
+  source: Source;
+  // Files and library entries being expanded, outermost first, to catch cycles
+  stack: string[];
+  // Key of the mapping entry the current node is the value of, e.g. "pages"
+  listKey?: string;
+}
+
+const scalarKey = (pair: Pair): string => (isScalar(pair.key) ? String(pair.key.value) : '');
+
+/**
+ * Flatten a vars file: nested mappings become dotted names ({ event: { date } }
+ * is {{ event.date }}).
+ */
+export function flattenVars(value: unknown, prefix = '', out: Vars = {}): Vars {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, inner] of Object.entries(value)) {
+      flattenVars(inner, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (prefix && value !== null && value !== undefined) {
+    out[prefix] = String(value);
+  }
+  return out;
+}
+
+class Composer {
+  private readonly sources = new WeakMap<Node, Source>();
+  private readonly libraries = new Map<string, YAMLMap | null>();
+  readonly files = new Set<string>();
+  readonly diagnostics: Diagnostic[] = [];
+  vars: Vars = {};
+  libraryFiles: string[] = [];
+
+  constructor(private readonly mainFile: string) {}
+
+  locate: Locate = (node) => {
+    const source = (node && this.sources.get(node)) || undefined;
+    if (!source) return { line: 1, column: 1 };
+    const { line, col } = source.lineCounter.linePos(node?.range?.[0] ?? 0);
+    return source.file === this.mainFile
+      ? { line, column: col }
+      : { line, column: col, file: path.relative(process.cwd(), source.file) };
+  };
+
+  report(node: Node | undefined, message: string): void {
+    this.diagnostics.push({ ...this.locate(node), message });
+  }
+
+  // Parse a file and remember where each of its nodes came from
+  parse(file: string, from?: Node): Document | undefined {
+    if (!fs.existsSync(file)) {
+      this.report(from, `File not found: ${path.relative(process.cwd(), file)}`);
+      return undefined;
+    }
+    this.files.add(file);
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(fs.readFileSync(file, 'utf8'), { lineCounter, prettyErrors: false });
+    const display = file === this.mainFile ? undefined : path.relative(process.cwd(), file);
+    this.diagnostics.push(...parseDiagnostics(doc, lineCounter, display));
+    if (doc.errors.length > 0) return undefined;
+    this.register(doc, { file, lineCounter });
+    return doc;
+  }
+
+  private register(node: Document | Node, source: Source): void {
+    visit(node, {
+      Node: (_, n) => {
+        this.sources.set(n, source);
+      },
+    });
+  }
+
+  sourceOf(node: Node, fallback: Source): Source {
+    return this.sources.get(node) || fallback;
+  }
+
+  // Replace {{ name }} in a scalar; reports names with no value
+  substitute(node: Node): void {
+    if (!isScalar(node) || typeof node.value !== 'string' || !node.value.includes('{{')) return;
+    node.value = node.value.replace(VAR_RE, (match, name: string) => {
+      if (name in this.vars) return this.vars[name];
+      this.report(node, `Undefined variable "${name}"; set it with --var ${name}=..., a vars file, or under \`vars\``);
+      return match;
+    });
+  }
+
+  resolve(node: Node | null | undefined, ctx: Context): void {
+    if (!node) return;
+    if (isSeq(node)) {
+      const items: Node[] = [];
+      for (const item of node.items as Node[]) {
+        if (isMap(item) && item.has('include')) {
+          items.push(...this.include(item, ctx));
+        } else if (isMap(item) && item.has('$ref')) {
+          const resolved = this.ref(item, ctx);
+          if (resolved) items.push(resolved);
+        } else {
+          this.resolve(item, ctx);
+          items.push(item);
+        }
+      }
+      node.items = items;
+    } else if (isMap(node)) {
+      for (const pair of node.items as Pair<Node, Node>[]) {
+        if (isMap(pair.value) && pair.value.has('$ref')) {
+          pair.value = this.ref(pair.value, ctx) || pair.value;
+        } else {
+          this.resolve(pair.value, { ...ctx, listKey: scalarKey(pair) });
+        }
+      }
+    } else {
+      this.substitute(node);
+    }
+  }
+
+  // A path written in `from`'s file, after variable substitution
+  target(node: Node | undefined, ctx: Context, what: string): { file: string; fragment?: string } | undefined {
+    if (!node) return undefined;
+    this.substitute(node);
+    const value = isScalar(node) ? node.value : undefined;
+    if (typeof value !== 'string' || value === '') {
+      this.report(node, `Expected ${what} to be a file path`);
+      return undefined;
+    }
+    const [file, fragment] = value.split('#', 2);
+    return {
+      file: file ? path.resolve(path.dirname(ctx.source.file), file) : ctx.source.file,
+      fragment: fragment || undefined,
+    };
+  }
+
+  private cycle(ctx: Context, id: string, node: Node | undefined): boolean {
+    if (!ctx.stack.includes(id)) return false;
+    const names = [...ctx.stack.slice(ctx.stack.indexOf(id)), id].map((s) => path.relative(process.cwd(), s));
+    this.report(node, `Include cycle: ${names.join(' → ')}`);
+    return true;
+  }
+
+  /**
+   * The nodes an `include` entry stands for: the included list, the list
+   * under the same key in an included mapping, or the mapping itself.
+   */
+  include(entry: YAMLMap, ctx: Context): Node[] {
+    const valueNode = entry.get('include', true) as Node | undefined;
+    const extra = (entry.items as Pair<Node, Node>[]).find((p) => scalarKey(p) !== 'include');
+    if (extra) {
+      this.report(extra.key, `Unexpected key "${scalarKey(extra)}" next to \`include\``);
+    }
+    const target = this.target(valueNode, ctx, '`include`');
+    if (!target) return [];
+    // A fragment is its own entry, so a file can include a fragment of itself
+    const id = target.fragment ? `${target.file}#${target.fragment}` : target.file;
+    if (this.cycle(ctx, id, valueNode)) return [];
+
+    const doc = this.parse(target.file, valueNode);
+    if (!doc || !doc.contents) return [];
+    const root = doc.contents as Node;
+    const inner: Context = { source: this.sourceOf(root, ctx.source), stack: [...ctx.stack, id], listKey: ctx.listKey };
+    const itemsOf = (node: Node): Node[] => {
+      const list = isMap(node) && ctx.listKey ? (node.get(ctx.listKey, true) as Node | undefined) : undefined;
+      if (isSeq(node)) return node.items as Node[];
+      if (isSeq(list)) return list.items as Node[];
+      return [node];
+    };
+
+    if (!target.fragment) {
+      this.resolve(root, inner);
+      return itemsOf(root);
+    }
+    // Only the picked items are expanded; the rest of the file, this include among them, is not
+    const picked = itemsOf(root).filter(
+      (item) => isMap(item) && [item.get('key'), item.get('title')].some((v) => String(v) === target.fragment)
+    );
+    if (picked.length === 0) {
+      this.report(valueNode, `Nothing with key or title "${target.fragment}" in ${path.relative(process.cwd(), target.file)}`);
+    }
+    picked.forEach((item) => this.resolve(item, inner));
+    return picked;
+  }
+
+  private library(file: string, from: Node | undefined): YAMLMap | null {
+    if (!this.libraries.has(file)) {
+      const doc = this.parse(file, from);
+      const root = doc?.contents;
+      if (doc && !isMap(root)) {
+        this.report(root as Node | undefined, 'A question library must be a mapping of names to questions');
+      }
+      this.libraries.set(file, isMap(root) ? root : null);
+    }
+    return this.libraries.get(file) || null;
+  }
+
+  /**
+   * A copy of the library entry named by `$ref`, with the other keys of the
+   * referencing mapping laid over it.
+   */
+  ref(entry: YAMLMap, ctx: Context): Node | undefined {
+    const refNode = entry.get('$ref', true) as Node | undefined;
+    this.substitute(refNode as Node);
+    const ref = isScalar(refNode) ? String(refNode.value) : '';
+    if (!ref) {
+      this.report(refNode, 'Expected `$ref` to name a library entry');
+      return undefined;
+    }
+
+    let file: string | undefined;
+    let found: Node | undefined;
+    let name = ref;
+    if (ref.includes('#')) {
+      const target = this.target(refNode, ctx, '`$ref`')!;
+      file = target.file;
+      name = target.fragment || '';
+      found = this.library(file, refNode)?.get(name, true) as Node | undefined;
+    } else {
+      for (const candidate of this.libraryFiles) {
+        found = this.library(candidate, refNode)?.get(name, true) as Node | undefined;
+        if (found) {
+          file = candidate;
+          break;
+        }
+      }
+    }
+    if (!found || !file) {
+      const known = (file ? [file] : this.libraryFiles)
+        .flatMap((f) => (this.libraries.get(f)?.items || []).map((p) => scalarKey(p as Pair)));
+      this.report(refNode, `Unknown $ref "${ref}"${known.length ? ` (known: ${known.join(', ')})` : ' (no `library` declared)'}`);
+      return undefined;
+    }
+
+    const id = `${file}#${name}`;
+    if (this.cycle(ctx, id, refNode)) return undefined;
+    const copy = found.clone() as Node;
+    const source = this.sourceOf(found, ctx.source);
+    this.register(copy, source);
+    this.resolve(copy, { ...ctx, source, stack: [...ctx.stack, id] });
+
+    const overrides = (entry.items as Pair<Node, Node>[]).filter((p) => scalarKey(p) !== '$ref');
+    if (overrides.length === 0) return copy;
+    if (!isMap(copy)) {
+      this.report(refNode, `Library entry "${name}" is not a mapping, so it cannot take other keys`);
+      return copy;
+    }
+    for (const pair of overrides) {
+      this.resolve(pair.value, { ...ctx, listKey: scalarKey(pair) });
+      copy.items = (copy.items as Pair[]).filter((p) => scalarKey(p) !== scalarKey(pair));
+      copy.items.push(pair);
+    }
+    return copy;
+  }
+}
+
+/**
+ * Read a form YAML file and expand its includes, `$ref`s and variables.
+ * Problems are returned as diagnostics, not thrown; the form is not validated.
+ */
+export function composeFormYaml(yamlPath: string, options: ComposeOptions = {}): ComposedForm {
+  const mainFile = path.resolve(yamlPath);
+  const composer = new Composer(mainFile);
+  const doc = composer.parse(mainFile) || new Document();
+  const root = doc.contents as Node | null;
+  const source = root ? composer.sourceOf(root, { file: mainFile, lineCounter: new LineCounter() }) : undefined;
+
+  if (isMap(root)) {
+    const varsNode = root.get('vars', true) as Node | undefined;
+    if (varsNode !== undefined) {
+      if (isMap(varsNode)) {
+        composer.vars = flattenVars(varsNode.toJSON());
+      } else {
+        composer.report(varsNode, 'Expected `vars` to be a mapping of names to values');
+      }
+      root.delete('vars');
+    }
+    composer.vars = { ...composer.vars, ...options.vars };
+
+    const libraryNode = root.get('library', true) as Node | undefined;
+    if (libraryNode !== undefined) {
+      const entries = isSeq(libraryNode) ? (libraryNode.items as Node[]) : [libraryNode];
+      const ctx = { source: source!, stack: [mainFile] };
+      composer.libraryFiles = entries.flatMap((entry) => composer.target(entry, ctx, '`library`')?.file || []);
+      root.delete('library');
+    }
+  }
+
+  if (root && source) {
+    composer.resolve(root, { source, stack: [mainFile] });
+  }
+
+  return {
+    doc,
+    locate: composer.locate,
+    files: [...composer.files],
+    diagnostics: composer.diagnostics.sort(byPosition),
+  };
+}
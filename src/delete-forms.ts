@@ -1,18 +1,23 @@
-import GoogleFormsGenerator from './index';
 import * as readline from 'readline';
+import { Command, EXIT, main, PROGRAM, UsageError } from './command';
 
-async function main() {
-  const generator = new GoogleFormsGenerator();
-  await generator.authenticate();
+type FormSummary = { id: string; name: string; createdTime: string };
 
-  console.log('Fetching forms...\n');
-  const forms = await generator.listForms();
-
-  if (forms.length === 0) {
-    console.log('No forms found.');
-    return;
-  }
+function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
 
+// List the forms and let the user pick which ones to delete
+async function pickForms(forms: FormSummary[]): Promise<FormSummary[]> {
   console.log(`Found ${forms.length} Google Forms:\n`);
   forms.forEach((form, i) => {
     console.log(`${i + 1}. ${form.name}`);
@@ -20,42 +25,69 @@ async function main() {
     console.log(`   Created: ${form.createdTime}\n`);
   });
 
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  rl.question('Enter form numbers to delete (comma-separated), "all", or press Enter to cancel: ', async (answer) => {
-    rl.close();
-
-    if (!answer.trim()) {
-      console.log('No forms deleted.');
-      return;
-    }
+  const answer = await ask('Enter form numbers to delete (comma-separated), "all", or press Enter to cancel: ');
+  if (!answer.trim()) {
+    return [];
+  }
+  if (answer.toLowerCase() === 'all') {
+    return forms;
+  }
+  const indices = answer.split(',').map((s) => parseInt(s.trim()) - 1);
+  return indices.filter((i) => i >= 0 && i < forms.length).map((i) => forms[i]);
+}
 
-    let toDelete: typeof forms = [];
-    if (answer.toLowerCase() === 'all') {
-      toDelete = forms;
-    } else {
-      const indices = answer.split(',').map((s) => parseInt(s.trim()) - 1);
-      toDelete = indices.filter((i) => i >= 0 && i < forms.length).map((i) => forms[i]);
+export const deleteCommand: Command = {
+  name: 'delete',
+  summary: 'Delete forms by ID, or pick them from a list',
+  usage: '[<form-id>...] [options]',
+  description: [
+    'Without form IDs, lists your forms and asks which ones to delete (needs a terminal).',
+    `Exits with ${EXIT.error} if any deletion failed.`,
+  ],
+  examples: [`${PROGRAM} delete <id1> <id2>`, `${PROGRAM} delete`],
+  async run(ctx) {
+    const interactive = ctx.positionals.length === 0;
+    if (interactive && (ctx.json || !process.stdin.isTTY)) {
+      throw new UsageError('Give the IDs of the forms to delete');
     }
 
-    if (toDelete.length === 0) {
-      console.log('No valid forms selected.');
-      return;
+    const generator = await ctx.signIn();
+    let toDelete = ctx.positionals.map((id) => ({ id, name: id }));
+    if (interactive) {
+      const forms = await generator.listForms();
+      if (forms.length === 0) {
+        return { text: 'No forms found.' };
+      }
+      toDelete = await pickForms(forms);
+      if (toDelete.length === 0) {
+        return { text: 'No forms deleted.' };
+      }
+      console.log(`\nDeleting ${toDelete.length} form(s)...`);
     }
 
-    console.log(`\nDeleting ${toDelete.length} form(s)...`);
+    const deleted: string[] = [];
+    const failed: { id: string; error: string }[] = [];
+    const lines: string[] = [];
     for (const form of toDelete) {
       try {
         await generator.deleteForm(form.id);
-        console.log(`Deleted: ${form.name}`);
+        deleted.push(form.id);
+        lines.push(`Deleted: ${form.name}`);
       } catch (err) {
-        console.error(`Failed to delete ${form.name}:`, err);
+        const error = err instanceof Error ? err.message : String(err);
+        failed.push({ id: form.id, error });
+        lines.push(`Failed to delete ${form.name}: ${error}`);
       }
     }
-  });
-}
 
-main();
+    return {
+      data: { deleted, failed },
+      text: lines.join('\n'),
+      exitCode: failed.length > 0 ? EXIT.error : EXIT.ok,
+    };
+  },
+};
+
+if (require.main === module) {
+  main([deleteCommand], ['delete', ...process.argv.slice(2)]);
+}
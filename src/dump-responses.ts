@@ -1,19 +1,10 @@
-import GoogleFormsGenerator from './index';
+import { forms_v1 } from 'googleapis';
+import { syncResponses } from './response-cache';
+import { exportCommand } from './export-responses';
+import { Command, main, PROGRAM, UsageError } from './command';
 
-async function main() {
-  const formId = process.argv[2];
-  if (!formId) {
-    console.error('Usage: ts-node src/dump-responses.ts <form-id>');
-    process.exit(1);
-  }
-
-  const g = new GoogleFormsGenerator();
-  await g.authenticate();
-  const form = await g.getForm(formId);
-  const responsesData = await g.getResponses(formId);
-  const responses = responsesData.responses || [];
-
-  // questionId -> title
+// questionId -> title, with the row appended for grid questions
+function questionTitles(form: forms_v1.Schema$Form): Map<string, string> {
   const qmap = new Map<string, string>();
   for (const item of form.items || []) {
     if (item.questionItem?.question?.questionId) {
@@ -22,31 +13,88 @@ async function main() {
     if (item.questionGroupItem?.questions) {
       for (const q of item.questionGroupItem.questions) {
         if (q.questionId) {
-          const row = (q as any).rowQuestion?.title;
+          const row = q.rowQuestion?.title;
           qmap.set(q.questionId, (item.title || 'Untitled') + (row ? ` — ${row}` : ''));
         }
       }
     }
   }
+  return qmap;
+}
 
-  console.log(`Form: ${form.info?.title || formId}`);
-  console.log(`Total responses: ${responses.length}\n`);
+function formatResponse(r: forms_v1.Schema$FormResponse, qmap: Map<string, string>): string[] {
+  const lines = [
+    '================================================================',
+    `Respondent: ${r.respondentEmail || '(anonymous)'}   Submitted: ${r.lastSubmittedTime || '?'}`,
+  ];
+  for (const [qid, ans] of Object.entries(r.answers || {})) {
+    const title = qmap.get(qid) || qid;
+    const vals = (ans.textAnswers?.answers || [])
+      .map((x) => x.value)
+      .filter((v) => v !== '');
+    lines.push(`  • ${title}: ${vals.join(' | ') || '(blank)'}`);
+  }
+  lines.push('');
+  return lines;
+}
 
-  responses.sort((a: any, b: any) =>
-    (a.lastSubmittedTime || '').localeCompare(b.lastSubmittedTime || ''));
+export const dumpCommand: Command = {
+  name: 'responses dump',
+  summary: 'Print every response with answers mapped to question titles',
+  usage: '<form-id> [options]',
+  description: [
+    'Responses are cached in .gform/responses/<form-id>.json with the latest submit time seen.',
+  ],
+  options: {
+    incremental: {
+      type: 'boolean',
+      description: 'Only fetch and print responses new or edited since the last pull',
+    },
+  },
+  examples: [`${PROGRAM} responses dump <form-id> --incremental --json`],
+  async run(ctx) {
+    const [formId] = ctx.positionals;
+    if (!formId) {
+      throw new UsageError('No form ID specified');
+    }
+    const incremental = ctx.values.incremental === true;
 
-  for (const r of responses as any[]) {
-    console.log('================================================================');
-    console.log(`Respondent: ${r.respondentEmail || '(anonymous)'}   Submitted: ${r.lastSubmittedTime || '?'}`);
-    for (const [qid, ans] of Object.entries(r.answers || {})) {
-      const title = qmap.get(qid) || qid;
-      const vals = ((ans as any).textAnswers?.answers || [])
-        .map((x: any) => x.value)
-        .filter((v: string) => v !== '');
-      console.log(`  • ${title}: ${vals.join(' | ') || '(blank)'}`);
+    const g = await ctx.signIn();
+    const form = await g.getForm(formId);
+    const sync = await syncResponses(g, formId, { incremental });
+    // Incremental pulls print only what is new or edited since the last pull
+    const responses = [...(incremental ? sync.changed : sync.responses)].sort((a, b) =>
+      (a.lastSubmittedTime || '').localeCompare(b.lastSubmittedTime || ''));
+
+    const lines = [`Form: ${form.info?.title || formId}`];
+    if (incremental) {
+      lines.push(`Since: ${sync.since || '(first pull)'}`);
+      lines.push(`New: ${sync.added}   Edited: ${sync.updated}   Total: ${sync.responses.length}\n`);
+    } else {
+      lines.push(`Total responses: ${responses.length}\n`);
     }
-    console.log('');
-  }
-}
+    const qmap = questionTitles(form);
+    for (const r of responses) {
+      lines.push(...formatResponse(r, qmap));
+    }
+
+    return {
+      data: {
+        formId,
+        title: form.info?.title || '',
+        since: sync.since ?? null,
+        added: sync.added,
+        updated: sync.updated,
+        total: sync.responses.length,
+        responses,
+      },
+      text: lines.join('\n'),
+    };
+  },
+};
 
-main().catch((e) => { console.error(e); process.exit(1); });
+// `npm run responses -- export ...` writes a file instead of printing
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  main([dumpCommand, exportCommand], ['responses', ...(args[0] === 'export' ? args : ['dump', ...args])]);
+}
@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import { forms_v1 } from 'googleapis';
+import {
+  buildResponseTable,
+  EXPORT_FORMATS,
+  ExportFormat,
+  formatResponseTable,
+  LocaleVariant,
+  mergeLocaleVariants,
+} from './response-export';
+import { formatFlag, loadQuestionMap, migrateResponses, QuestionFlag } from './question-map';
+import { loadManifest, MANIFEST_FILE, manifestKey, parseKey, variantKeys } from './manifest';
+import { formLocales } from './locales';
+import { Command, main, PROGRAM, UsageError } from './command';
+
+interface ExportTarget {
+  formId: string;
+  locale?: string;
+}
+
+/**
+ * The forms a tracked YAML file stands for: its default language's, the one
+ * for `locale`, or with `all` every language tracked.
+ */
+function trackedForms(file: string, locale: string | undefined, all: boolean): ExportTarget[] {
+  const manifest = loadManifest();
+  const keys = variantKeys(manifest, manifestKey(file));
+  if (keys.length === 0) {
+    throw new UsageError(`${file} is not tracked in ${MANIFEST_FILE}; generate it first, or pass a form ID`);
+  }
+  const [defaultLocale] = formLocales(file);
+  const targets = keys.map((key) => ({
+    formId: manifest.forms[key].formId,
+    locale: parseKey(key).locale || manifest.forms[key].options?.locale || defaultLocale,
+  }));
+  if (all) return targets;
+  if (!locale) return targets.slice(0, 1);
+  const target = targets.find((t) => t.locale === locale);
+  if (!target) {
+    throw new UsageError(`No ${locale} form is tracked for ${file}; run \`${PROGRAM} generate ${file} --locale ${locale}\``);
+  }
+  return [target];
+}
+
+export const exportCommand: Command = {
+  name: 'responses export',
+  summary: 'Export every response as CSV, TSV, JSON or JSON Lines',
+  usage: '<form-id|file> [options]',
+  description: [
+    'Columns are response metadata, then one column per question in form order.',
+    `A YAML file tracked in ${MANIFEST_FILE} can be given instead of a form ID. With --all-locales,`,
+    'the responses to each of its languages are merged into one table, in the default',
+    'language and with a Locale column.',
+    'Answers given before a question was recreated are merged into its current column, and',
+    'answers to removed questions get a column of their own, using the question IDs gform',
+    'records under .gform/questions/ on every update. Renamed and removed questions are noted.',
+    'With --json, a summary of the export is printed; it needs --output.',
+  ],
+  options: {
+    format: { type: 'string', value: EXPORT_FORMATS.join('|'), description: 'Output format (default: csv)' },
+    'one-hot': { type: 'boolean', description: 'One 0/1 column per option for checkbox and checkboxGrid questions' },
+    output: { type: 'string', short: 'o', value: 'file', description: 'Write to a file instead of stdout' },
+    locale: { type: 'string', value: 'code', description: 'With a YAML file, export the form for this locale' },
+    'all-locales': { type: 'boolean', description: 'With a YAML file, merge the responses to every locale' },
+  },
+  examples: [
+    `${PROGRAM} responses export <form-id> --format csv -o responses.csv`,
+    `${PROGRAM} responses export <form-id> --format jsonl --one-hot > responses.jsonl`,
+    `${PROGRAM} responses export survey.yaml --all-locales -o responses.csv`,
+  ],
+  async run(ctx) {
+    const [target] = ctx.positionals;
+    const format = (ctx.values.format as ExportFormat | undefined) || 'csv';
+    const output = ctx.values.output as string | undefined;
+    const oneHot = ctx.values['one-hot'] === true;
+    const locale = ctx.values.locale as string | undefined;
+    const allLocales = ctx.values['all-locales'] === true;
+    if (!target) {
+      throw new UsageError('No form ID specified');
+    }
+    const isFile = fs.existsSync(target) && fs.statSync(target).isFile();
+    if ((locale || allLocales) && !isFile) {
+      throw new UsageError(`--locale and --all-locales take a YAML file tracked in ${MANIFEST_FILE}`);
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new UsageError(`Unknown format "${format}" (expected ${EXPORT_FORMATS.join(', ')})`);
+    }
+    if (ctx.json && !output) {
+      throw new UsageError('--json needs --output; use --format json to export the responses as JSON');
+    }
+
+    const targets: ExportTarget[] = isFile ? trackedForms(target, locale, allLocales) : [{ formId: target }];
+    const generator = await ctx.signIn();
+    const variants: LocaleVariant[] = [];
+    const notes: string[] = [];
+    const flags: (QuestionFlag & { formId: string })[] = [];
+    let reference: forms_v1.Schema$Form | undefined;
+    for (const { formId, locale: variantLocale } of targets) {
+      const form = await generator.getForm(formId);
+      const { responses = [] } = await generator.getResponses(formId);
+      // Answers given under earlier question IDs join the question's current column
+      const migrated = migrateResponses(form, responses, loadQuestionMap(formId));
+      reference ??= migrated.form;
+      for (const flag of migrated.flags) {
+        flags.push({ ...flag, formId });
+        notes.push(targets.length > 1 ? `${variantLocale}: ${formatFlag(flag)}` : formatFlag(flag));
+      }
+      // The locales are merged by position, so with the form as it is; removed questions come from the first
+      variants.push({ locale: variantLocale || '', form, responses: migrated.responses });
+    }
+
+    let table;
+    if (variants.length > 1) {
+      const { responses, localeOf } = mergeLocaleVariants(variants);
+      table = buildResponseTable(reference!, responses, { oneHot, localeOf });
+    } else {
+      table = buildResponseTable(reference!, variants[0].responses, { oneHot });
+    }
+    const text = formatResponseTable(table, format);
+    if (!output) {
+      // stdout is the export itself
+      notes.forEach((note) => console.error(`Note: ${note}`));
+      return { text };
+    }
+    fs.writeFileSync(output, text, 'utf8');
+    const responses = table.rows;
+    const formId = targets.length > 1 ? targets.map((t) => t.formId) : targets[0].formId;
+    return {
+      data: { formId, format, output, responses: responses.length, questions: flags },
+      text: [`Exported ${responses.length} response(s) to ${output}`, ...notes.map((note) => `Note: ${note}`)].join('\n'),
+    };
+  },
+};
+
+if (require.main === module) {
+  main([exportCommand], ['responses', 'export', ...process.argv.slice(2)]);
+}
@@ -0,0 +1,515 @@
+import { drive_v3, forms_v1 } from 'googleapis';
+import {
+  ApiResponse,
+  DriveClient,
+  FormsClient,
+  PublishedForm,
+  SetPublishSettingsParams,
+  SetPublishSettingsResponse,
+} from './clients';
+
+// An in-memory stand-in for the Forms and Drive APIs, for tests that exercise
+// GoogleFormsGenerator without a Google account:
+//
+//   const backend = new FakeGoogleBackend();
+//   const generator = new GoogleFormsGenerator({ forms: backend.forms, drive: backend.drive });
+//
+// It follows the real API where the generator depends on it: forms.create only
+// takes a title, batchUpdate is atomic and assigns item and question IDs,
+// image sourceUri comes back as contentUri, and responses are paged. New forms
+// are published and accepting responses, and shared only with their owner.
+
+const FORM_MIME_TYPE = 'application/vnd.google-apps.form';
+const MAX_PAGE_SIZE = 5000;
+
+const ITEM_KINDS = ['questionItem', 'questionGroupItem', 'pageBreakItem', 'textItem', 'imageItem', 'videoItem'] as const;
+
+/**
+ * Shaped like the GaxiosError the googleapis clients throw.
+ */
+export class FakeApiError extends Error {
+  readonly code: number;
+  readonly response: { status: number; data: { error: { code: number; message: string; status: string } } };
+
+  constructor(code: number, status: string, message: string) {
+    super(message);
+    this.name = 'FakeApiError';
+    this.code = code;
+    this.response = { status: code, data: { error: { code, message, status } } };
+  }
+}
+
+const invalid = (message: string) => new FakeApiError(400, 'INVALID_ARGUMENT', message);
+const notFound = () => new FakeApiError(404, 'NOT_FOUND', 'Requested entity was not found.');
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Answers by question title; grids take { row: column(s) }
+export type FakeAnswers = Record<string, string | string[] | Record<string, string | string[]>>;
+
+export interface FakeBackendOptions {
+  now?: () => Date;
+  pageSizeLimit?: number;   // Lower than the API's 5000 to exercise paging
+  user?: drive_v3.Schema$User;
+}
+
+interface StoredForm {
+  form: PublishedForm;
+  responses: forms_v1.Schema$FormResponse[];
+  permissions: drive_v3.Schema$Permission[];
+  createdTime: string;
+}
+
+export class FakeGoogleBackend {
+  readonly forms: FormsClient;
+  readonly drive: DriveClient;
+  // Every call made, in order, for assertions like "nothing was sent"
+  readonly calls: { method: string; params: any }[] = [];
+
+  private readonly store = new Map<string, StoredForm>();
+  private counter = 0;
+
+  constructor(private readonly options: FakeBackendOptions = {}) {
+    const call = <P, T>(method: string, handler: (params: P) => T) => async (params: P): Promise<ApiResponse<T>> => {
+      this.calls.push({ method, params: clone(params) });
+      return { data: clone(handler(params)) };
+    };
+
+    this.forms = {
+      forms: {
+        create: call('forms.create', (p) => this.create(p)),
+        get: call('forms.get', (p) => this.stored(p.formId).form),
+        batchUpdate: call('forms.batchUpdate', (p) => this.batchUpdate(p)),
+        setPublishSettings: call('forms.setPublishSettings', (p) => this.setPublishSettings(p)),
+        responses: {
+          list: call('forms.responses.list', (p) => this.listResponses(p)),
+        },
+      },
+    };
+    this.drive = {
+      about: {
+        get: call('drive.about.get', () => ({
+          user: this.options.user || { emailAddress: 'fake@example.com', displayName: 'Fake User' },
+        })),
+      },
+      files: {
+        list: call('drive.files.list', (p) => this.listFiles(p)),
+        delete: call('drive.files.delete', (p) => {
+          this.stored(p.fileId);
+          this.store.delete(p.fileId!);
+          return {};
+        }),
+      },
+      permissions: {
+        list: call('drive.permissions.list', (p) => this.listPermissions(p)),
+        create: call('drive.permissions.create', (p) => this.createPermission(p)),
+        delete: call('drive.permissions.delete', (p) => {
+          const stored = this.stored(p.fileId!);
+          const index = stored.permissions.findIndex((perm) => perm.id === p.permissionId);
+          if (index < 0) throw notFound();
+          if (stored.permissions[index].role === 'owner') throw invalid('The owner of a file cannot be removed');
+          stored.permissions.splice(index, 1);
+          return {};
+        }),
+      },
+    };
+  }
+
+  /** Calls made to one method, e.g. 'forms.batchUpdate'. */
+  callsTo(method: string): any[] {
+    return this.calls.filter((c) => c.method === method).map((c) => c.params);
+  }
+
+  /** The stored form, as forms.get would return it. */
+  form(formId: string): PublishedForm {
+    return clone(this.stored(formId).form);
+  }
+
+  /** Every Drive permission on the form, responders included. */
+  permissions(formId: string): drive_v3.Schema$Permission[] {
+    return clone(this.stored(formId).permissions);
+  }
+
+  /**
+   * Record a response. Titles are matched exactly or after a numbering prefix
+   * ("Q 1.2 — Name" answers to "Name").
+   */
+  submit(formId: string, answers: FakeAnswers, options: { email?: string; time?: Date } = {}): string {
+    const stored = this.stored(formId);
+    if (!stored.form.publishSettings?.publishState?.isAcceptingResponses) {
+      throw new Error(`Form ${formId} is not accepting responses`);
+    }
+    const time = (options.time || this.now()).toISOString();
+    const response: forms_v1.Schema$FormResponse = {
+      formId,
+      responseId: `ACYDBN${this.nextId()}`,
+      createTime: time,
+      lastSubmittedTime: time,
+      respondentEmail: options.email,
+      answers: this.answersFor(stored.form, answers),
+    };
+    stored.responses.push(response);
+    return response.responseId!;
+  }
+
+  /** Replace the answers of a response, as when a respondent edits it. */
+  edit(formId: string, responseId: string, answers: FakeAnswers, options: { time?: Date } = {}): void {
+    const stored = this.stored(formId);
+    const response = stored.responses.find((r) => r.responseId === responseId);
+    if (!response) throw notFound();
+    response.answers = this.answersFor(stored.form, answers);
+    response.lastSubmittedTime = (options.time || this.now()).toISOString();
+  }
+
+  // --- forms ------------------------------------------------------------------
+
+  private create(params: forms_v1.Params$Resource$Forms$Create): forms_v1.Schema$Form {
+    const body = params.requestBody || {};
+    const extra = Object.keys(body).filter((k) => k !== 'info');
+    const extraInfo = Object.keys(body.info || {}).filter((k) => k !== 'title' && k !== 'documentTitle');
+    if (extra.length > 0 || extraInfo.length > 0) {
+      throw invalid('Only info.title and info.document_title may be set when creating a form; use batchUpdate for the rest');
+    }
+    const formId = `1FAKE${this.nextId().padStart(39, '0')}`;
+    const title = body.info?.title || '';
+    const form: PublishedForm = {
+      formId,
+      info: { title, documentTitle: body.info?.documentTitle || title || 'Untitled form' },
+      settings: {},
+      revisionId: '00000001',
+      responderUri: `https://docs.google.com/forms/d/e/${formId}/viewform`,
+      publishSettings: { publishState: { isPublished: true, isAcceptingResponses: true } },
+    };
+    const owner = this.options.user || { emailAddress: 'fake@example.com' };
+    const permissions = [{ id: 'owner', type: 'user', role: 'owner', emailAddress: owner.emailAddress }];
+    this.store.set(formId, { form, responses: [], permissions, createdTime: this.now().toISOString() });
+    return form;
+  }
+
+  private batchUpdate(params: forms_v1.Params$Resource$Forms$Batchupdate): forms_v1.Schema$BatchUpdateFormResponse {
+    const stored = this.stored(params.formId);
+    const requests = params.requestBody?.requests || [];
+
+    // Work on a copy so that a failing request leaves the form untouched
+    const form = clone(stored.form);
+    const items = form.items || [];
+    const replies = requests.map((request, index) => {
+      try {
+        return this.apply(form, items, request);
+      } catch (error) {
+        if (error instanceof FakeApiError) {
+          throw invalid(`Invalid requests[${index}].${Object.keys(request)[0]}: ${error.message}`);
+        }
+        throw error;
+      }
+    });
+
+    form.items = items.length > 0 ? items : undefined;
+    form.revisionId = String(Number(stored.form.revisionId) + 1).padStart(8, '0');
+    stored.form = clone(form);
+
+    return {
+      replies,
+      writeControl: { requiredRevisionId: form.revisionId },
+      form: params.requestBody?.includeFormInResponse ? form : undefined,
+    };
+  }
+
+  private apply(form: forms_v1.Schema$Form, items: forms_v1.Schema$Item[], request: forms_v1.Schema$Request): forms_v1.Schema$Response {
+    const kinds = Object.keys(request).filter((k) => (request as any)[k] !== undefined);
+    if (kinds.length !== 1) {
+      throw invalid('Each request must set exactly one kind');
+    }
+
+    if (request.createItem) {
+      const { item, location } = request.createItem;
+      const index = this.index(location, items.length + 1);
+      const created = clone(item || {});
+      if (created.itemId && items.some((i) => i.itemId === created.itemId)) {
+        throw invalid(`Item ID ${created.itemId} is already in use`);
+      }
+      created.itemId = created.itemId || this.nextId();
+      this.assignQuestionIds(created);
+      this.validateItem(created, items);
+      this.storeImages(created);
+      items.splice(index, 0, created);
+      const questionId = this.questionIds(created);
+      return { createItem: { itemId: created.itemId, questionId: questionId.length ? questionId : undefined } };
+    }
+
+    if (request.deleteItem) {
+      items.splice(this.index(request.deleteItem.location, items.length), 1);
+      return {};
+    }
+
+    if (request.moveItem) {
+      const from = this.index(request.moveItem.originalLocation, items.length);
+      const to = this.index(request.moveItem.newLocation, items.length);
+      const [moved] = items.splice(from, 1);
+      items.splice(to, 0, moved);
+      return {};
+    }
+
+    if (request.updateItem) {
+      const { item, location, updateMask } = request.updateItem;
+      const index = this.index(location, items.length);
+      const previous = items[index];
+      const updated = applyMask(previous, item || {}, updateMask);
+      updated.itemId = previous.itemId;
+      this.assignQuestionIds(updated, previous);
+      this.validateItem(updated, items);
+      this.storeImages(updated);
+      items[index] = updated;
+      return {};
+    }
+
+    if (request.updateFormInfo) {
+      const { info, updateMask } = request.updateFormInfo;
+      form.info = applyMask(form.info || {}, info || {}, updateMask);
+      if (!form.info.description) delete form.info.description;
+      return {};
+    }
+
+    if (request.updateSettings) {
+      const { settings, updateMask } = request.updateSettings;
+      form.settings = applyMask(form.settings || {}, settings || {}, updateMask);
+      return {};
+    }
+
+    throw invalid(`The fake backend does not implement ${kinds[0]}`);
+  }
+
+  private index(location: forms_v1.Schema$Location | undefined, limit: number): number {
+    const index = location?.index;
+    if (typeof index !== 'number' || index < 0 || index >= limit) {
+      throw invalid(`Location index ${index} is out of range`);
+    }
+    return index;
+  }
+
+  private questionIds(item: forms_v1.Schema$Item): string[] {
+    if (item.questionItem?.question) {
+      return [item.questionItem.question.questionId!];
+    }
+    return (item.questionGroupItem?.questions || []).map((q) => q.questionId!);
+  }
+
+  // New questions get fresh IDs; an updated question keeps its old one
+  private assignQuestionIds(item: forms_v1.Schema$Item, previous?: forms_v1.Schema$Item): void {
+    const question = item.questionItem?.question;
+    if (question && !question.questionId) {
+      question.questionId = previous?.questionItem?.question?.questionId || this.nextId();
+    }
+    (item.questionGroupItem?.questions || []).forEach((row, i) => {
+      if (!row.questionId) {
+        row.questionId = previous?.questionGroupItem?.questions?.[i]?.questionId || this.nextId();
+      }
+    });
+  }
+
+  private validateItem(item: forms_v1.Schema$Item, items: forms_v1.Schema$Item[]): void {
+    const kinds = ITEM_KINDS.filter((k) => item[k]);
+    if (kinds.length !== 1) {
+      throw invalid(`An item must have exactly one kind, found ${kinds.join(', ') || 'none'}`);
+    }
+
+    const choice = item.questionItem?.question?.choiceQuestion;
+    if (choice) {
+      if (!choice.options?.length) {
+        throw invalid('A choice question needs at least one option');
+      }
+      for (const option of choice.options) {
+        const branches = option.goToAction || option.goToSectionId;
+        if (branches && choice.type === 'CHECKBOX') {
+          throw invalid('Branching is only supported for RADIO and DROP_DOWN questions');
+        }
+        if (option.isOther && choice.type === 'DROP_DOWN') {
+          throw invalid('A dropdown cannot have an "Other" option');
+        }
+        if (option.goToSectionId && !items.some((i) => i.itemId === option.goToSectionId && i.pageBreakItem)) {
+          throw invalid(`goToSectionId ${option.goToSectionId} is not a page break in this form`);
+        }
+      }
+    }
+
+    if (item.videoItem && !item.videoItem.video?.youtubeUri) {
+      throw invalid('A video item needs a youtubeUri');
+    }
+  }
+
+  // sourceUri is input only; the API copies the image and returns a contentUri
+  private storeImages(item: forms_v1.Schema$Item): void {
+    const images = [
+      item.imageItem?.image,
+      item.questionItem?.image,
+      item.questionGroupItem?.image,
+      ...(item.questionItem?.question?.choiceQuestion?.options || []).map((o) => o.image),
+    ];
+    for (const image of images) {
+      if (!image || image.contentUri) continue;
+      if (!image.sourceUri) {
+        throw invalid('An image needs a sourceUri');
+      }
+      image.contentUri = `https://lh7-rt.googleusercontent.com/formsz/${this.nextId()}`;
+      delete image.sourceUri;
+    }
+  }
+
+  // --- responses --------------------------------------------------------------
+
+  private listResponses(params: forms_v1.Params$Resource$Forms$Responses$List): forms_v1.Schema$ListFormResponsesResponse {
+    let responses = this.stored(params.formId).responses;
+
+    if (params.filter) {
+      const match = /^timestamp\s*(>=|>)\s*(\S+)$/.exec(params.filter.trim());
+      if (!match) {
+        throw invalid(`Unsupported filter: ${params.filter}`);
+      }
+      const since = Date.parse(match[2]);
+      if (Number.isNaN(since)) {
+        throw invalid(`Invalid timestamp in filter: ${match[2]}`);
+      }
+      responses = responses.filter((r) => {
+        const time = Date.parse(r.lastSubmittedTime || '');
+        return match[1] === '>' ? time > since : time >= since;
+      });
+    }
+
+    const limit = Math.min(params.pageSize || MAX_PAGE_SIZE, MAX_PAGE_SIZE, this.options.pageSizeLimit || MAX_PAGE_SIZE);
+    const start = params.pageToken ? Number(params.pageToken) : 0;
+    const page = responses.slice(start, start + limit);
+    const next = start + limit < responses.length ? String(start + limit) : undefined;
+    return { responses: page.length ? page : undefined, nextPageToken: next };
+  }
+
+  private answersFor(form: forms_v1.Schema$Form, answers: FakeAnswers): Record<string, forms_v1.Schema$Answer> {
+    const result: Record<string, forms_v1.Schema$Answer> = {};
+    const textAnswer = (questionId: string, value: string | string[]) => {
+      const values = Array.isArray(value) ? value : [value];
+      result[questionId] = { questionId, textAnswers: { answers: values.map((v) => ({ value: v })) } };
+    };
+
+    for (const [title, value] of Object.entries(answers)) {
+      const item = (form.items || []).find((i) => i.title === title || i.title?.endsWith(` — ${title}`));
+      if (!item) {
+        throw new Error(`No question titled "${title}"`);
+      }
+      if (item.questionItem?.question && (typeof value === 'string' || Array.isArray(value))) {
+        textAnswer(item.questionItem.question.questionId!, value);
+      } else if (item.questionGroupItem && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [row, columns] of Object.entries(value)) {
+          const rowQuestion = item.questionGroupItem.questions?.find((q) => q.rowQuestion?.title === row);
+          if (!rowQuestion) {
+            throw new Error(`No row "${row}" in "${title}"`);
+          }
+          textAnswer(rowQuestion.questionId!, columns);
+        }
+      } else {
+        throw new Error(`Answer to "${title}" does not fit its question type`);
+      }
+    }
+    return result;
+  }
+
+  private setPublishSettings(params: SetPublishSettingsParams): SetPublishSettingsResponse {
+    const stored = this.stored(params.formId);
+    const current = stored.form.publishSettings;
+    if (!current) {
+      throw new FakeApiError(400, 'FAILED_PRECONDITION', 'This form does not support publish settings.');
+    }
+    const { publishSettings, updateMask } = params.requestBody;
+    const settings = applyMask(current, publishSettings, updateMask || '*');
+    const state = settings.publishState || {};
+    if (state.isAcceptingResponses && !state.isPublished) {
+      throw invalid('An unpublished form cannot accept responses');
+    }
+    if (!state.isPublished) state.isAcceptingResponses = false;
+    stored.form.publishSettings = { publishState: { isPublished: !!state.isPublished, isAcceptingResponses: !!state.isAcceptingResponses } };
+    return { formId: params.formId, publishSettings: stored.form.publishSettings };
+  }
+
+  // --- drive ------------------------------------------------------------------
+
+  private listPermissions(params: drive_v3.Params$Resource$Permissions$List): drive_v3.Schema$PermissionList {
+    const { permissions } = this.stored(params.fileId!);
+    // Responder permissions only show up when their view is asked for
+    return { permissions: permissions.filter((p) => !p.view || params.includePermissionsForView === p.view) };
+  }
+
+  private createPermission(params: drive_v3.Params$Resource$Permissions$Create): drive_v3.Schema$Permission {
+    const stored = this.stored(params.fileId!);
+    const body = params.requestBody || {};
+    if (!['user', 'group', 'domain', 'anyone'].includes(body.type || '') || !['reader', 'commenter', 'writer'].includes(body.role || '')) {
+      throw invalid(`Invalid permission type "${body.type}" or role "${body.role}"`);
+    }
+    if ((body.type === 'user' || body.type === 'group') && !body.emailAddress) throw invalid('emailAddress is required');
+    if (body.type === 'domain' && !body.domain) throw invalid('domain is required');
+    if (body.view && (body.view !== 'published' || body.role !== 'reader')) {
+      throw invalid('Only reader permissions can have the published view');
+    }
+    const permission: drive_v3.Schema$Permission = { id: `perm-${this.nextId()}`, ...body };
+    stored.permissions.push(permission);
+    return permission;
+  }
+
+
+  private listFiles(params: drive_v3.Params$Resource$Files$List): drive_v3.Schema$FileList {
+    const mimeType = /mimeType\s*=\s*'([^']+)'/.exec(params.q || '')?.[1];
+    const files = [...this.store.values()]
+      .filter(() => !mimeType || mimeType === FORM_MIME_TYPE)
+      .map((s) => ({ id: s.form.formId, name: s.form.info?.documentTitle, mimeType: FORM_MIME_TYPE, createdTime: s.createdTime }));
+    if (params.orderBy?.startsWith('createdTime')) {
+      const direction = params.orderBy.endsWith('desc') ? -1 : 1;
+      files.sort((a, b) => direction * a.createdTime.localeCompare(b.createdTime));
+    }
+    return { files };
+  }
+
+  // --- helpers ----------------------------------------------------------------
+
+  private stored(formId: string | undefined): StoredForm {
+    const stored = formId ? this.store.get(formId) : undefined;
+    if (!stored) throw notFound();
+    return stored;
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+
+  // Eight hex digits, like the IDs the API assigns to items and questions
+  private nextId(): string {
+    return (++this.counter).toString(16).padStart(8, '0');
+  }
+}
+
+/**
+ * Copy the fields named in a field mask from `source` onto a copy of
+ * `target`. "*" replaces everything; a field missing from `source` is cleared.
+ */
+function applyMask<T extends object>(target: T, source: T, updateMask: string | null | undefined): T {
+  if (!updateMask) {
+    throw invalid('updateMask is required');
+  }
+  if (updateMask.trim() === '*') {
+    return clone(source);
+  }
+  const result: any = clone(target);
+  for (const field of updateMask.split(',').map((f) => f.trim())) {
+    const keys = field.split('.');
+    let from: any = source;
+    let to: any = result;
+    for (const key of keys.slice(0, -1)) {
+      from = from?.[key];
+      to[key] = to[key] && typeof to[key] === 'object' ? to[key] : {};
+      to = to[key];
+    }
+    const last = keys[keys.length - 1];
+    if (from?.[last] === undefined) {
+      delete to[last];
+    } else {
+      to[last] = clone(from[last]);
+    }
+  }
+  return result;
+}
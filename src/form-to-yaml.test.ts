@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { forms_v1 } from 'googleapis';
+import * as yaml from 'yaml';
+import { formToYaml } from './form-to-yaml';
+
+const question = (
+  itemId: string,
+  title: string,
+  body: forms_v1.Schema$Question
+): forms_v1.Schema$Item => ({
+  itemId,
+  title,
+  questionItem: { question: { questionId: `q-${itemId}`, ...body } },
+});
+
+describe('formToYaml', () => {
+  it('maps page breaks to pages and strips numbering', () => {
+    const form: forms_v1.Schema$Form = {
+      info: { title: 'Survey', description: 'Intro' },
+      items: [
+        { itemId: 'h', title: 'Section 1 — About You', textItem: {} },
+        question('a', 'Q 1.1 — Your name', { textQuestion: {} }),
+        question('b', 'Q 1.2 — Customer?', {
+          required: true,
+          choiceQuestion: {
+            type: 'RADIO',
+            options: [
+              { value: 'Yes', goToSectionId: 'p' },
+              { value: 'No', goToAction: 'SUBMIT_FORM' },
+              { isOther: true },
+            ],
+          },
+        }),
+        { itemId: 'p', title: 'Section 2 — Feedback', pageBreakItem: {} },
+        question('c', 'Q 2.1 — Rate us', {
+          scaleQuestion: { high: 10, lowLabel: 'Bad', highLabel: 'Great' },
+        }),
+      ],
+    };
+
+    expect(formToYaml(form)).toEqual({
+      title: 'Survey',
+      description: 'Intro',
+      pages: [
+        {
+          title: 'About You',
+          description: undefined,
+          questions: [
+            { type: 'text', title: 'Your name', description: undefined, required: undefined },
+            {
+              type: 'multipleChoice',
+              title: 'Customer?',
+              description: undefined,
+              required: true,
+              options: [
+                { value: 'Yes', goToSection: 'Feedback' },
+                { value: 'No', goToSection: 'submit' },
+                { value: 'Other', isOther: true, goToSection: undefined },
+              ],
+            },
+          ],
+        },
+        {
+          title: 'Feedback',
+          description: undefined,
+          questions: [
+            {
+              type: 'scale',
+              title: 'Rate us',
+              description: undefined,
+              required: undefined,
+              scale: { min: 0, max: 10, minLabel: 'Bad', maxLabel: 'Great' },
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('turns off numbering for forms that were never numbered', () => {
+    const form: forms_v1.Schema$Form = {
+      info: { title: 'Quick poll' },
+      items: [question('a', 'Favourite colour', { textQuestion: {} })],
+    };
+
+    const doc = formToYaml(form);
+    expect(doc.numbering).toBe(false);
+    expect(doc.questions).toHaveLength(1);
+  });
+
+  it('recognises forms numbered with another preset', () => {
+    const form: forms_v1.Schema$Form = {
+      info: { title: 'Review' },
+      items: [
+        { itemId: 'h', title: 'I. Goals', textItem: {} },
+        question('a', 'I.1 What went well?', { textQuestion: { paragraph: true } }),
+        { itemId: 'p', title: 'II. Next', pageBreakItem: {} },
+        question('b', 'II.1 What next?', { textQuestion: {} }),
+      ],
+    };
+
+    const doc = formToYaml(form);
+    expect(doc.numbering).toBe('roman');
+    expect(doc.pages!.map((p) => [p.title, p.questions.map((q) => q.title)])).toEqual([
+      ['Goals', ['What went well?']],
+      ['Next', ['What next?']],
+    ]);
+  });
+
+  it('maps grids, quiz grading and settings', () => {
+    const form: forms_v1.Schema$Form = {
+      info: { title: 'Quiz' },
+      settings: { quizSettings: { isQuiz: true }, emailCollectionType: 'VERIFIED' } as any,
+      items: [
+        {
+          itemId: 'g',
+          title: 'Q 1 — Signs',
+          questionGroupItem: {
+            grid: { columns: { type: 'RADIO', options: [{ value: 'Danger' }, { value: 'Safe' }] } },
+            questions: [
+              {
+                rowQuestion: { title: 'Red' },
+                grading: { pointValue: 1, correctAnswers: { answers: [{ value: 'Danger' }] } },
+              },
+              { rowQuestion: { title: 'Green' } },
+            ],
+          },
+        },
+      ],
+    };
+
+    const doc = formToYaml(form);
+    expect(doc.settings).toEqual({ collectEmail: 'verified', quiz: true });
+    expect(doc.questions?.[0]).toMatchObject({
+      type: 'grid',
+      title: 'Signs',
+      rows: ['Red', 'Green'],
+      columns: ['Danger', 'Safe'],
+      points: 1,
+      correctAnswers: { Red: ['Danger'] },
+    });
+  });
+
+  it('serializes without empty keys', () => {
+    const form: forms_v1.Schema$Form = {
+      info: { title: 'Poll' },
+      items: [question('a', 'Q 1 — Name', { textQuestion: { paragraph: true } })],
+    };
+
+    expect(yaml.stringify(formToYaml(form))).toBe(
+      'title: Poll\nquestions:\n  - type: paragraph\n    title: Name\n'
+    );
+  });
+});
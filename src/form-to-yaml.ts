@@ -0,0 +1,342 @@
+import { forms_v1 } from 'googleapis';
+import * as fs from 'fs';
+import * as yaml from 'yaml';
+import { DEFAULT_NUMBERING, isNumbered, NUMBERING_PRESETS, stripNumbering } from './numbering';
+import { YamlForm, YamlOption, YamlPage, YamlQuestion, YamlSection, YamlSettings } from './yaml-types';
+import { Command, main, PROGRAM, UsageError } from './command';
+
+// yaml-to-form renders `sections` as paragraph questions with this prefix
+const SECTION_MARKER = '📋 ';
+
+const GO_TO_TARGETS: Record<string, string> = {
+  NEXT_SECTION: 'next',
+  SUBMIT_FORM: 'submit',
+  RESTART_FORM: 'restart',
+};
+
+const ICONS: Record<string, YamlQuestion['icon']> = {
+  STAR: 'star',
+  HEART: 'heart',
+  THUMB_UP: 'thumbUp',
+};
+
+// Roman numerals are letters too, so roman is tried before alpha
+const DETECTED_PRESETS = ['outline', 'roman', 'alpha', 'plain'];
+
+/**
+ * The numbering preset most of the titles carry, or undefined for the default
+ * one. Ties go to the preset tried first.
+ */
+function detectPreset(titles: string[]): string | undefined {
+  let best: string | undefined;
+  let bestCount = titles.filter((t) => isNumbered(t, DEFAULT_NUMBERING)).length;
+  for (const name of DETECTED_PRESETS) {
+    const scheme = NUMBERING_PRESETS[name];
+    const count = titles.filter((t) => stripNumbering(t, scheme) !== stripNumbering(t)).length;
+    if (count > bestCount) {
+      best = name;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Convert a live form (as returned by `getForm`) into the YAML shape that
+ * `yamlToForm` reads. Numbering prefixes are stripped, since generate adds them
+ * back; a form numbered with another preset gets `numbering: <preset>`.
+ */
+export function formToYaml(form: forms_v1.Schema$Form): YamlForm {
+  const items = form.items || [];
+  const preset = detectPreset(items.map((item) => (item.title || '').replace(SECTION_MARKER, '')));
+  const scheme = preset ? NUMBERING_PRESETS[preset] : undefined;
+  let numbered = false;
+  const strip = (title: string | null | undefined): string => {
+    const stripped = stripNumbering(title || '', scheme);
+    if (stripped !== (title || '')) numbered = true;
+    return stripped;
+  };
+
+  // Page break itemId -> page title, for goToSectionId
+  const pageNames = new Map<string, string>();
+  for (const item of items) {
+    if (item.pageBreakItem && item.itemId) {
+      pageNames.set(item.itemId, stripNumbering(item.title || '', scheme));
+    }
+  }
+
+  const convert = (item: forms_v1.Schema$Item) => {
+    const converted = convertItem(item, pageNames, strip);
+    if (!converted) {
+      const kind = item.questionItem ? 'question' : Object.keys(item).find((k) => k.endsWith('Item')) || 'item';
+      console.warn(`Skipping unsupported ${kind}: "${item.title || ''}"`);
+    }
+    return converted;
+  };
+
+  const doc: YamlForm = {
+    title: form.info?.title || '',
+    description: form.info?.description || undefined,
+  };
+
+  if (items.some((item) => item.pageBreakItem)) {
+    const pages: YamlPage[] = [];
+    let page: YamlPage = { title: '', questions: [] };
+    items.forEach((item, index) => {
+      if (item.pageBreakItem) {
+        pages.push(page);
+        page = { title: strip(item.title), description: item.description || undefined, questions: [] };
+      } else if (index === 0 && item.textItem) {
+        // yaml-to-form puts the first page's title in a header item
+        page.title = strip(item.title);
+        page.description = item.description || undefined;
+      } else {
+        pushDefined(page.questions, convert(item));
+      }
+    });
+    pages.push(page);
+    doc.pages = pages;
+  } else if (items[0]?.title?.startsWith(SECTION_MARKER) && items[0].questionItem?.question?.textQuestion) {
+    const sections: YamlSection[] = [];
+    for (const item of items) {
+      if (item.title?.startsWith(SECTION_MARKER) && item.questionItem?.question?.textQuestion) {
+        sections.push({ title: strip(item.title.slice(SECTION_MARKER.length)), questions: [] });
+      } else {
+        pushDefined(sections[sections.length - 1].questions, convert(item));
+      }
+    }
+    doc.sections = sections;
+  } else {
+    doc.questions = [];
+    for (const item of items) {
+      pushDefined(doc.questions, convert(item));
+    }
+  }
+
+  // Hand-built forms without numbering must not gain it on the way back
+  if (!numbered && items.length > 0) {
+    doc.numbering = false;
+  } else if (preset) {
+    doc.numbering = preset;
+  }
+
+  const settings: YamlSettings = {};
+  const formSettings = (form.settings || {}) as any;
+  if (formSettings.emailCollectionType === 'VERIFIED') {
+    settings.collectEmail = 'verified';
+  } else if (formSettings.emailCollectionType === 'RESPONDER_INPUT') {
+    settings.collectEmail = 'input';
+  }
+  if (formSettings.quizSettings?.isQuiz) {
+    settings.quiz = true;
+  }
+  if (Object.keys(settings).length > 0) {
+    doc.settings = settings;
+  }
+
+  // Keep the key order of a hand-written file: title, description, settings, layout
+  const { title, description, numbering, pages, sections, questions } = doc;
+  return { title, description, numbering, settings: doc.settings, pages, sections, questions };
+}
+
+/**
+ * Whether formToYaml carries an item over. Images on the item are dropped
+ * either way, since the API only returns a short-lived contentUri for them.
+ */
+export function canDescribe(item: forms_v1.Schema$Item): boolean {
+  return Boolean(item.pageBreakItem || item.textItem) || convertItem(item, new Map(), (title) => title || '') !== undefined;
+}
+
+function pushDefined<T>(list: T[], value: T | undefined): void {
+  if (value !== undefined) list.push(value);
+}
+
+function convertItem(
+  item: forms_v1.Schema$Item,
+  pageNames: Map<string, string>,
+  strip: (title: string | null | undefined) => string
+): YamlQuestion | undefined {
+  const description = item.description || undefined;
+
+  if (item.textItem) {
+    return { type: 'title', title: item.title || '', description };
+  }
+
+  // Image items are skipped below: the API only returns a short-lived contentUri
+  const video = item.videoItem?.video;
+  if (video?.youtubeUri) {
+    return {
+      type: 'video',
+      title: item.title || '',
+      description,
+      url: video.youtubeUri,
+      caption: item.videoItem?.caption || undefined,
+    };
+  }
+
+  const group = item.questionGroupItem;
+  if (group) {
+    const rows = (group.questions || []).map((q) => q.rowQuestion?.title || '');
+    const correct: Record<string, string[]> = {};
+    for (const q of group.questions || []) {
+      const answers = q.grading?.correctAnswers?.answers;
+      if (answers?.length) {
+        correct[q.rowQuestion?.title || ''] = answers.map((a) => a.value || '');
+      }
+    }
+    const firstGrading = group.questions?.find((q) => q.grading)?.grading;
+    return {
+      type: group.grid?.columns?.type === 'CHECKBOX' ? 'checkboxGrid' : 'grid',
+      title: strip(item.title),
+      description,
+      required: group.questions?.some((q) => q.required) || undefined,
+      rows,
+      columns: (group.grid?.columns?.options || []).map((o) => o.value || ''),
+      ...convertGrading(firstGrading, Object.keys(correct).length ? correct : undefined),
+    };
+  }
+
+  const question = item.questionItem?.question;
+  if (!question) {
+    return undefined;
+  }
+
+  const base = {
+    title: strip(item.title),
+    description,
+    required: question.required || undefined,
+  };
+  const answers = question.grading?.correctAnswers?.answers?.map((a) => a.value || '');
+  const numericAnswers = answers?.map(Number);
+
+  if (question.choiceQuestion) {
+    const choice = question.choiceQuestion;
+    const type =
+      choice.type === 'CHECKBOX' ? 'checkbox' : choice.type === 'DROP_DOWN' ? 'dropdown' : 'multipleChoice';
+    const options = (choice.options || []).map((o): YamlOption => {
+      const goToSection = o.goToSectionId
+        ? pageNames.get(o.goToSectionId)
+        : o.goToAction
+          ? GO_TO_TARGETS[o.goToAction]
+          : undefined;
+      if (o.isOther) return { value: 'Other', isOther: true, goToSection };
+      return goToSection ? { value: o.value || '', goToSection } : o.value || '';
+    });
+    const single = type !== 'checkbox' && answers?.length === 1;
+    return {
+      type,
+      ...base,
+      options,
+      ...convertGrading(question.grading, single ? answers![0] : answers),
+    };
+  }
+
+  if (question.textQuestion) {
+    return {
+      type: question.textQuestion.paragraph ? 'paragraph' : 'text',
+      ...base,
+      ...convertGrading(question.grading, answers),
+    };
+  }
+
+  if (question.scaleQuestion) {
+    const scale = question.scaleQuestion;
+    return {
+      type: 'scale',
+      ...base,
+      scale: {
+        min: scale.low ?? 0,  // The API omits a low of 0
+        max: scale.high ?? 0,
+        minLabel: scale.lowLabel || undefined,
+        maxLabel: scale.highLabel || undefined,
+      },
+      ...convertGrading(question.grading, numericAnswers),
+    };
+  }
+
+  if (question.dateQuestion) {
+    return {
+      type: 'date',
+      ...base,
+      includeTime: question.dateQuestion.includeTime || undefined,
+      ...convertGrading(question.grading, answers),
+    };
+  }
+
+  if (question.timeQuestion) {
+    return {
+      type: 'time',
+      ...base,
+      duration: question.timeQuestion.duration || undefined,
+      ...convertGrading(question.grading, answers),
+    };
+  }
+
+  const rating = (question as any).ratingQuestion;
+  if (rating) {
+    return {
+      type: 'rating',
+      ...base,
+      ratingScale: rating.ratingScaleLevel,
+      icon: ICONS[rating.iconType] || 'star',
+      ...convertGrading(question.grading, numericAnswers),
+    };
+  }
+
+  return undefined;
+}
+
+function convertGrading(
+  grading: forms_v1.Schema$Grading | undefined,
+  correctAnswers: YamlQuestion['correctAnswers'] | undefined
+): Pick<YamlQuestion, 'points' | 'correctAnswers' | 'feedback'> {
+  if (!grading) {
+    return {};
+  }
+  const feedback = {
+    correct: grading.whenRight?.text || undefined,
+    incorrect: grading.whenWrong?.text || undefined,
+    general: grading.generalFeedback?.text || undefined,
+  };
+  const hasFeedback = Object.values(feedback).some((v) => v !== undefined);
+  return {
+    points: grading.pointValue ?? 0,
+    correctAnswers,
+    feedback: hasFeedback ? feedback : undefined,
+  };
+}
+
+export const exportFormCommand: Command = {
+  name: 'export',
+  summary: 'Export a live form to YAML that generate can read',
+  usage: '<form-id> [options]',
+  description: [
+    'Converts a form, including one built by hand in the Forms UI, back into YAML.',
+    'Items the YAML format cannot describe are skipped with a warning.',
+  ],
+  options: {
+    output: { type: 'string', short: 'o', value: 'file', description: 'Write to a file instead of stdout' },
+  },
+  examples: [`${PROGRAM} export <form-id> --output my-form.yaml`],
+  async run(ctx) {
+    const [formId] = ctx.positionals;
+    const output = ctx.values.output as string | undefined;
+    if (!formId) {
+      throw new UsageError('No form ID specified');
+    }
+
+    const generator = await ctx.signIn();
+    const form = await generator.getForm(formId);
+    const exported = formToYaml(form);
+    const text = `# Exported from https://docs.google.com/forms/d/${formId}/edit\n\n` + yaml.stringify(exported, { lineWidth: 0 });
+    if (!output) {
+      return { data: exported, text };
+    }
+    fs.writeFileSync(output, text, 'utf8');
+    return { data: { formId, output }, text: `Wrote ${output}` };
+  },
+};
+
+if (require.main === module) {
+  main([exportFormCommand], ['export', ...process.argv.slice(2)]);
+}
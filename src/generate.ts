@@ -0,0 +1,470 @@
+import * as fs from 'fs';
+import * as yaml from 'yaml';
+import GoogleFormsGenerator from './index';
+import {
+  applyYamlForm,
+  ApplyResult,
+  buildFormConfig,
+  ExistingResponsesError,
+  GenerateOptions,
+  planYamlForm,
+} from './yaml-to-form';
+import {
+  BuildOptions,
+  configHash,
+  loadManifest,
+  Manifest,
+  MANIFEST_FILE,
+  manifestKey,
+  recordApply,
+  saveManifest,
+  variantKey,
+} from './manifest';
+import { expandYamlPaths } from './paths';
+import { flattenVars, Vars } from './compose';
+import { formLocales } from './locales';
+import { NUMBERING_PRESETS } from './numbering';
+import { mapWithConcurrency, RateLimiter } from './throttle';
+import { FormWatcher } from './watch';
+import {
+  Command,
+  CommandContext,
+  CommandError,
+  CommandResult,
+  EXIT,
+  exitCodeOf,
+  formatTable,
+  main,
+  messageOf,
+  OptionSpec,
+  OptionValues,
+  PROGRAM,
+  untilStopped,
+  UsageError,
+} from './command';
+
+// The generate and update commands, for one YAML file or a whole tree of them
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+const GENERATE_OPTIONS: Record<string, OptionSpec> = {
+  force: { type: 'boolean', description: 'Skip the response warning and update anyway' },
+  'save-responses': { type: 'boolean', description: 'Export existing responses to CSV before updating' },
+  'use-filename': { type: 'boolean', description: 'Use the YAML filename as the form title' },
+  prefix: { type: 'string', value: 'text', description: 'Prefix the form title (e.g., --prefix "Test: ")' },
+  'no-numbers': { type: 'boolean', description: 'Disable auto-numbering of sections and questions' },
+  numbering: {
+    type: 'string',
+    value: 'preset',
+    description: `Number titles in this style instead of the file's \`numbering\` (${Object.keys(NUMBERING_PRESETS).join(', ')})`,
+  },
+  test: { type: 'boolean', description: 'Shorthand for --prefix "Test: "' },
+  'dry-run': {
+    type: 'boolean',
+    aliases: ['plan'],
+    description: 'Print the API requests that would be sent, without signing in',
+  },
+  snapshot: { type: 'string', value: 'file', description: 'With --dry-run and --form-id, diff against this form JSON' },
+  refresh: { type: 'boolean', description: 'Update the form even if the YAML has not changed since it was last applied' },
+  'no-lock': { type: 'boolean', description: `Neither read nor update ${MANIFEST_FILE}` },
+  concurrency: {
+    type: 'string',
+    value: 'n',
+    description: `With several files, how many to work on at once (default: ${DEFAULT_CONCURRENCY})`,
+  },
+  rate: {
+    type: 'string',
+    value: 'n',
+    description: `With several files, the most API requests per minute (default: ${DEFAULT_REQUESTS_PER_MINUTE})`,
+  },
+  var: {
+    type: 'string',
+    value: 'name=value',
+    multiple: true,
+    description: 'Set a {{ name }} template variable; may be repeated',
+  },
+  vars: { type: 'string', value: 'file', description: 'Read template variables from a YAML or JSON file' },
+  locale: { type: 'string', value: 'code', description: 'Generate the form in one of the file\'s `locales`' },
+  'all-locales': { type: 'boolean', description: 'Generate one form per locale the file declares' },
+  watch: {
+    type: 'boolean',
+    short: 'w',
+    description: 'Keep the linked form in sync with the file and everything it includes until stopped',
+  },
+  'allow-responses': { type: 'boolean', description: 'With --watch, keep syncing after the form receives responses' },
+};
+
+export type GenerateAction = 'created' | 'updated' | 'unchanged' | 'planned' | 'failed';
+
+export interface GenerateOutcome {
+  file: string;
+  // With --locale or --all-locales, the language this form is in
+  locale?: string;
+  action: GenerateAction;
+  formId?: string;
+  editUrl?: string;
+  viewUrl?: string;
+  // With --dry-run: the plan, as text or (with --json) as an object
+  plan?: unknown;
+  error?: string;
+  exitCode?: number;
+}
+
+interface FileOptions {
+  options: GenerateOptions;
+  manifest?: Manifest;
+  // update never creates: the file has to be tracked or have --form-id
+  requireForm: boolean;
+  refresh: boolean;
+  json: boolean;
+  signIn: () => Promise<GoogleFormsGenerator>;
+}
+
+const formUrls = (formId: string) => ({
+  editUrl: `https://docs.google.com/forms/d/${formId}/edit`,
+  viewUrl: `https://docs.google.com/forms/d/${formId}/viewform`,
+});
+
+/**
+ * Where a file's form is tracked: its own key, or a variant key for a
+ * language other than the default.
+ */
+function trackedKey(yamlPath: string, locale?: string): string {
+  const isDefault = !locale || formLocales(yamlPath)[0] === locale;
+  return variantKey(manifestKey(yamlPath), isDefault ? undefined : locale);
+}
+
+// What gform.lock.json records of the options, to rebuild the same form later
+function buildOptionsOf(options: GenerateOptions): BuildOptions {
+  const { prefix, noNumbers, numbering, useFilename, vars, locale } = options;
+  return { prefix, noNumbers, numbering, useFilename, vars, locale };
+}
+
+async function generateFile(yamlPath: string, run: FileOptions): Promise<GenerateOutcome> {
+  const { manifest } = run;
+  const { locale } = run.options;
+  const key = trackedKey(yamlPath, locale);
+  const tracked = manifest?.forms[key];
+  const formId = run.options.formId || tracked?.formId;
+  if (run.requireForm && !formId) {
+    throw new UsageError(`${key} is not tracked in ${MANIFEST_FILE}; pass --form-id`);
+  }
+
+  const options: GenerateOptions = {
+    ...run.options,
+    formId,
+    itemKeys: tracked?.formId === formId ? tracked?.itemKeys : undefined,
+  };
+
+  if (options.dryRun) {
+    const plan = planYamlForm(yamlPath, options);
+    return { file: yamlPath, locale, action: 'planned', formId, plan: run.json ? JSON.parse(plan) : plan };
+  }
+
+  const config = buildFormConfig(yamlPath, options);
+  const hash = configHash(config);
+  if (tracked && tracked.formId === formId && tracked.hash === hash && !run.refresh) {
+    return { file: yamlPath, locale, action: 'unchanged', formId, ...formUrls(tracked.formId) };
+  }
+
+  const generator = await run.signIn();
+  let result: ApplyResult;
+  try {
+    result = await applyYamlForm(yamlPath, options, generator, config);
+  } catch (error) {
+    if (error instanceof ExistingResponsesError) {
+      throw new CommandError(error.message, EXIT.hasResponses);
+    }
+    throw error;
+  }
+
+  if (manifest) {
+    recordApply(manifest, key, {
+      formId: result.formId,
+      hash,
+      options: buildOptionsOf(options),
+      revisionId: result.form.revisionId || undefined,
+      itemKeys: result.itemKeys,
+    });
+    saveManifest(manifest);
+  }
+
+  return {
+    file: yamlPath,
+    locale,
+    action: result.created ? 'created' : 'updated',
+    formId: result.formId,
+    ...formUrls(result.formId),
+  };
+}
+
+function positiveInt(value: OptionValues[string], flag: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new UsageError(`--${flag} must be a whole number of at least 1, got "${value}"`);
+  }
+  return n;
+}
+
+// --vars file first, so --var can override single values from it
+function templateVars(values: OptionValues): Vars {
+  let vars: Vars = {};
+  const file = values.vars as string | undefined;
+  if (file) {
+    if (!fs.existsSync(file)) {
+      throw new UsageError(`Vars file not found: ${file}`);
+    }
+    vars = flattenVars(yaml.parse(fs.readFileSync(file, 'utf8')));
+  }
+  for (const assignment of (values.var as string[] | undefined) || []) {
+    const eq = assignment.indexOf('=');
+    if (eq < 1) {
+      throw new UsageError(`--var takes name=value, got "${assignment}"`);
+    }
+    vars[assignment.slice(0, eq)] = assignment.slice(eq + 1);
+  }
+  return vars;
+}
+
+function singleResult(outcome: GenerateOutcome, manifest: Manifest | undefined, wasTracked: boolean): CommandResult {
+  if (outcome.action === 'planned') {
+    return typeof outcome.plan === 'string' ? { text: outcome.plan } : { data: outcome.plan };
+  }
+  const { file, locale, action, formId, editUrl, viewUrl } = outcome;
+  const data = { action, formId, editUrl, viewUrl };
+  const key = trackedKey(file, locale);
+  if (action === 'unchanged') {
+    const entry = manifest?.forms[key];
+    return {
+      data,
+      text: `No changes in ${file} since it was last applied at ${entry?.updatedAt} (form ${formId}).`,
+    };
+  }
+  const lines = [`\n✓ Form ${action} successfully!\n`, `Edit URL: ${editUrl}`, `View URL: ${viewUrl}`];
+  if (manifest && !wasTracked) {
+    const again = locale ? `${file} --locale ${locale}` : file;
+    lines.push(`\nTracked as ${key} in ${MANIFEST_FILE}; run \`${PROGRAM} generate ${again}\` again to update it.`);
+  }
+  return { data, text: lines.join('\n') };
+}
+
+/**
+ * One row per file, then the failures in full and the totals.
+ */
+export function formatSummary(outcomes: GenerateOutcome[]): string {
+  const rows = [
+    ['RESULT', 'FILE', 'FORM ID', 'URL'],
+    ...outcomes.map((o) => [o.action, variantKey(o.file, o.locale), o.formId || '-', o.editUrl || (o.error ? o.error.split('\n')[0] : '-')]),
+  ];
+  const lines = [formatTable(rows)];
+
+  const failed = outcomes.filter((o) => o.action === 'failed');
+  if (failed.length > 0) {
+    lines.push('', 'Failures:');
+    for (const o of failed) {
+      lines.push(`  ${variantKey(o.file, o.locale)}`, ...(o.error || '').split('\n').map((line) => `    ${line}`));
+    }
+  }
+
+  const counts = (['created', 'updated', 'unchanged', 'planned', 'failed'] as GenerateAction[])
+    .map((action) => [action, outcomes.filter((o) => o.action === action).length] as const)
+    .filter(([action, n]) => n > 0 || action === 'failed');
+  lines.push('', `${outcomes.length} file(s): ${counts.map(([action, n]) => `${n} ${action}`).join(', ')}`);
+  return lines.join('\n');
+}
+
+// A batch fails with the failures' exit code when they agree, and EXIT.error otherwise
+function batchExitCode(outcomes: GenerateOutcome[]): number {
+  const codes = new Set(outcomes.filter((o) => o.action === 'failed').map((o) => o.exitCode ?? EXIT.error));
+  if (codes.size === 0) return EXIT.ok;
+  return codes.size === 1 ? [...codes][0] : EXIT.error;
+}
+
+async function runGenerate(ctx: CommandContext, requireForm: boolean): Promise<CommandResult> {
+  const { values } = ctx;
+  if (ctx.positionals.length === 0) {
+    throw new UsageError('No YAML file specified');
+  }
+  const locale = values.locale as string | undefined;
+  const allLocales = values['all-locales'] === true;
+  if (locale && allLocales) {
+    throw new UsageError('--locale and --all-locales cannot be used together');
+  }
+  const numbering = values.numbering as string | undefined;
+  if (numbering !== undefined && !(numbering in NUMBERING_PRESETS)) {
+    throw new UsageError(`Unknown --numbering preset "${numbering}" (expected ${Object.keys(NUMBERING_PRESETS).join(', ')})`);
+  }
+  const { files, unmatched, expanded } = expandYamlPaths(ctx.positionals);
+  // A file without `locales` is generated once even with --all-locales
+  const jobs = files.flatMap((file) => {
+    const locales = allLocales ? formLocales(file) : [];
+    return locales.length > 0 ? locales.map((l) => ({ file, locale: l })) : [{ file, locale }];
+  });
+  const batch = expanded || jobs.length > 1;
+  if (!batch && unmatched.length > 0) {
+    throw new UsageError(`File not found: ${unmatched[0]}`);
+  }
+  if (batch && values['form-id']) {
+    throw new UsageError('--form-id takes a single YAML file and locale');
+  }
+  const concurrency = positiveInt(values.concurrency, 'concurrency', DEFAULT_CONCURRENCY);
+  const rate = positiveInt(values.rate, 'rate', DEFAULT_REQUESTS_PER_MINUTE);
+
+  const manifest = values['no-lock'] ? undefined : loadManifest();
+  const fileOptions: FileOptions = {
+    options: {
+      formId: values['form-id'] as string | undefined,
+      useFilename: values['use-filename'] === true,
+      prefix: values.test ? 'Test: ' : (values.prefix as string | undefined),
+      force: values.force === true,
+      saveResponses: values['save-responses'] === true,
+      noNumbers: values['no-numbers'] === true,
+      numbering,
+      dryRun: values['dry-run'] === true,
+      json: ctx.json,
+      snapshot: values.snapshot as string | undefined,
+      vars: templateVars(values),
+    },
+    manifest,
+    requireForm,
+    refresh: values.refresh === true,
+    json: ctx.json,
+    signIn: ctx.signIn,
+  };
+
+  const forJob = (job: { locale?: string }): FileOptions => ({
+    ...fileOptions,
+    options: { ...fileOptions.options, locale: job.locale },
+  });
+
+  if (values.watch) {
+    if (batch || unmatched.length > 0) {
+      throw new UsageError('--watch takes a single YAML file and locale');
+    }
+    if (values['dry-run']) {
+      throw new UsageError('--watch cannot be used with --dry-run');
+    }
+    return watchFile(ctx, jobs[0], forJob(jobs[0]));
+  }
+
+  if (!batch) {
+    const [job] = jobs;
+    const wasTracked = !!manifest?.forms[trackedKey(job.file, job.locale)];
+    return singleResult(await generateFile(job.file, forJob(job)), manifest, wasTracked);
+  }
+
+  // Every file shares one sign-in and one request budget
+  const limiter = new RateLimiter(rate);
+  let signedIn: Promise<GoogleFormsGenerator> | undefined;
+  const signIn = () => (signedIn ??= ctx.signIn().then((g) => g.throttled(limiter)));
+
+  const outcomes = await mapWithConcurrency(jobs, concurrency, async (job): Promise<GenerateOutcome> => {
+    try {
+      return await generateFile(job.file, { ...forJob(job), signIn });
+    } catch (error) {
+      return { ...job, action: 'failed', error: messageOf(error), exitCode: exitCodeOf(error) };
+    }
+  });
+  for (const pattern of unmatched) {
+    outcomes.push({ file: pattern, action: 'failed', error: 'No YAML files found', exitCode: EXIT.usage });
+  }
+
+  const plans = outcomes
+    .filter((o) => o.action === 'planned' && typeof o.plan === 'string')
+    .map((o) => `== ${variantKey(o.file, o.locale)}\n${o.plan}\n`);
+  return {
+    data: outcomes,
+    text: [...plans, formatSummary(outcomes)].join('\n'),
+    exitCode: batchExitCode(outcomes),
+  };
+}
+
+/**
+ * Sync the form a file is linked to on every change, until interrupted.
+ */
+async function watchFile(ctx: CommandContext, job: { file: string; locale?: string }, run: FileOptions): Promise<CommandResult> {
+  const key = trackedKey(job.file, job.locale);
+  const tracked = run.manifest?.forms[key];
+  const formId = run.options.formId || tracked?.formId;
+  if (!formId) {
+    throw new UsageError(`--watch needs a form to sync: run \`${PROGRAM} generate ${job.file}\` first, or pass --form-id`);
+  }
+  const sameForm = tracked?.formId === formId;
+  const options: GenerateOptions = { ...run.options, formId, itemKeys: sameForm ? tracked?.itemKeys : undefined };
+  const watcher = new FormWatcher(
+    {
+      file: job.file,
+      formId,
+      options,
+      hash: sameForm && !run.refresh ? tracked?.hash : undefined,
+      lock: run.manifest && { key, options: buildOptionsOf(options) },
+    },
+    await run.signIn(),
+    { force: options.force, allowResponses: ctx.values['allow-responses'] === true }
+  );
+
+  await watcher.start();
+  console.log(watcher.describe());
+  await untilStopped();
+  await watcher.close();
+  return {
+    data: { formId, syncs: watcher.syncs, ...formUrls(formId) },
+    text: `\nStopped watching ${job.file}; ${watcher.syncs} sync(s) sent to form ${formId}.`,
+  };
+}
+
+export const generateCommand: Command = {
+  name: 'generate',
+  summary: 'Create the form for each YAML file, or update the one it is tracked to',
+  usage: '<file|dir|glob>... [options]',
+  description: [
+    'The YAML is validated first; nothing is sent to Google Forms if it has problems.',
+    `Each file is tracked to its form in ${MANIFEST_FILE}: the first run creates the form,`,
+    'later runs update it, and a run with no changes since the last one does nothing.',
+    'Directories are searched for .yaml and .yml files. With several files, one failing',
+    'does not stop the others, and a summary table lists what happened to each.',
+    'With --watch, the tracked form of one file is kept in sync as the file and its includes',
+    'are edited. Syncing stops while the form has responses it did not have at the last sync,',
+    'unless --allow-responses is given; --force accepts the ones there when watching starts.',
+  ],
+  options: {
+    'form-id': { type: 'string', value: 'id', description: 'Update this form, and track the file to it' },
+    ...GENERATE_OPTIONS,
+  },
+  examples: [
+    `${PROGRAM} generate form.yaml`,
+    `${PROGRAM} generate forms/ --concurrency 2`,
+    `${PROGRAM} generate 'forms/**/*.yaml' --dry-run`,
+    `${PROGRAM} generate form.yaml --test --no-lock`,
+    `${PROGRAM} generate survey.yaml --all-locales`,
+    `${PROGRAM} generate survey.yaml --watch`,
+  ],
+  run: (ctx) => runGenerate(ctx, false),
+};
+
+export const updateCommand: Command = {
+  name: 'update',
+  summary: 'Update existing forms in place from YAML files',
+  usage: '<file|dir|glob>... [--form-id <id>] [options]',
+  description: [
+    'Only the changes are sent, so question IDs and their answers survive.',
+    'A form that has responses is not updated without --force or --save-responses.',
+    `Unlike generate, never creates a form: each file must be tracked in ${MANIFEST_FILE}, or --form-id given.`,
+  ],
+  options: {
+    'form-id': { type: 'string', value: 'id', description: 'The form to update (default: the one the file is tracked to)' },
+    ...GENERATE_OPTIONS,
+  },
+  examples: [
+    `${PROGRAM} update form.yaml --dry-run`,
+    `${PROGRAM} update form.yaml --form-id <id> --save-responses --force`,
+  ],
+  run: (ctx) => runGenerate(ctx, true),
+};
+
+// `npm run generate` predates `gform update` and takes --form-id as well
+if (require.main === module) {
+  main([generateCommand], ['generate', ...process.argv.slice(2)]);
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import { FakeGoogleBackend } from './fake-google';
+import { buildFormConfig, planYamlForm, yamlToForm } from './yaml-to-form';
+import { loadSnapshot } from './snapshots';
+import { formToYaml } from './form-to-yaml';
+
+// Snapshots go to .gform/ in the working directory; not wanted from tests
+vi.mock('./snapshots', () => ({ saveSnapshot: vi.fn(), loadSnapshot: vi.fn(), snapshotPath: vi.fn() }));
+vi.mock('./history', () => ({ readSources: vi.fn(), recordSources: vi.fn(), saveVersion: vi.fn() }));
+vi.mock('./question-map', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./question-map')>()),
+  recordQuestions: vi.fn(),
+  loadQuestionMap: vi.fn(),
+}));
+
+const SURVEY = `
+title: Team survey
+description: Quarterly check-in
+pages:
+  - title: About You
+    questions:
+      - type: text
+        title: Name
+        required: true
+      - type: multipleChoice
+        title: Remote?
+        options:
+          - value: "Yes"
+            goToSection: Remote
+          - value: "No"
+            goToSection: submit
+  - title: Remote
+    questions:
+      - type: checkbox
+        title: Tools
+        options: [Slack, Zoom]
+      - type: grid
+        title: Days
+        rows: [Mon, Tue]
+        columns: [Office, Home]
+`;
+
+describe('GoogleFormsGenerator against the fake backend', () => {
+  let dir: string;
+  let backend: FakeGoogleBackend;
+  let generator: GoogleFormsGenerator;
+
+  const writeYaml = (content: string) => {
+    const file = path.join(dir, 'survey.yaml');
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gform-'));
+    backend = new FakeGoogleBackend();
+    generator = new GoogleFormsGenerator({ forms: backend.forms, drive: backend.drive });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates a numbered form with branching resolved to page IDs', async () => {
+    const formId = await generator.createForm(buildFormConfig(writeYaml(SURVEY)));
+    const form = backend.form(formId);
+
+    expect(form.info).toMatchObject({ title: 'Team survey', description: 'Quarterly check-in' });
+    expect(form.items?.map((i) => i.title)).toEqual([
+      'Section 1 — About You',
+      'Q 1.1 — Name',
+      'Q 1.2 — Remote?',
+      'Section 2 — Remote',
+      'Q 2.1 — Tools',
+      'Q 2.2 — Days',
+    ]);
+    const options = form.items![2].questionItem!.question!.choiceQuestion!.options!;
+    expect(options[0].goToSectionId).toBe(form.items![3].itemId);
+    expect(options[1].goToAction).toBe('SUBMIT_FORM');
+  });
+
+  it('updates in place, keeping the IDs of unchanged questions', async () => {
+    const formId = await generator.createForm(buildFormConfig(writeYaml(SURVEY)));
+    const before = backend.form(formId);
+
+    const edited = SURVEY.replace('        required: true\n', '        required: true\n      - type: text\n        title: Team\n');
+    const result = await generator.syncForm(formId, buildFormConfig(writeYaml(edited)));
+    const after = backend.form(formId);
+
+    // The new question shifts the numbering of the one after it
+    expect(result.changes.map((c) => [c.action, c.title])).toEqual([
+      ['create', 'Q 1.2 — Team'],
+      ['update', 'Q 1.3 — Remote?'],
+    ]);
+    const ids = (form: typeof after) => form.items!.map((i) => i.questionItem?.question?.questionId);
+    expect(ids(after).filter((id) => !ids(before).includes(id))).toHaveLength(1);
+    expect(after.items!.at(-1)!.questionGroupItem!.questions!.map((q) => q.questionId))
+      .toEqual(before.items!.at(-1)!.questionGroupItem!.questions!.map((q) => q.questionId));
+  });
+
+  it('renumbers in place when the numbering scheme changes', async () => {
+    const formId = await generator.createForm(buildFormConfig(writeYaml(SURVEY)));
+    const before = backend.form(formId);
+
+    const result = await generator.syncForm(formId, buildFormConfig(writeYaml(`numbering: roman\n${SURVEY}`)));
+    const after = backend.form(formId);
+
+    expect(result.changes.every((c) => c.action === 'update')).toBe(true);
+    expect(after.items!.map((i) => i.title)).toEqual([
+      'I. About You', 'I.1 Name', 'I.2 Remote?', 'II. Remote', 'II.1 Tools', 'II.2 Days',
+    ]);
+    expect(after.items!.map((i) => i.itemId)).toEqual(before.items!.map((i) => i.itemId));
+  });
+
+  it('follows a renamed question by its key', async () => {
+    const keyed = SURVEY.replace('title: Tools', 'key: tools\n        title: Tools');
+    const formId = await generator.createForm(buildFormConfig(writeYaml(keyed)));
+    const { itemKeys } = await generator.syncForm(formId, buildFormConfig(writeYaml(keyed)));
+    const questionId = backend.form(formId).items![4].questionItem!.question!.questionId;
+
+    const renamed = keyed.replace('title: Tools', 'title: Tools you use');
+    // The dry run diffs against a snapshot with the same key map
+    vi.mocked(loadSnapshot).mockReturnValueOnce(backend.form(formId));
+    const plan = JSON.parse(planYamlForm(writeYaml(renamed), { formId, itemKeys, json: true }));
+    expect(plan.changes).toEqual([expect.objectContaining({ action: 'update', title: 'Q 2.1 — Tools you use' })]);
+
+    const result = await generator.syncForm(formId, buildFormConfig(writeYaml(renamed)), { itemKeys });
+
+    expect(result.changes).toEqual([expect.objectContaining({ action: 'update', title: 'Q 2.1 — Tools you use' })]);
+    expect(backend.form(formId).items![4].questionItem!.question!.questionId).toBe(questionId);
+  });
+
+  it('sends no item changes when the YAML is unchanged', async () => {
+    const config = buildFormConfig(writeYaml(SURVEY));
+    const formId = await generator.createForm(config);
+
+    const result = await generator.syncForm(formId, config);
+
+    expect(result.changes).toEqual([]);
+    expect(result.unchanged).toBe(6);
+  });
+
+  it('removes branching that was taken out of the YAML', async () => {
+    const formId = await generator.createForm(buildFormConfig(writeYaml(SURVEY)));
+    const plain = SURVEY.replace(/\n\s+goToSection: \w+/g, '');
+
+    const result = await generator.syncForm(formId, buildFormConfig(writeYaml(plain)));
+    expect(result.changes.map((c) => [c.action, c.title, c.fields])).toEqual([['update', 'Q 1.2 — Remote?', ['questionItem']]]);
+    const options = backend.form(formId).items![2].questionItem!.question!.choiceQuestion!.options!;
+    expect(options).toEqual([{ value: 'Yes' }, { value: 'No' }]);
+  });
+
+  it('generates through yamlToForm and exports back to the same YAML', async () => {
+    const file = writeYaml(SURVEY);
+    const formId = await yamlToForm(file, {}, generator);
+
+    const exported = formToYaml(await generator.getForm(formId));
+
+    expect(exported.pages?.map((p) => p.title)).toEqual(['About You', 'Remote']);
+    expect(exported.pages?.[0].questions[1]).toMatchObject({
+      type: 'multipleChoice',
+      options: [{ value: 'Yes', goToSection: 'Remote' }, { value: 'No', goToSection: 'submit' }],
+    });
+    expect(exported.pages?.[1].questions[1]).toMatchObject({ type: 'grid', rows: ['Mon', 'Tue'] });
+  });
+
+  it('pages through responses and filters by time', async () => {
+    backend = new FakeGoogleBackend({ pageSizeLimit: 2 });
+    generator = new GoogleFormsGenerator({ forms: backend.forms, drive: backend.drive });
+    const formId = await generator.createForm(buildFormConfig(writeYaml(SURVEY)));
+    for (let day = 1; day <= 5; day++) {
+      backend.submit(formId, { Name: `R${day}` }, { time: new Date(`2024-05-0${day}T12:00:00Z`) });
+    }
+
+    const all = await generator.getResponses(formId);
+    const recent = await generator.getResponses(formId, { since: '2024-05-03T12:00:00Z' });
+
+    expect(all.responses).toHaveLength(5);
+    expect(backend.callsTo('forms.responses.list').length).toBe(3 + 1);
+    expect(recent.responses?.map((r) => Object.values(r.answers!)[0].textAnswers!.answers![0].value)).toEqual(['R4', 'R5']);
+  });
+
+  it('exports responses to CSV in form order', async () => {
+    const formId = await generator.createForm(buildFormConfig(writeYaml(SURVEY)));
+    backend.submit(
+      formId,
+      { Days: { Mon: 'Home' }, Tools: ['Slack', 'Zoom'], Name: 'Ann' },
+      { email: 'ann@example.com', time: new Date('2024-05-01T12:00:00Z') }
+    );
+
+    const file = path.join(dir, 'responses.csv');
+    expect(await generator.exportResponsesCsv(formId, file)).toBe(1);
+
+    const [header, row] = fs.readFileSync(file, 'utf8').trim().split('\n');
+    expect(header).toBe(
+      'Response ID,Timestamp,Email,Total score,Q 1.1 — Name,Q 1.2 — Remote?,Q 2.1 — Tools,Q 2.2 — Days [Mon],Q 2.2 — Days [Tue]'
+    );
+    expect(row).toMatch(/,2024-05-01T12:00:00.000Z,ann@example.com,,Ann,,Slack; Zoom,Home,$/);
+  });
+
+  it('lists and deletes forms through Drive', async () => {
+    const formId = await generator.createForm(buildFormConfig(writeYaml(SURVEY)));
+
+    expect(await generator.listForms()).toEqual([expect.objectContaining({ id: formId, name: 'Team survey' })]);
+    await generator.deleteForm(formId);
+    expect(await generator.listForms()).toEqual([]);
+    await expect(generator.getForm(formId)).rejects.toMatchObject({ code: 404 });
+  });
+});
@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import { forms_v1 } from 'googleapis';
+import { diffForms, FormDiff, historyDir, listVersions, loadVersion, recordSources, saveVersion } from './history';
+import { configHash, loadManifest, MANIFEST_FILE, manifestKey, recordApply, saveManifest } from './manifest';
+import { canDescribe, formToYaml } from './form-to-yaml';
+import { configFromYaml } from './yaml-to-form';
+import { saveSnapshot } from './snapshots';
+import { recordQuestions } from './question-map';
+import { ItemChange, itemKind, summarizeChanges } from './reconcile';
+import { formatChange } from './plan';
+import { Command, CommandError, EXIT, formatTable, PROGRAM, UsageError } from './command';
+
+// `history list`, `history diff` and `rollback`, over the versions history.ts saves
+
+/**
+ * The form a command argument names: a YAML file tracked in the manifest, or
+ * a form ID. With a file, also its manifest key.
+ */
+export function resolveForm(target: string | undefined): { formId: string; key?: string } {
+  if (!target) {
+    throw new UsageError('No form ID or YAML file specified');
+  }
+  if (!fs.existsSync(target)) {
+    return { formId: target };
+  }
+  const key = manifestKey(target);
+  const entry = loadManifest().forms[key];
+  if (!entry) {
+    throw new UsageError(`${target} is not tracked in ${MANIFEST_FILE}; pass its form ID instead`);
+  }
+  return { formId: entry.formId, key };
+}
+
+function versionNumber(value: string | undefined, what: string): number {
+  const n = Number(value);
+  if (!value || !Number.isInteger(n) || n < 1) {
+    throw new UsageError(`Expected ${what} to be a version number, got "${value ?? ''}"`);
+  }
+  return n;
+}
+
+// A saved version, with its absence as a usage error rather than a failure
+function versionOf(formId: string, version: number) {
+  try {
+    return loadVersion(formId, version);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+function formatDiff(diff: Omit<FormDiff, 'info'> & Partial<FormDiff>, heading: string): string {
+  const lines = [heading];
+  for (const [field, before, after] of diff.info || []) {
+    lines.push(`  ${field}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`);
+  }
+  lines.push(...diff.changes.map((c) => `  ${formatChange(c)}`), `  Items: ${summarizeChanges(diff)}`);
+  return lines.join('\n');
+}
+
+export const historyListCommand: Command = {
+  name: 'history list',
+  summary: 'List the versions of a form saved before each update',
+  usage: '<form-id|file> [options]',
+  description: [
+    'Before gform changes a form, the live form is saved under .gform/history/<form-id>/,',
+    'with the YAML it was last built from. Version 1 is the oldest.',
+  ],
+  examples: [`${PROGRAM} history list survey.yaml`],
+  async run(ctx) {
+    const { formId } = resolveForm(ctx.positionals[0]);
+    const versions = listVersions(formId);
+    const data = versions.map(({ version, savedAt, reason, revisionId, sources, form }) => ({
+      version,
+      savedAt,
+      reason,
+      revisionId,
+      title: form.info?.title || '',
+      items: form.items?.length ?? 0,
+      files: Object.keys(sources || {}),
+    }));
+    if (versions.length === 0) {
+      return { data, text: `No versions of form ${formId} have been saved yet; one is saved before each update.` };
+    }
+    const rows = [
+      ['VERSION', 'SAVED', 'REPLACED BY', 'ITEMS', 'TITLE'],
+      ...data.map((v) => [String(v.version), v.savedAt, v.reason || '-', String(v.items), v.title]),
+    ];
+    return { data, text: formatTable(rows) };
+  },
+};
+
+export const historyDiffCommand: Command = {
+  name: 'history diff',
+  summary: 'Show what changed between two saved versions of a form',
+  usage: '<form-id|file> <a> [<b>] [options]',
+  description: [
+    'Items are matched the way an update matches them: + created, - deleted, > moved,',
+    '~ updated (with the fields that differ). <b> may be "live" for the form as it is now,',
+    'which is the default.',
+  ],
+  examples: [`${PROGRAM} history diff survey.yaml 2 3`, `${PROGRAM} history diff <form-id> 4`],
+  async run(ctx) {
+    const [target, a, b = 'live'] = ctx.positionals;
+    const { formId } = resolveForm(target);
+    const before = versionOf(formId, versionNumber(a, '<a>'));
+    let after: forms_v1.Schema$Form;
+    if (b === 'live') {
+      after = await (await ctx.signIn()).getForm(formId);
+    } else {
+      after = versionOf(formId, versionNumber(b, '<b>')).form;
+    }
+    const diff = diffForms(before.form, after);
+    const heading = `Version ${before.version} → ${b === 'live' ? 'the live form' : `version ${b}`}`;
+    return { data: diff, text: formatDiff(diff, heading) };
+  },
+};
+
+function hasImages(item: forms_v1.Schema$Item): boolean {
+  const options = item.questionItem?.question?.choiceQuestion?.options || [];
+  return Boolean(
+    item.imageItem || item.questionItem?.image || item.questionGroupItem?.image || options.some((option) => option.image)
+  );
+}
+
+/**
+ * What applying a saved version would lose: live items the YAML format cannot
+ * describe are deleted, and images are stripped from any item it rewrites.
+ */
+export function lostInRollback(live: forms_v1.Schema$Form, changes: ItemChange[]): string[] {
+  const lost: string[] = [];
+  for (const change of changes) {
+    const item = live.items?.find((i) => i.itemId === change.itemId);
+    if (!item || (change.action !== 'delete' && change.action !== 'update')) continue;
+    const name = item.title ? `"${item.title}"` : `untitled item ${item.itemId}`;
+    if (change.action === 'delete' && !canDescribe(item)) {
+      lost.push(`${name} (${itemKind(item)}) would be deleted`);
+    } else if (hasImages(item)) {
+      lost.push(`${name}: its images would be removed`);
+    }
+  }
+  return lost;
+}
+
+export const rollbackCommand: Command = {
+  name: 'rollback',
+  summary: 'Restore a form to a saved version',
+  usage: '<form-id|file> <version> [options]',
+  description: [
+    'The saved form is read back as YAML and applied like any update, so items that',
+    'survive keep their IDs and answers. The form as it is now is saved as a new version',
+    'first, so a rollback can itself be rolled back. The YAML format cannot describe images',
+    'or file uploads, so a rollback that would delete such items or remove images is refused;',
+    'remove them from the form first.',
+    `With a tracked file, the next \`${PROGRAM} generate\` applies the YAML again.`,
+  ],
+  options: {
+    force: { type: 'boolean', description: 'Roll back even though the form has responses' },
+    'dry-run': { type: 'boolean', aliases: ['plan'], description: 'Show what would change, without changing it' },
+  },
+  examples: [`${PROGRAM} rollback survey.yaml 3 --dry-run`, `${PROGRAM} rollback <form-id> 3 --force`],
+  async run(ctx) {
+    const [target, versionArg] = ctx.positionals;
+    const { formId, key } = resolveForm(target);
+    const saved = versionOf(formId, versionNumber(versionArg, '<version>'));
+    const config = configFromYaml(formToYaml(saved.form));
+    const manifest = key ? loadManifest() : undefined;
+    const entry = key ? manifest?.forms[key] : undefined;
+
+    const generator = await ctx.signIn();
+    const live = await generator.getForm(formId);
+    const plan = generator.planUpdate(live, config, { itemKeys: entry?.itemKeys });
+    const lost = lostInRollback(live, plan.changes);
+    if (lost.length > 0) {
+      throw new CommandError(
+        `Rolling back form ${formId} to version ${saved.version} would lose content the saved version cannot describe:\n` +
+          lost.map((line) => `  ${line}`).join('\n') +
+          '\nRemove them from the form first, then roll back.',
+        EXIT.error
+      );
+    }
+    if (ctx.values['dry-run']) {
+      return { data: plan.changes, text: formatDiff(plan, `Rolling back form ${formId} to version ${saved.version} would change:`) };
+    }
+
+    const responses = await generator.getResponseCount(formId);
+    if (responses > 0 && !ctx.values.force) {
+      throw new CommandError(
+        `Form ${formId} has ${responses} response(s); answers to questions the rollback removes would be unlinked. ` +
+          'Use --force to roll back anyway.',
+        EXIT.hasResponses
+      );
+    }
+
+    let replaced: number | undefined;
+    const result = await generator.syncForm(formId, config, {
+      itemKeys: entry?.itemKeys,
+      beforeUpdate: (live) => {
+        replaced = saveVersion(live, `rollback ${saved.version}`);
+        recordQuestions(live, entry?.itemKeys);
+      },
+    });
+    const form = await generator.getForm(formId);
+    // The saved form has no `key`s; keep those whose items survived
+    const itemKeys = Object.fromEntries(Object.entries(entry?.itemKeys || {}).filter(
+      ([, itemId]) => form.items?.some((item) => item.itemId === itemId)
+    ));
+    saveSnapshot(form);
+    recordQuestions(form, itemKeys);
+    if (saved.sources) recordSources(formId, saved.sources);
+    if (manifest && key && entry) {
+      // The form no longer matches the YAML, so the next generate must not skip it
+      recordApply(manifest, key, {
+        formId,
+        hash: configHash(config),
+        options: entry.options,
+        revisionId: form.revisionId || undefined,
+        itemKeys,
+      });
+      saveManifest(manifest);
+    }
+
+    const lines = [formatDiff(result, `Rolled back form ${formId} to version ${saved.version}.`)];
+    if (replaced) {
+      lines.push(`\nThe form as it was is saved as version ${replaced}; \`${PROGRAM} rollback ${target} ${replaced}\` undoes this.`);
+    }
+    if (saved.sources) {
+      lines.push(`The YAML version ${saved.version} was built from is in ${historyDir(formId)}/${saved.version}.json.`);
+    }
+    return { data: { formId, version: saved.version, saved: replaced, changes: result.changes }, text: lines.join('\n') };
+  },
+};
+
+export const HISTORY_COMMANDS: Command[] = [historyListCommand, historyDiffCommand, rollbackCommand];
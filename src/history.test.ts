@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { forms_v1 } from 'googleapis';
+import { diffForms, listVersions, loadVersion, readSources, recordSources, saveVersion } from './history';
+
+const form = (titles: string[], revisionId = 'r1'): forms_v1.Schema$Form => ({
+  formId: 'form-1',
+  revisionId,
+  info: { title: 'Survey' },
+  items: titles.map((title, i) => ({ itemId: `item-${i}`, title, textItem: {} })),
+});
+
+describe('form history', () => {
+  let dir: string;
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = process.cwd();
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gform-history-')));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('numbers versions and carries the YAML last applied to each', () => {
+    fs.writeFileSync('survey.yaml', 'title: Survey\n');
+    recordSources('form-1', readSources([path.join(dir, 'survey.yaml'), path.join(dir, 'missing.yaml')]));
+
+    expect(saveVersion(form(['A']), 'generate survey.yaml', new Date('2024-05-01T10:00:00Z'))).toBe(1);
+    // Edited elsewhere since: nothing gform applied to say where it came from
+    expect(saveVersion(form(['A', 'B'], 'r2'), 'rollback 1')).toBe(2);
+
+    const [first, second] = listVersions('form-1');
+    expect(first).toMatchObject({
+      version: 1,
+      savedAt: '2024-05-01T10:00:00.000Z',
+      reason: 'generate survey.yaml',
+      revisionId: 'r1',
+      sources: { 'survey.yaml': 'title: Survey\n' },
+    });
+    expect(second.sources).toBeUndefined();
+    expect(loadVersion('form-1', 2).form.items).toHaveLength(2);
+    expect(() => loadVersion('form-1', 5)).toThrow('No version 5 of form form-1 (versions: 1, 2)');
+    expect(() => loadVersion('other', 1)).toThrow('No history saved for form other');
+  });
+
+  it('diffs two versions by item ID, then by title', () => {
+    const before = form(['Name', 'Email', 'Role']);
+    const after = form(['Full name', 'Role']);
+    after.info!.title = 'Survey 2';
+    after.items![1].itemId = 'item-2';
+
+    const diff = diffForms(before, after);
+    expect(diff.info).toEqual([['title', 'Survey', 'Survey 2']]);
+    expect(diff.changes.map((c) => [c.action, c.title])).toEqual([
+      ['delete', 'Email'],
+      ['update', 'Full name'],
+    ]);
+    expect(diff.unchanged).toBe(1);
+  });
+});
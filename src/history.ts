@@ -0,0 +1,140 @@
+import { forms_v1 } from 'googleapis';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ItemChange, reconcileItems } from './reconcile';
+
+// Local version history: before gform changes a form, the live form is saved
+// to .gform/history/<formId>/<n>.json, with the YAML files gform last built it
+// from. Versions count up from 1 and are never rewritten, so a rollback is
+// itself recorded and can be undone.
+
+export interface FormVersion {
+  version: number;
+  formId: string;
+  // When the form was replaced, i.e. the end of this version's life
+  savedAt: string;
+  // What replaced it, e.g. "generate form.yaml" or "rollback 3"
+  reason?: string;
+  // The form's revision while it was this version
+  revisionId?: string;
+  // YAML text by path, as last applied by gform; absent for edits made elsewhere
+  sources?: Record<string, string>;
+  form: forms_v1.Schema$Form;
+}
+
+export function historyDir(formId: string, root = process.cwd()): string {
+  return path.join(root, '.gform', 'history', formId);
+}
+
+const versionFile = (formId: string, version: number) => path.join(historyDir(formId), `${version}.json`);
+const appliedFile = (formId: string) => path.join(historyDir(formId), 'applied.json');
+
+// Version numbers saved for a form, oldest first
+function versionNumbers(formId: string): number[] {
+  const dir = historyDir(formId);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .map((name) => /^(\d+)\.json$/.exec(name))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map((m) => Number(m[1]))
+    .sort((a, b) => a - b);
+}
+
+// The text of each file, by path relative to the working directory
+export function readSources(files: string[]): Record<string, string> {
+  const sources: Record<string, string> = {};
+  for (const file of files) {
+    if (fs.existsSync(file)) {
+      sources[path.relative(process.cwd(), file).split(path.sep).join('/')] = fs.readFileSync(file, 'utf8');
+    }
+  }
+  return sources;
+}
+
+/**
+ * Remember the YAML the form's current content was built from, so the next
+ * version saved can carry it.
+ */
+export function recordSources(formId: string, sources: Record<string, string>): void {
+  fs.mkdirSync(historyDir(formId), { recursive: true });
+  fs.writeFileSync(appliedFile(formId), JSON.stringify(sources, null, 2));
+}
+
+/**
+ * Save the live form as the next version, before it is changed. Returns the
+ * version number.
+ */
+export function saveVersion(form: forms_v1.Schema$Form, reason?: string, now = new Date()): number {
+  if (!form.formId) {
+    throw new Error('Cannot save a version of a form without a formId');
+  }
+  const formId = form.formId;
+  const version = (versionNumbers(formId).at(-1) ?? 0) + 1;
+  const sources = fs.existsSync(appliedFile(formId))
+    ? (JSON.parse(fs.readFileSync(appliedFile(formId), 'utf8')) as Record<string, string>)
+    : undefined;
+  const entry: FormVersion = {
+    version,
+    formId,
+    savedAt: now.toISOString(),
+    reason,
+    revisionId: form.revisionId || undefined,
+    sources,
+    form,
+  };
+  fs.mkdirSync(historyDir(formId), { recursive: true });
+  fs.writeFileSync(versionFile(formId, version), JSON.stringify(entry, null, 2));
+  // Whatever replaces it was not built by gform until recordSources says so
+  fs.rmSync(appliedFile(formId), { force: true });
+  return version;
+}
+
+export function listVersions(formId: string): FormVersion[] {
+  return versionNumbers(formId).map((n) => loadVersion(formId, n));
+}
+
+export function loadVersion(formId: string, version: number): FormVersion {
+  const file = versionFile(formId, version);
+  if (!fs.existsSync(file)) {
+    const known = versionNumbers(formId);
+    throw new Error(
+      known.length === 0
+        ? `No history saved for form ${formId}`
+        : `No version ${version} of form ${formId} (versions: ${known.join(', ')})`
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as FormVersion;
+}
+
+export interface FormDiff {
+  // Form title, description and settings that differ, as [field, before, after]
+  info: [string, string, string][];
+  changes: ItemChange[];
+  unchanged: number;
+}
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value));
+
+/**
+ * What changed from form `a` to form `b`, item by item, matched the way an
+ * update matches them.
+ */
+export function diffForms(a: forms_v1.Schema$Form, b: forms_v1.Schema$Form): FormDiff {
+  const info: [string, string, string][] = [];
+  const fields: [string, unknown, unknown][] = [
+    ['title', a.info?.title, b.info?.title],
+    ['description', a.info?.description, b.info?.description],
+    ['settings', a.settings, b.settings],
+  ];
+  for (const [field, before, after] of fields) {
+    if (text(before) !== text(after)) info.push([field, text(before), text(after)]);
+  }
+  // Items keep their IDs from version to version, so match on those first
+  const ids = Object.fromEntries((a.items || []).flatMap((item) => (item.itemId ? [[item.itemId, item.itemId]] : [])));
+  const { changes, unchanged } = reconcileItems(
+    a.items || [],
+    (b.items || []).map((item) => ({ item, key: item.itemId || undefined })),
+    ids
+  );
+  return { info, changes, unchanged };
+}
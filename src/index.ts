@@ -1,121 +1,296 @@
-import { google, forms_v1, drive_v3 } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
+import { google, forms_v1 } from 'googleapis';
 import * as fs from 'fs';
-import * as path from 'path';
-import * as readline from 'readline';
+import { AuthClient, AuthInfo, AuthOptions, AuthProvider, resolveAuthProvider } from './auth';
+import { ApiFormSettings, DriveClient, EmailCollectionType, FormsClient, googleFormsClient, PublishedForm, PublishState } from './clients';
+import { AccessPlan, AccessSettings, accessPlanIsEmpty, FormAccess, formatAccessPlan, hasAccessSettings, planAccess } from './access';
+import { RateLimiter, throttleDrive, throttleForms } from './throttle';
+import { NumberingScheme } from './numbering';
+import { ItemChange, ReconcileResult, reconcileItems, summarizeChanges } from './reconcile';
+import { buildResponseTable, formatResponseTable } from './response-export';
+import { loadQuestionMap, migrateResponses } from './question-map';
 
 // Types for form creation
 
-export interface TextQuestion {
+export interface QuizFeedback {
+  correct?: string;    // Shown when the answer matches the answer key
+  incorrect?: string;  // Shown when it does not
+  general?: string;    // Shown regardless (the only kind allowed on text questions)
+}
+
+/**
+ * Answer key and point value for a question in a quiz form.
+ * Grid questions key their correct answers by row title.
+ */
+export interface QuizFields<Answers = string[]> {
+  points?: number;
+  correctAnswers?: Answers;
+  feedback?: QuizFeedback;
+}
+
+export type GridAnswers = Record<string, string[]>;
+
+/**
+ * Stable identity of an item across updates. Unlike the title, a key survives
+ * renames, so the question keeps its ID and its existing answers.
+ */
+export interface Keyed {
+  key?: string;
+}
+
+export interface TextQuestion extends QuizFields, Keyed {
   type: 'text';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   paragraph?: boolean;
 }
 
-export type OptionItem = string | number | { value: string; isOther?: boolean };
+export interface MediaImage {
+  sourceUri: string;
+  altText?: string;
+  alignment?: 'left' | 'center' | 'right';
+  width?: number;  // In pixels
+}
 
-function buildChoiceOptions(options: OptionItem[]) {
-  const mapped = options.map((opt) =>
-    typeof opt === 'string' || typeof opt === 'number'
-      ? { value: String(opt) }
-      : opt.isOther
-        ? { isOther: true as const }
-        : { value: opt.value }
-  );
+export type OptionItem =
+  | string
+  | number
+  | {
+      value: string;
+      isOther?: boolean;
+      // Page break `name` to jump to, or one of "next", "submit", "restart"
+      goToSection?: string;
+      image?: MediaImage;
+    };
+
+function buildMediaProperties(
+  media: Pick<MediaImage, 'alignment' | 'width'>
+): forms_v1.Schema$MediaProperties | undefined {
+  if (!media.alignment && !media.width) {
+    return undefined;
+  }
+  return { alignment: media.alignment?.toUpperCase(), width: media.width };
+}
+
+function buildImage(image: MediaImage): forms_v1.Schema$Image {
+  return {
+    sourceUri: image.sourceUri,
+    altText: image.altText,
+    properties: buildMediaProperties(image),
+  };
+}
+
+// Page break name -> itemId, known only once the page breaks have been created
+type SectionIds = Map<string, string>;
+
+const GO_TO_ACTIONS: Record<string, string> = {
+  next: 'NEXT_SECTION',
+  submit: 'SUBMIT_FORM',
+  restart: 'RESTART_FORM',
+};
+
+function resolveGoTo(target: string, sections: SectionIds): forms_v1.Schema$Option {
+  if (GO_TO_ACTIONS[target]) {
+    return { goToAction: GO_TO_ACTIONS[target] };
+  }
+  const sectionId = sections.get(target);
+  if (!sectionId) {
+    throw new Error(`Unknown goToSection target "${target}"`);
+  }
+  return { goToSectionId: sectionId };
+}
+
+function buildChoiceOptions(options: OptionItem[], sections?: SectionIds) {
+  const mapped = options.map((opt): forms_v1.Schema$Option => {
+    if (typeof opt === 'string' || typeof opt === 'number') {
+      return { value: String(opt) };
+    }
+    // Branching is left out until the section IDs are known (see applyBranching)
+    const goTo = sections && opt.goToSection ? resolveGoTo(opt.goToSection, sections) : {};
+    if (opt.isOther) {
+      return { isOther: true, ...goTo };
+    }
+    return { value: opt.value, image: opt.image ? buildImage(opt.image) : undefined, ...goTo };
+  });
   // Google Forms API requires "Other" option to be last
-  const regular = mapped.filter((o) => !('isOther' in o));
-  const other = mapped.filter((o) => 'isOther' in o);
+  const regular = mapped.filter((o) => !o.isOther);
+  const other = mapped.filter((o) => o.isOther);
   return [...regular, ...other];
 }
 
-export interface MultipleChoiceQuestion {
+export function hasBranching(item: FormItem): boolean {
+  return (
+    (item.type === 'multipleChoice' || item.type === 'dropdown') &&
+    item.options.some((opt) => typeof opt === 'object' && !!opt.goToSection)
+  );
+}
+
+/**
+ * Check every goToSection target before anything is sent to the API, so a typo
+ * fails up front instead of leaving a half-built form behind.
+ */
+function validateBranching(items: FormItem[]): void {
+  const names = new Set<string>();
+  for (const item of items) {
+    if (item.type === 'pageBreak' && item.name) {
+      names.add(item.name);
+    }
+  }
+
+  for (const item of items) {
+    if (item.type === 'pageBreak' || item.type === 'title') continue;
+    if (!('options' in item)) continue;
+    for (const opt of item.options) {
+      if (typeof opt !== 'object' || !opt.goToSection) continue;
+      if (item.type === 'checkbox') {
+        throw new Error(
+          `Question "${item.title}": goToSection is only supported on multipleChoice and dropdown questions`
+        );
+      }
+      if (!GO_TO_ACTIONS[opt.goToSection] && !names.has(opt.goToSection)) {
+        const known = [...names].map((n) => `"${n}"`).join(', ') || '(none)';
+        throw new Error(
+          `Question "${item.title}": unknown goToSection "${opt.goToSection}". ` +
+            `Known sections: ${known}; or use "next", "submit" or "restart".`
+        );
+      }
+    }
+  }
+}
+
+function buildGrading(
+  fields: QuizFields<string[] | undefined>
+): forms_v1.Schema$Grading | undefined {
+  const { points, correctAnswers, feedback } = fields;
+  if (points == null && !correctAnswers && !feedback) {
+    return undefined;
+  }
+  const text = (value?: string) => (value ? { text: cleanText(value) } : undefined);
+  return {
+    pointValue: points ?? 0,
+    correctAnswers: correctAnswers
+      ? { answers: correctAnswers.map((value) => ({ value })) }
+      : undefined,
+    whenRight: text(feedback?.correct),
+    whenWrong: text(feedback?.incorrect),
+    generalFeedback: text(feedback?.general),
+  };
+}
+
+export interface MultipleChoiceQuestion extends QuizFields, Keyed {
   type: 'multipleChoice';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   options: OptionItem[];
 }
 
-export interface CheckboxQuestion {
+export interface CheckboxQuestion extends QuizFields, Keyed {
   type: 'checkbox';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   options: OptionItem[];
 }
 
-export interface DropdownQuestion {
+export interface DropdownQuestion extends QuizFields, Keyed {
   type: 'dropdown';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   options: OptionItem[];
 }
 
-export interface ScaleQuestion {
+export interface ScaleQuestion extends QuizFields, Keyed {
   type: 'scale';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   low: number;
   high: number;
   lowLabel?: string;
   highLabel?: string;
 }
 
-export interface DateQuestion {
+export interface DateQuestion extends QuizFields, Keyed {
   type: 'date';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   includeTime?: boolean;
 }
 
-export interface TimeQuestion {
+export interface TimeQuestion extends QuizFields, Keyed {
   type: 'time';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   duration?: boolean;
 }
 
-export interface RatingQuestion {
+export interface RatingQuestion extends QuizFields, Keyed {
   type: 'rating';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   ratingScale: number;
   icon: 'star' | 'heart' | 'thumbUp';
 }
 
-export interface PageBreak {
+export interface PageBreak extends Keyed {
   type: 'pageBreak';
   title: string;
   description?: string;
+  name?: string;  // Referenced by goToSection on choice options
 }
 
-export interface SectionHeader {
+export interface SectionHeader extends Keyed {
   type: 'title';
   title: string;
   description?: string;
 }
 
-export interface GridQuestion {
+export interface ImageItem extends Keyed {
+  type: 'image';
+  title?: string;
+  description?: string;
+  image: MediaImage;
+}
+
+export interface VideoItem extends Keyed {
+  type: 'video';
+  title?: string;
+  description?: string;
+  youtubeUri: string;
+  caption?: string;
+  alignment?: 'left' | 'center' | 'right';
+  width?: number;
+}
+
+export interface GridQuestion extends QuizFields<GridAnswers>, Keyed {
   type: 'grid';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   rows: string[];
   columns: string[];
 }
 
-export interface CheckboxGridQuestion {
+export interface CheckboxGridQuestion extends QuizFields<GridAnswers>, Keyed {
   type: 'checkboxGrid';
   title: string;
   description?: string;
   required?: boolean;
+  image?: MediaImage;
   rows: string[];
   columns: string[];
 }
@@ -132,10 +307,46 @@ export type Question =
   | GridQuestion
   | CheckboxGridQuestion;
 
-export type FormItem = Question | PageBreak | SectionHeader;
+export type FormItem = Question | PageBreak | SectionHeader | ImageItem | VideoItem;
 
-export interface FormSettings {
+// Publishing and sharing (AccessSettings) are applied after the form's content
+export interface FormSettings extends AccessSettings {
   collectEmail?: 'none' | 'verified' | 'input';
+  quiz?: boolean;
+}
+
+export interface UpdateOptions {
+  // key -> itemId recorded by a previous update (UpdateResult.itemKeys)
+  itemKeys?: Record<string, string>;
+  // Called with the live form just before changes are sent to it; not called when nothing changes
+  beforeUpdate?: (form: forms_v1.Schema$Form) => void;
+}
+
+export interface CreatePlan {
+  title: string;                         // Sent with forms.create
+  requests: forms_v1.Schema$Request[];   // Sent in the batchUpdate that follows
+  firstItemRequest: number;              // Index of the first createItem in `requests`
+}
+
+export type UpdatePlan = ReconcileResult;
+
+export interface UpdateResult {
+  formId: string;
+  changes: ItemChange[];
+  unchanged: number;
+  itemKeys: Record<string, string>;  // key -> itemId, to pass to the next update
+  access?: AccessPlan;               // With access settings: what applyAccess changed
+}
+
+export interface ResponseQuery {
+  // Only responses submitted or edited after this RFC 3339 timestamp
+  since?: string;
+}
+
+export interface GeneratorOptions extends AuthOptions {
+  // Used instead of the googleapis clients, e.g. FakeGoogleBackend in tests
+  forms?: FormsClient;
+  drive?: DriveClient;
 }
 
 export interface FormConfig {
@@ -144,16 +355,11 @@ export interface FormConfig {
   settings?: FormSettings;
   questions?: Question[];  // Legacy: flat list of questions
   items?: FormItem[];      // New: supports questions + page breaks
+  numbering?: NumberingScheme;  // When not the default, so updates can recognise its prefixes
 }
 
-const SCOPES = [
-  'https://www.googleapis.com/auth/forms.body',
-  'https://www.googleapis.com/auth/forms.responses.readonly',
-  'https://www.googleapis.com/auth/drive.file',
-];
-
-const TOKEN_PATH = path.join(process.cwd(), 'token.json');
-const CREDENTIALS_PATH = path.join(process.cwd(), 'credentials.json');
+// Largest page the responses.list endpoint accepts
+const RESPONSES_PAGE_SIZE = 5000;
 
 /**
  * Clean up text that may contain unwanted newlines from YAML parsing.
@@ -171,70 +377,59 @@ function cleanText(text: string): string {
 }
 
 export class GoogleFormsGenerator {
-  private auth: OAuth2Client | null = null;
-  private forms: forms_v1.Forms | null = null;
-  private drive: drive_v3.Drive | null = null;
+  private auth: AuthClient | null = null;
+  private authProvider: AuthProvider | null = null;
+  private forms: FormsClient | null;
+  private drive: DriveClient | null;
+
+  constructor(private readonly authOptions: GeneratorOptions = {}) {
+    this.forms = authOptions.forms || null;
+    this.drive = authOptions.drive || null;
+  }
 
   async authenticate(): Promise<void> {
-    if (!fs.existsSync(CREDENTIALS_PATH)) {
-      throw new Error(
-        `credentials.json not found at ${CREDENTIALS_PATH}\n` +
-          'Please download OAuth 2.0 credentials from Google Cloud Console.\n' +
-          'See README.md for setup instructions.'
-      );
-    }
-
-    const credentials = JSON.parse(fs.readFileSync(CREDENTIALS_PATH, 'utf8'));
-    const { client_secret, client_id, redirect_uris } =
-      credentials.installed || credentials.web;
-
-    const oAuth2Client = new google.auth.OAuth2(
-      client_id,
-      client_secret,
-      redirect_uris[0]
-    );
-
-    // Check if we have a saved token
-    if (fs.existsSync(TOKEN_PATH)) {
-      const token = JSON.parse(fs.readFileSync(TOKEN_PATH, 'utf8'));
-      oAuth2Client.setCredentials(token);
-    } else {
-      await this.getNewToken(oAuth2Client);
+    // Injected clients bring their own credentials
+    if (this.forms && this.drive) {
+      return;
     }
 
-    this.auth = oAuth2Client;
-    this.forms = google.forms({ version: 'v1', auth: oAuth2Client });
-    this.drive = google.drive({ version: 'v3', auth: oAuth2Client });
-  }
-
-  private async getNewToken(oAuth2Client: OAuth2Client): Promise<void> {
-    const authUrl = oAuth2Client.generateAuthUrl({
-      access_type: 'offline',
-      scope: SCOPES,
-    });
-
-    console.log('Authorize this app by visiting this URL:\n');
-    console.log(authUrl);
-    console.log();
+    this.authProvider = resolveAuthProvider(this.authOptions);
+    const client = await this.authProvider.getClient();
 
-    const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
+    this.auth = client;
+    this.forms = this.forms || googleFormsClient(client);
+    this.drive = this.drive || google.drive({ version: 'v3', auth: client });
+  }
 
-    const code = await new Promise<string>((resolve) => {
-      rl.question('Enter the authorization code from the page: ', (answer) => {
-        rl.close();
-        resolve(answer);
-      });
+  /**
+   * A generator sharing this one's clients that sends every request through
+   * `limiter`, for batch runs.
+   */
+  throttled(limiter: RateLimiter): GoogleFormsGenerator {
+    if (!this.forms || !this.drive) {
+      throw new Error('Not authenticated. Call authenticate() first.');
+    }
+    return new GoogleFormsGenerator({
+      ...this.authOptions,
+      forms: throttleForms(this.forms, limiter),
+      drive: throttleDrive(this.drive, limiter),
     });
+  }
 
-    const { tokens } = await oAuth2Client.getToken(code);
-    oAuth2Client.setCredentials(tokens);
-
-    // Save the token for future use
-    fs.writeFileSync(TOKEN_PATH, JSON.stringify(tokens));
-    console.log('Token stored to', TOKEN_PATH);
+  /**
+   * Which provider is in use and who the API calls are made as. The Drive
+   * user is asked for, since OAuth and gcloud logins carry no email locally.
+   */
+  async whoami(): Promise<AuthInfo & { user?: string }> {
+    const provider = this.authProvider || resolveAuthProvider(this.authOptions);
+    const info = await provider.describe();
+    if (!this.drive) {
+      return info;
+    }
+    const about = await this.drive.about.get({ fields: 'user(emailAddress,displayName)' });
+    const { emailAddress, displayName } = about.data.user || {};
+    const user = emailAddress ? (displayName ? `${displayName} <${emailAddress}>` : emailAddress) : undefined;
+    return { ...info, user };
   }
 
   async createForm(config: FormConfig): Promise<string> {
@@ -242,11 +437,16 @@ export class GoogleFormsGenerator {
       throw new Error('Not authenticated. Call authenticate() first.');
     }
 
-    // Step 1: Create the form with title
+    // Step 1: Build batch update requests for description, settings and items
+    const plan = this.planCreate(config);
+    const { requests, firstItemRequest } = plan;
+    const items = config.items || config.questions || [];
+
+    // Step 2: Create the form with title
     const createResponse = await this.forms.forms.create({
       requestBody: {
         info: {
-          title: cleanText(config.title),
+          title: plan.title,
         },
       },
     });
@@ -258,7 +458,36 @@ export class GoogleFormsGenerator {
 
     console.log(`Form created with ID: ${formId}`);
 
-    // Step 2: Build batch update requests for description and questions
+    // Step 3: Execute batch update
+    if (requests.length > 0) {
+      const response = await this.forms.forms.batchUpdate({
+        formId,
+        requestBody: { requests },
+      });
+
+      // Step 4: Point branching options at the page breaks created above
+      const replies = response.data.replies || [];
+      const created = replies.slice(firstItemRequest).map((r) => r.createItem || {});
+      await this.applyBranching(formId, items, created);
+    }
+
+    if (hasAccessSettings(config.settings)) {
+      await this.applyAccess(formId, config.settings!);
+    }
+
+    const formUrl = `https://docs.google.com/forms/d/${formId}/edit`;
+    console.log(`Form URL: ${formUrl}`);
+
+    return formId;
+  }
+
+  /**
+   * Work out what `createForm` would send: the title for forms.create and the
+   * batchUpdate requests that follow it. Needs no authentication.
+   */
+  planCreate(config: FormConfig): CreatePlan {
+    validateBranching(config.items || config.questions || []);
+
     const requests: forms_v1.Schema$Request[] = [];
 
     // Add description if provided
@@ -286,8 +515,21 @@ export class GoogleFormsGenerator {
       });
     }
 
+    // Quiz mode must be on before graded items are created
+    if (config.settings?.quiz) {
+      requests.push({
+        updateSettings: {
+          settings: {
+            quizSettings: { isQuiz: true },
+          },
+          updateMask: 'quizSettings.isQuiz',
+        },
+      });
+    }
+
     // Add items (questions and page breaks)
     const items = config.items || config.questions || [];
+    const firstItemRequest = requests.length;
     items.forEach((item, index) => {
       requests.push({
         createItem: {
@@ -297,21 +539,57 @@ export class GoogleFormsGenerator {
       });
     });
 
-    // Step 3: Execute batch update
-    if (requests.length > 0) {
-      await this.forms.forms.batchUpdate({
-        formId,
-        requestBody: { requests },
-      });
+    return { title: cleanText(config.title), requests, firstItemRequest };
+  }
+
+  /**
+   * Second phase of a create/update. Page break item IDs only exist once the
+   * items have been created, so options that branch are patched in afterwards.
+   * `ids` holds the item and question IDs of each entry in `items`.
+   */
+  private async applyBranching(
+    formId: string,
+    items: FormItem[],
+    ids: forms_v1.Schema$CreateItemResponse[]
+  ): Promise<void> {
+    if (!this.forms || !items.some(hasBranching)) {
+      return;
     }
 
-    const formUrl = `https://docs.google.com/forms/d/${formId}/edit`;
-    console.log(`Form URL: ${formUrl}`);
+    const sections: SectionIds = new Map();
+    items.forEach((item, index) => {
+      const itemId = ids[index]?.itemId;
+      if (item.type === 'pageBreak' && item.name && itemId) {
+        sections.set(item.name, itemId);
+      }
+    });
 
-    return formId;
+    const requests: forms_v1.Schema$Request[] = [];
+    items.forEach((item, index) => {
+      if (!hasBranching(item)) return;
+      const created = ids[index];
+      if (!created?.itemId) {
+        throw new Error(`No item ID returned for "${item.title}"`);
+      }
+      const built = this.buildItem(item, sections);
+      built.itemId = created.itemId;
+      built.questionItem!.question!.questionId = created.questionId?.[0];
+      requests.push({
+        updateItem: {
+          item: built,
+          location: { index },
+          updateMask: 'questionItem.question.choiceQuestion.options',
+        },
+      });
+    });
+
+    await this.forms.forms.batchUpdate({
+      formId,
+      requestBody: { requests },
+    });
   }
 
-  private buildItem(item: FormItem): forms_v1.Schema$Item {
+  private buildItem(item: FormItem, sections?: SectionIds): forms_v1.Schema$Item {
     if (item.type === 'pageBreak') {
       return {
         title: cleanText(item.title),
@@ -327,10 +605,34 @@ export class GoogleFormsGenerator {
         textItem: {},
       };
     }
-    return this.buildQuestionItem(item);
+    if (item.type === 'image') {
+      return {
+        title: item.title ? cleanText(item.title) : undefined,
+        description: item.description ? cleanText(item.description) : undefined,
+        imageItem: { image: buildImage(item.image) },
+      };
+    }
+    if (item.type === 'video') {
+      return {
+        title: item.title ? cleanText(item.title) : undefined,
+        description: item.description ? cleanText(item.description) : undefined,
+        videoItem: {
+          caption: item.caption ? cleanText(item.caption) : undefined,
+          video: { youtubeUri: item.youtubeUri, properties: buildMediaProperties(item) },
+        },
+      };
+    }
+
+    const built = this.buildQuestionItem(item, sections);
+    if (item.image) {
+      const image = buildImage(item.image);
+      if (built.questionItem) built.questionItem.image = image;
+      if (built.questionGroupItem) built.questionGroupItem.image = image;
+    }
+    return built;
   }
 
-  private buildQuestionItem(question: Question): forms_v1.Schema$Item {
+  private buildQuestionItem(question: Question, sections?: SectionIds): forms_v1.Schema$Item {
     const desc = (question as any).description;
     const baseItem: forms_v1.Schema$Item = {
       title: cleanText(question.title),
@@ -344,6 +646,7 @@ export class GoogleFormsGenerator {
           questionItem: {
             question: {
               required: question.required ?? false,
+              grading: buildGrading(question),
               textQuestion: {
                 paragraph: question.paragraph ?? false,
               },
@@ -357,9 +660,10 @@ export class GoogleFormsGenerator {
           questionItem: {
             question: {
               required: question.required ?? false,
+              grading: buildGrading(question),
               choiceQuestion: {
                 type: 'RADIO',
-                options: buildChoiceOptions(question.options),
+                options: buildChoiceOptions(question.options, sections),
               },
             },
           },
@@ -371,6 +675,7 @@ export class GoogleFormsGenerator {
           questionItem: {
             question: {
               required: question.required ?? false,
+              grading: buildGrading(question),
               choiceQuestion: {
                 type: 'CHECKBOX',
                 options: buildChoiceOptions(question.options),
@@ -385,9 +690,10 @@ export class GoogleFormsGenerator {
           questionItem: {
             question: {
               required: question.required ?? false,
+              grading: buildGrading(question),
               choiceQuestion: {
                 type: 'DROP_DOWN',
-                options: buildChoiceOptions(question.options),
+                options: buildChoiceOptions(question.options, sections),
               },
             },
           },
@@ -399,6 +705,7 @@ export class GoogleFormsGenerator {
           questionItem: {
             question: {
               required: question.required ?? false,
+              grading: buildGrading(question),
               scaleQuestion: {
                 low: question.low,
                 high: question.high,
@@ -415,6 +722,7 @@ export class GoogleFormsGenerator {
           questionItem: {
             question: {
               required: question.required ?? false,
+              grading: buildGrading(question),
               dateQuestion: {
                 includeTime: question.includeTime ?? false,
               },
@@ -428,6 +736,7 @@ export class GoogleFormsGenerator {
           questionItem: {
             question: {
               required: question.required ?? false,
+              grading: buildGrading(question),
               timeQuestion: {
                 duration: question.duration ?? false,
               },
@@ -446,6 +755,7 @@ export class GoogleFormsGenerator {
           questionItem: {
             question: {
               required: question.required ?? false,
+              grading: buildGrading(question),
               ratingQuestion: {
                 ratingScaleLevel: question.ratingScale,
                 iconType: iconTypeMap[question.icon] || 'STAR',
@@ -466,6 +776,10 @@ export class GoogleFormsGenerator {
             },
             questions: question.rows.map((row) => ({
               required: question.required ?? false,
+              grading: buildGrading({
+                ...question,
+                correctAnswers: question.correctAnswers?.[row],
+              }),
               rowQuestion: { title: row },
             })),
           },
@@ -483,6 +797,10 @@ export class GoogleFormsGenerator {
             },
             questions: question.rows.map((row) => ({
               required: question.required ?? false,
+              grading: buildGrading({
+                ...question,
+                correctAnswers: question.correctAnswers?.[row],
+              }),
               rowQuestion: { title: row },
             })),
           },
@@ -493,75 +811,117 @@ export class GoogleFormsGenerator {
     }
   }
 
-  async updateForm(formId: string, config: FormConfig): Promise<string> {
+  async updateForm(formId: string, config: FormConfig, options: UpdateOptions = {}): Promise<string> {
+    const result = await this.syncForm(formId, config, options);
+    return result.formId;
+  }
+
+  /**
+   * Reconcile a live form with `config`, sending only the requests needed.
+   * Matched items keep their itemId and questionId, so existing responses
+   * stay linked to their questions.
+   */
+  async syncForm(formId: string, config: FormConfig, options: UpdateOptions = {}): Promise<UpdateResult> {
     if (!this.forms) {
       throw new Error('Not authenticated. Call authenticate() first.');
     }
 
-    // Fetch the existing form to get current item count
     const existingForm = await this.getForm(formId);
-    const existingItems = existingForm.items || [];
+    const plan = this.planUpdate(existingForm, config, options);
+    const items = config.items || config.questions || [];
+
+    // Execute as one atomic batchUpdate call
+    let replies: forms_v1.Schema$Response[] = [];
+    if (plan.requests.length > 0) {
+      options.beforeUpdate?.(existingForm);
+      const response = await this.forms.forms.batchUpdate({
+        formId,
+        requestBody: { requests: plan.requests },
+      });
+      replies = response.data.replies || [];
+    }
+
+    // IDs of every item in its final position: kept from the live form or just created
+    const ids: forms_v1.Schema$CreateItemResponse[] = plan.matched.map((live) => ({
+      itemId: live?.itemId,
+      questionId: live?.questionItem?.question?.questionId
+        ? [live.questionItem.question.questionId]
+        : undefined,
+    }));
+    plan.requests.forEach((request, i) => {
+      const index = request.createItem?.location?.index;
+      if (index != null && replies[i]?.createItem) {
+        ids[index] = replies[i].createItem!;
+      }
+    });
+
+    await this.applyBranching(formId, items, ids);
+
+    const itemKeys: Record<string, string> = {};
+    items.forEach((item, index) => {
+      const itemId = ids[index]?.itemId;
+      if (item.key && itemId) {
+        itemKeys[item.key] = itemId;
+      }
+    });
+
+    console.log(`Form updated: ${formId} (${summarizeChanges(plan)})`);
+    const access = hasAccessSettings(config.settings) ? await this.applyAccess(formId, config.settings!) : undefined;
+    return { formId, changes: plan.changes, unchanged: plan.unchanged, itemKeys, access };
+  }
+
+  /**
+   * Work out the batchUpdate requests that turn `existingForm` into `config`.
+   * Form info and settings are only included when they differ.
+   */
+  planUpdate(existingForm: forms_v1.Schema$Form, config: FormConfig, options: UpdateOptions = {}): UpdatePlan {
+    const items = config.items || config.questions || [];
+    validateBranching(items);
 
     const requests: forms_v1.Schema$Request[] = [];
 
-    // Delete existing items in reverse order to avoid index shifting
-    for (let i = existingItems.length - 1; i >= 0; i--) {
+    const title = cleanText(config.title);
+    const description = config.description ? cleanText(config.description) : '';
+    if ((existingForm.info?.title || '') !== title || (existingForm.info?.description || '') !== description) {
       requests.push({
-        deleteItem: {
-          location: { index: i },
+        updateFormInfo: {
+          info: { title, description },
+          updateMask: 'title,description',
         },
       });
     }
 
-    // Update form title and description
-    requests.push({
-      updateFormInfo: {
-        info: {
-          title: cleanText(config.title),
-          description: config.description ? cleanText(config.description) : '',
-        },
-        updateMask: 'title,description',
-      },
-    });
-
-    // Always reset email collection setting on update
     const collectEmail = config.settings?.collectEmail;
-    let emailType = 'DO_NOT_COLLECT';
+    let emailType: EmailCollectionType = 'DO_NOT_COLLECT';
     if (collectEmail === 'verified') {
       emailType = 'VERIFIED';
     } else if (collectEmail === 'input') {
       emailType = 'RESPONDER_INPUT';
     }
-    requests.push({
-      updateSettings: {
-        settings: {
-          emailCollectionType: emailType,
-        } as any,
-        updateMask: 'emailCollectionType',
-      },
-    });
-
-    // Create all new items
-    const items = config.items || config.questions || [];
-    items.forEach((item, index) => {
+    const isQuiz = config.settings?.quiz ?? false;
+    const liveSettings: ApiFormSettings = existingForm.settings || {};
+    if (
+      (liveSettings.emailCollectionType || 'DO_NOT_COLLECT') !== emailType ||
+      (liveSettings.quizSettings?.isQuiz ?? false) !== isQuiz
+    ) {
+      const settings: ApiFormSettings = { emailCollectionType: emailType, quizSettings: { isQuiz } };
       requests.push({
-        createItem: {
-          item: this.buildItem(item),
-          location: { index },
+        updateSettings: {
+          settings,
+          updateMask: 'emailCollectionType,quizSettings.isQuiz',
         },
       });
-    });
-
-    // Execute as one atomic batchUpdate call
-    if (requests.length > 0) {
-      await this.forms.forms.batchUpdate({
-        formId,
-        requestBody: { requests },
-      });
     }
 
-    console.log(`Form updated: ${formId}`);
-    return formId;
+    const reconciled = reconcileItems(
+      existingForm.items || [],
+      items.map((item) => ({ item: this.buildItem(item), key: item.key, branches: hasBranching(item) })),
+      options.itemKeys,
+      config.numbering
+    );
+
+    // Quiz mode has to be on before graded items are touched; item requests come after settings
+    return { ...reconciled, requests: [...requests, ...reconciled.requests] };
   }
 
   async getForm(formId: string): Promise<forms_v1.Schema$Form> {
@@ -573,13 +933,84 @@ export class GoogleFormsGenerator {
     return response.data;
   }
 
-  async getResponses(formId: string): Promise<forms_v1.Schema$ListFormResponsesResponse> {
+  /**
+   * Whether the form is published and accepting responses, and who it is
+   * shared with: editors, and responders (readers of its published view).
+   */
+  async getAccess(formId: string): Promise<FormAccess> {
+    if (!this.drive) {
+      throw new Error('Not authenticated. Call authenticate() first.');
+    }
+
+    const form: PublishedForm = await this.getForm(formId);
+    const response = await this.drive.permissions.list({
+      fileId: formId,
+      includePermissionsForView: 'published',
+      fields: 'permissions(id,type,role,emailAddress,domain,view)',
+    });
+    return { publishState: form.publishSettings?.publishState, permissions: response.data.permissions || [] };
+  }
+
+  async setPublishState(formId: string, publishState: PublishState): Promise<void> {
     if (!this.forms) {
       throw new Error('Not authenticated. Call authenticate() first.');
     }
 
-    const response = await this.forms.forms.responses.list({ formId });
-    return response.data;
+    await this.forms.forms.setPublishSettings({
+      formId,
+      requestBody: { publishSettings: { publishState }, updateMask: 'publishState' },
+    });
+  }
+
+  /**
+   * Publish or close the form and share it as `settings` say, changing only
+   * what differs. Returns what was changed.
+   */
+  async applyAccess(formId: string, settings: AccessSettings): Promise<AccessPlan> {
+    if (!this.drive) {
+      throw new Error('Not authenticated. Call authenticate() first.');
+    }
+
+    const plan = planAccess(await this.getAccess(formId), settings, formId);
+    if (plan.publishState) {
+      await this.setPublishState(formId, plan.publishState);
+    }
+    for (const permission of plan.create) {
+      await this.drive.permissions.create({ fileId: formId, requestBody: permission });
+    }
+    for (const permission of plan.remove) {
+      await this.drive.permissions.delete({ fileId: formId, permissionId: permission.id! });
+    }
+    if (!accessPlanIsEmpty(plan)) {
+      console.log(`Access updated: ${formId} (${formatAccessPlan(plan).join(', ')})`);
+    }
+    return plan;
+  }
+
+  /**
+   * Fetch every response, following nextPageToken until the last page.
+   * With `since`, only responses submitted or edited after that time are returned.
+   */
+  async getResponses(formId: string, query: ResponseQuery = {}): Promise<forms_v1.Schema$ListFormResponsesResponse> {
+    if (!this.forms) {
+      throw new Error('Not authenticated. Call authenticate() first.');
+    }
+
+    const filter = query.since ? `timestamp > ${query.since}` : undefined;
+    const responses: forms_v1.Schema$FormResponse[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await this.forms.forms.responses.list({
+        formId,
+        filter,
+        pageSize: RESPONSES_PAGE_SIZE,
+        pageToken,
+      });
+      responses.push(...(response.data.responses || []));
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return { responses };
   }
 
   async getResponseCount(formId: string): Promise<number> {
@@ -589,66 +1020,15 @@ export class GoogleFormsGenerator {
 
   async exportResponsesCsv(formId: string, outputPath: string): Promise<number> {
     const form = await this.getForm(formId);
-    const responsesData = await this.getResponses(formId);
-    const responses = responsesData.responses || [];
+    const { responses = [] } = await this.getResponses(formId);
 
     if (responses.length === 0) {
       return 0;
     }
 
-    // Build question ID -> title mapping from form items
-    const questionMap = new Map<string, string>();
-    for (const item of form.items || []) {
-      if (item.questionItem?.question?.questionId) {
-        questionMap.set(item.questionItem.question.questionId, item.title || '');
-      }
-      if (item.questionGroupItem?.questions) {
-        for (const q of item.questionGroupItem.questions) {
-          if (q.questionId) {
-            const rowTitle = q.rowQuestion?.title || '';
-            questionMap.set(q.questionId, `${item.title || ''} [${rowTitle}]`);
-          }
-        }
-      }
-    }
-
-    // Collect all question IDs across all responses (preserving order)
-    const questionIds: string[] = [];
-    const seenIds = new Set<string>();
-    for (const resp of responses) {
-      for (const qId of Object.keys(resp.answers || {})) {
-        if (!seenIds.has(qId)) {
-          seenIds.add(qId);
-          questionIds.push(qId);
-        }
-      }
-    }
-
-    // Build CSV
-    const escapeCsv = (value: string): string => {
-      if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-        return `"${value.replace(/"/g, '""')}"`;
-      }
-      return value;
-    };
-
-    const headers = [
-      'Timestamp',
-      ...questionIds.map((id) => escapeCsv(questionMap.get(id) || id)),
-    ];
-
-    const rows = responses.map((resp) => {
-      const timestamp = resp.lastSubmittedTime || resp.createTime || '';
-      const values = questionIds.map((qId) => {
-        const answer = resp.answers?.[qId];
-        if (!answer?.textAnswers?.answers) return '';
-        return answer.textAnswers.answers.map((a) => a.value || '').join('; ');
-      });
-      return [escapeCsv(timestamp), ...values.map(escapeCsv)];
-    });
-
-    const csv = [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
-    fs.writeFileSync(outputPath, csv, 'utf8');
+    const migrated = migrateResponses(form, responses, loadQuestionMap(formId));
+    const table = buildResponseTable(migrated.form, migrated.responses);
+    fs.writeFileSync(outputPath, formatResponseTable(table, 'csv'), 'utf8');
 
     return responses.length;
   }
@@ -1,23 +1,27 @@
-import GoogleFormsGenerator from './index';
+import { Command, main, PROGRAM } from './command';
 
-async function main() {
-  const generator = new GoogleFormsGenerator();
-  await generator.authenticate();
+export const listCommand: Command = {
+  name: 'list',
+  summary: 'List the Google Forms in your Drive, newest first',
+  usage: '[options]',
+  examples: [`${PROGRAM} list --json`],
+  async run(ctx) {
+    const generator = await ctx.signIn();
+    const forms = await generator.listForms();
 
-  console.log('Fetching forms...\n');
-  const forms = await generator.listForms();
+    if (forms.length === 0) {
+      return { data: forms, text: 'No forms found.' };
+    }
+    const lines = [`Found ${forms.length} Google Forms:\n`];
+    forms.forEach((form, i) => {
+      lines.push(`${i + 1}. ${form.name}`);
+      lines.push(`   ID: ${form.id}`);
+      lines.push(`   Created: ${form.createdTime}\n`);
+    });
+    return { data: forms, text: lines.join('\n') };
+  },
+};
 
-  if (forms.length === 0) {
-    console.log('No forms found.');
-    return;
-  }
-
-  console.log(`Found ${forms.length} Google Forms:\n`);
-  forms.forEach((form, i) => {
-    console.log(`${i + 1}. ${form.name}`);
-    console.log(`   ID: ${form.id}`);
-    console.log(`   Created: ${form.createdTime}\n`);
-  });
+if (require.main === module) {
+  main([listCommand], ['list', ...process.argv.slice(2)]);
 }
-
-main();
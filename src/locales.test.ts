@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { composeFormYaml } from './compose';
+import { formLocales, localizeForm } from './locales';
+
+describe('localizeForm', () => {
+  let dir: string;
+  let cwd: string;
+
+  const write = (file: string, lines: string[]) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), lines.join('\n') + '\n');
+    return file;
+  };
+  const localize = (file: string, locale?: string) => {
+    const composed = composeFormYaml(file);
+    const diagnostics = localizeForm(composed, file, locale);
+    return {
+      form: composed.doc.toJS(),
+      files: composed.files.map((f) => path.relative(dir, f)),
+      messages: diagnostics.map((d) => `${d.file || file}:${d.line}:${d.column} ${d.message}`),
+    };
+  };
+
+  beforeEach(() => {
+    cwd = process.cwd();
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gform-locales-')));
+    process.chdir(dir);
+    write('survey.yaml', [
+      'title: { en: Survey, es: Encuesta }',
+      'locales: [en, es]',
+      'translations:',
+      '  es: i18n/es.yaml',
+      'pages:',
+      '  - title: { en: About you, es: Sobre usted }',
+      '    questions:',
+      '      - key: role',
+      '        type: multipleChoice',
+      '        title: Role',
+      '        options:',
+      '          - Engineer',
+      '          - { value: Other, goToSection: Thanks }',
+      '  - title: { en: Thanks, es: Gracias }',
+      '    questions: []',
+    ]);
+    write('i18n/es.yaml', ['role:', '  title: Puesto', '  options: [Ingeniero, Otro]']);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the declared locales, default first', () => {
+    expect(formLocales('survey.yaml')).toEqual(['en', 'es']);
+    expect(formLocales(write('plain.yaml', ['title: Plain']))).toEqual([]);
+    expect(formLocales('missing.yaml')).toEqual([]);
+  });
+
+  it('uses the default locale when none is given', () => {
+    const { form, messages, files } = localize('survey.yaml');
+    expect(messages).toEqual([]);
+    expect(form.title).toBe('Survey');
+    expect(form.pages[0].questions[0].options).toEqual(['Engineer', { value: 'Other', goToSection: 'Thanks' }]);
+    expect(files).toEqual(['survey.yaml']);
+  });
+
+  it('takes inline and catalog text for the locale, and follows retitled pages', () => {
+    const { form, messages, files } = localize('survey.yaml', 'es');
+    expect(messages).toEqual([]);
+    expect(form).toEqual({
+      title: 'Encuesta',
+      pages: [
+        {
+          title: 'Sobre usted',
+          questions: [
+            {
+              key: 'role',
+              type: 'multipleChoice',
+              title: 'Puesto',
+              options: ['Ingeniero', { value: 'Otro', goToSection: 'Gracias' }],
+            },
+          ],
+        },
+        { title: 'Gracias', questions: [] },
+      ],
+    });
+    expect(files).toEqual(['survey.yaml', 'i18n/es.yaml']);
+  });
+
+  it('accepts text missing from an inline mapping when the catalog has it', () => {
+    write('i18n/es.yaml', ['role:', '  title: Puesto', 'form:', '  title: Encuesta']);
+    write('survey.yaml', [
+      'title: { en: Survey }',
+      'locales: [en, es]',
+      'translations: { es: i18n/es.yaml }',
+      'questions:',
+      '  - { key: role, type: text, title: { en: Role } }',
+    ]);
+    const { form, messages } = localize('survey.yaml', 'es');
+    expect(messages).toEqual([]);
+    expect(form).toEqual({ title: 'Encuesta', questions: [{ key: 'role', type: 'text', title: 'Puesto' }] });
+  });
+
+  it('reports missing text, unknown locales and catalog mismatches', () => {
+    write('i18n/es.yaml', ['role:', '  options: [Ingeniero]', 'rol:', '  title: Puesto']);
+    write('survey.yaml', [
+      'title: { en: Survey, fr: Enquête }',
+      'locales: [en, es, fr]',
+      'translations: { es: i18n/es.yaml }',
+      'questions:',
+      '  - key: role',
+      '    type: dropdown',
+      '    title: Role',
+      '    options: [Engineer, Other]',
+    ]);
+    expect(localize('survey.yaml', 'es').messages).toEqual([
+      'survey.yaml:1:8 Missing "es" text (has en, fr)',
+      'i18n/es.yaml:2:3 options has 1 item(s); the form has 2 (translating "role")',
+      'i18n/es.yaml:3:1 No page or question has key "rol"',
+    ]);
+    expect(localize('survey.yaml', 'de').messages).toEqual([
+      'survey.yaml:2:10 "de" is not one of the form\'s locales (en, es, fr)',
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isMap, isScalar, isSeq, LineCounter, Node, Pair, parseDocument, Scalar, YAMLMap } from 'yaml';
+import { ComposedForm } from './compose';
+import { byPosition, Diagnostic, parseDiagnostics, Position } from './yaml-validation';
+
+// One form definition, generated once per language:
+//
+//   locales: [en, es]                    # The first is the default
+//   translations: { es: i18n/es.yaml }   # Optional catalogs, by question key
+//   pages:
+//     - title: { en: About you, es: Sobre usted }
+//       questions:
+//         - key: role
+//           type: dropdown
+//           title: Role
+//           options: [Engineer, Designer]
+//
+//   # i18n/es.yaml
+//   role:
+//     title: Puesto
+//     options: [Ingeniero, Diseñador]
+//
+// Text written once is used in every locale. A mapping of locale codes must
+// have text for the locale being generated.
+
+// Catalog entry for the form's own title and description
+export const FORM_CATALOG_KEY = 'form';
+
+const scalarKey = (pair: Pair): string => (isScalar(pair.key) ? String(pair.key.value) : '');
+
+/**
+ * The locales a form file declares, default first; empty when it has none
+ * or cannot be read.
+ */
+export function formLocales(yamlPath: string): string[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(yamlPath, 'utf8');
+  } catch {
+    // The caller reports the missing file when it goes to build the form
+    return [];
+  }
+  const doc = parseDocument(content);
+  const locales = doc.errors.length === 0 ? doc.get('locales') : undefined;
+  return isSeq(locales) ? locales.items.map((item) => String(isScalar(item) ? item.value : item)) : [];
+}
+
+class Localizer {
+  readonly diagnostics: Diagnostic[] = [];
+  readonly files: string[] = [];
+  // Stand-ins for text missing from an inline mapping, which a catalog may still supply
+  private readonly missing = new Map<Scalar, YAMLMap>();
+
+  constructor(
+    private readonly composed: ComposedForm,
+    private readonly locales: Set<string>,
+    private readonly locale: string
+  ) {}
+
+  report(at: Node | Position | undefined, message: string): void {
+    const position = at && 'line' in at ? at : this.composed.locate(at as Node | undefined);
+    this.diagnostics.push({ ...position, message });
+  }
+
+  isLocaleMap(node: unknown): node is YAMLMap {
+    return isMap(node) && node.items.length > 0 && node.items.every((p) => this.locales.has(scalarKey(p as Pair)));
+  }
+
+  // The text for `locale` from a mapping of locale codes
+  pick(map: YAMLMap): Node {
+    const text = map.get(this.locale, true) as Node | undefined;
+    if (text) return text;
+    const placeholder = new Scalar(null);
+    this.missing.set(placeholder, map);
+    return placeholder;
+  }
+
+  reportMissing(): void {
+    for (const [placeholder, map] of this.missing) {
+      if (placeholder.value !== null) continue;
+      const has = map.items.map((p) => scalarKey(p as Pair)).join(', ');
+      this.report(map, `Missing "${this.locale}" text (has ${has})`);
+    }
+  }
+
+  // Replace every mapping of locale codes below `node` with its text
+  resolve(node: unknown): void {
+    if (isSeq(node)) {
+      node.items = node.items.map((item) => (this.isLocaleMap(item) ? this.pick(item) : (this.resolve(item), item)));
+    } else if (isMap(node)) {
+      for (const pair of node.items as Pair<Node, Node>[]) {
+        if (this.isLocaleMap(pair.value)) {
+          pair.value = this.pick(pair.value);
+        } else {
+          this.resolve(pair.value);
+        }
+      }
+    }
+  }
+
+  // Pages and questions that have a `key`, which is what catalogs are keyed by
+  keyed(node: unknown, out = new Map<string, YAMLMap>()): Map<string, YAMLMap> {
+    if (isSeq(node)) {
+      node.items.forEach((item) => this.keyed(item, out));
+    } else if (isMap(node)) {
+      const key = node.get('key');
+      if (typeof key === 'string') out.set(key, node);
+      node.items.forEach((pair) => this.keyed((pair as Pair).value, out));
+    }
+    return out;
+  }
+
+  /**
+   * Lay catalog text over the form's: strings replace strings, lists are
+   * matched item by item, and a string for a choice option sets its `value`.
+   * Returns a description of the mismatch, if the shapes differ.
+   */
+  apply(target: Node, value: unknown, field: string): string | undefined {
+    if (value === null || value === undefined) return undefined;
+    if (isScalar(target) && (typeof value === 'string' || typeof value === 'number')) {
+      target.value = value;
+      return undefined;
+    }
+    if (isMap(target) && (typeof value === 'string' || typeof value === 'number')) {
+      const inner = target.get('value', true) as Node | undefined;
+      return inner ? this.apply(inner, value, field) : `${field} has no \`value\` to translate`;
+    }
+    if (isSeq(target) && Array.isArray(value)) {
+      if (value.length !== target.items.length) {
+        return `${field} has ${value.length} item(s); the form has ${target.items.length}`;
+      }
+      for (let i = 0; i < value.length; i++) {
+        const problem = this.apply(target.items[i] as Node, value[i], `${field}[${i}]`);
+        if (problem) return problem;
+      }
+      return undefined;
+    }
+    if (isMap(target) && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [key, inner] of Object.entries(value as Record<string, unknown>)) {
+        const child = target.get(key, true) as Node | undefined;
+        if (!child) {
+          target.set(key, inner);
+          continue;
+        }
+        const problem = this.apply(child, inner, field ? `${field}.${key}` : key);
+        if (problem) return problem;
+      }
+      return undefined;
+    }
+    return `${field || 'The entry'} does not have the same shape as in the form`;
+  }
+
+  catalog(file: string, root: YAMLMap, from: Node): void {
+    const display = path.relative(process.cwd(), file);
+    if (!fs.existsSync(file)) {
+      return this.report(from, `Translation catalog not found: ${display}`);
+    }
+    this.files.push(file);
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(fs.readFileSync(file, 'utf8'), { lineCounter, prettyErrors: false });
+    this.diagnostics.push(...parseDiagnostics(doc, lineCounter, display));
+    if (doc.errors.length > 0) return;
+    const at = (node: Node | null | undefined): Position => {
+      const { line, col } = lineCounter.linePos(node?.range?.[0] ?? 0);
+      return { line, column: col, file: display };
+    };
+    if (!isMap(doc.contents)) {
+      return this.report(at(doc.contents), 'A translation catalog must be a mapping of question keys to text');
+    }
+
+    const keyed = this.keyed(root);
+    for (const pair of doc.contents.items as Pair<Node, Node>[]) {
+      const key = scalarKey(pair);
+      const target = key === FORM_CATALOG_KEY ? root : keyed.get(key);
+      if (!target) {
+        this.report(at(pair.key), `No page or question has key "${key}"`);
+        continue;
+      }
+      const problem = this.apply(target, pair.value?.toJSON(), '');
+      if (problem) {
+        this.report(at(pair.value), `${problem} (translating "${key}")`);
+      }
+    }
+  }
+}
+
+/**
+ * Turn a composed form with `locales` into the form for one of them (the
+ * default when `locale` is not given). Catalog files read are added to
+ * `composed.files`. Returns the problems found; the form is not validated.
+ */
+export function localizeForm(
+  composed: ComposedForm,
+  yamlPath: string,
+  locale?: string
+): Diagnostic[] {
+  const root = composed.doc.contents;
+  if (!isMap(root)) return [];
+  const localesNode = root.get('locales', true) as Node | undefined;
+  const translationsNode = root.get('translations', true) as Node | undefined;
+  root.delete('locales');
+  root.delete('translations');
+
+  const locales = isSeq(localesNode)
+    ? localesNode.items.map((item) => (isScalar(item) ? String(item.value) : ''))
+    : [];
+  const localizer = new Localizer(composed, new Set(locales), locale || locales[0]);
+  if (!localesNode) {
+    if (locale) {
+      localizer.report(root, `The form declares no \`locales\`, so it has no "${locale}" text`);
+    }
+    if (translationsNode) {
+      localizer.report(translationsNode, '`translations` needs a list of `locales`');
+    }
+    return localizer.diagnostics;
+  }
+  if (locales.length === 0 || locales.some((l) => !l)) {
+    localizer.report(localesNode, 'Expected `locales` to be a list of locale codes, default first');
+    return localizer.diagnostics;
+  }
+  if (locale && !locales.includes(locale)) {
+    localizer.report(localesNode, `"${locale}" is not one of the form's locales (${locales.join(', ')})`);
+    return localizer.diagnostics;
+  }
+
+  // Branch targets are written as the default locale's page titles
+  const pages = root.get('pages', true);
+  const pageTitles = (isSeq(pages) ? pages.items : []).map((page) => {
+    const title = isMap(page) ? page.get('title', true) : undefined;
+    const text = localizer.isLocaleMap(title) ? title.get(locales[0], true) : title;
+    return isScalar(text) ? String(text.value) : undefined;
+  });
+
+  localizer.resolve(root);
+  if (translationsNode !== undefined) {
+    if (!isMap(translationsNode)) {
+      localizer.report(translationsNode, 'Expected `translations` to map locales to catalog files');
+    } else {
+      for (const pair of translationsNode.items as Pair<Node, Node>[]) {
+        const catalogLocale = scalarKey(pair);
+        if (!locales.includes(catalogLocale)) {
+          localizer.report(pair.key, `"${catalogLocale}" is not one of the form's locales (${locales.join(', ')})`);
+        } else if (catalogLocale === (locale || locales[0]) && isScalar(pair.value)) {
+          localizer.catalog(path.resolve(path.dirname(yamlPath), String(pair.value.value)), root, pair.value);
+        }
+      }
+    }
+  }
+
+  localizer.reportMissing();
+
+  const retitled = new Map<string, string>();
+  (isSeq(pages) ? pages.items : []).forEach((page, i) => {
+    const title = isMap(page) ? page.get('title') : undefined;
+    const before = pageTitles[i];
+    if (before !== undefined && typeof title === 'string' && title !== before) retitled.set(before, title);
+  });
+  if (retitled.size > 0) {
+    retarget(root, retitled);
+  }
+
+  composed.files.push(...localizer.files);
+  return localizer.diagnostics.sort(byPosition);
+}
+
+function retarget(node: unknown, retitled: Map<string, string>): void {
+  if (isSeq(node)) {
+    node.items.forEach((item) => retarget(item, retitled));
+  } else if (isMap(node)) {
+    const target = node.get('goToSection');
+    if (typeof target === 'string' && retitled.has(target)) {
+      node.set('goToSection', retitled.get(target));
+    }
+    node.items.forEach((pair) => retarget((pair as Pair).value, retitled));
+  }
+}
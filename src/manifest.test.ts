@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  configHash,
+  loadManifest,
+  Manifest,
+  manifestKey,
+  parseKey,
+  recordApply,
+  saveManifest,
+  variantKey,
+  variantKeys,
+} from './manifest';
+
+describe('manifest', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gform-lock-'));
+    file = path.join(dir, 'gform.lock.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keys files by their path relative to the manifest', () => {
+    expect(manifestKey(path.join(dir, 'forms', 'a.yaml'), file)).toBe('forms/a.yaml');
+    expect(manifestKey(path.join(dir, '..', 'b.yaml'), file)).toBe('../b.yaml');
+  });
+
+  it('hashes the built form, not the file', () => {
+    const config = { title: 'T', items: [{ type: 'text' as const, title: 'Q' }] };
+    expect(configHash(config)).toBe(configHash(JSON.parse(JSON.stringify(config))));
+    expect(configHash({ ...config, title: 'Test: T' })).not.toBe(configHash(config));
+  });
+
+  it('keeps createdAt across updates of the same form, and resets it for another', () => {
+    const manifest: Manifest = { version: 1, forms: {} };
+    recordApply(manifest, 'a.yaml', { formId: 'f1', hash: 'h1' }, new Date('2024-05-01T00:00:00Z'));
+    recordApply(manifest, 'a.yaml', { formId: 'f1', hash: 'h2' }, new Date('2024-05-02T00:00:00Z'));
+    expect(manifest.forms['a.yaml']).toEqual({
+      formId: 'f1',
+      hash: 'h2',
+      createdAt: '2024-05-01T00:00:00.000Z',
+      updatedAt: '2024-05-02T00:00:00.000Z',
+    });
+
+    recordApply(manifest, 'a.yaml', { formId: 'f2', hash: 'h2' }, new Date('2024-05-03T00:00:00Z'));
+    expect(manifest.forms['a.yaml'].createdAt).toBe('2024-05-03T00:00:00.000Z');
+  });
+
+  it('records only the build options and item keys that were set', () => {
+    const manifest: Manifest = { version: 1, forms: {} };
+    const entry = recordApply(manifest, 'a.yaml', {
+      formId: 'f1',
+      hash: 'h1',
+      options: { prefix: 'Test: ', noNumbers: false, useFilename: undefined },
+      itemKeys: {},
+    });
+    expect(entry.options).toEqual({ prefix: 'Test: ' });
+    expect(entry).not.toHaveProperty('itemKeys');
+  });
+
+  it('saves sorted by path and loads back', () => {
+    const manifest: Manifest = { version: 1, forms: {} };
+    recordApply(manifest, 'z.yaml', { formId: 'f1', hash: 'h1' });
+    recordApply(manifest, 'a.yaml', { formId: 'f2', hash: 'h2' });
+    saveManifest(manifest, file);
+
+    const loaded = loadManifest(file);
+    expect(Object.keys(loaded.forms)).toEqual(['a.yaml', 'z.yaml']);
+    expect(loaded.forms['z.yaml'].formId).toBe('f1');
+  });
+
+  it('starts empty without a file and rejects other versions', () => {
+    expect(loadManifest(file)).toEqual({ version: 1, forms: {} });
+    fs.writeFileSync(file, JSON.stringify({ version: 2, forms: {} }));
+    expect(() => loadManifest(file)).toThrow('version 2');
+  });
+
+  it('tracks the languages of a file under variant keys', () => {
+    const manifest: Manifest = { version: 1, forms: {} };
+    for (const key of ['b.yaml', 'a.yaml#fr', 'a.yaml', variantKey('a.yaml', 'es')]) {
+      recordApply(manifest, key, { formId: key, hash: 'h' });
+    }
+    expect(variantKeys(manifest, 'a.yaml')).toEqual(['a.yaml', 'a.yaml#es', 'a.yaml#fr']);
+    expect(parseKey('forms/a.yaml#es')).toEqual({ file: 'forms/a.yaml', locale: 'es' });
+    expect(parseKey('forms/a.yaml')).toEqual({ file: 'forms/a.yaml' });
+  });
+});
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FormConfig } from './index';
+
+// gform.lock.json: which live form each YAML file was generated into, and
+// what was last applied to it. Unlike .gform/, it is meant to be committed
+// alongside the YAML so everyone on a project updates the same forms.
+
+export const MANIFEST_FILE = 'gform.lock.json';
+const MANIFEST_VERSION = 1;
+
+// The generate options that change the form built from a file
+export interface BuildOptions {
+  prefix?: string;
+  noNumbers?: boolean;
+  // A --numbering preset
+  numbering?: string;
+  useFilename?: boolean;
+  // Resolved --var and --vars values
+  vars?: Record<string, string>;
+  // For a file with `locales`, the language the form was generated in
+  locale?: string;
+}
+
+export interface ManifestEntry {
+  formId: string;
+  // configHash of the form last applied from this file
+  hash: string;
+  // Needed to rebuild the same form when checking for changes; omitted when none were set
+  options?: BuildOptions;
+  createdAt: string;
+  updatedAt: string;
+  // The form's revision after the last apply; a different one means it was edited elsewhere
+  revisionId?: string;
+  // key -> itemId, so renamed questions with a `key` keep their IDs (UpdateOptions.itemKeys)
+  itemKeys?: Record<string, string>;
+}
+
+export interface Manifest {
+  version: number;
+  // By YAML path relative to the manifest, with forward slashes; "<path>#<locale>"
+  // for the forms of a file's other languages (see variantKey)
+  forms: Record<string, ManifestEntry>;
+}
+
+export function manifestPath(dir = process.cwd()): string {
+  return path.join(dir, MANIFEST_FILE);
+}
+
+export function loadManifest(file = manifestPath()): Manifest {
+  if (!fs.existsSync(file)) {
+    return { version: MANIFEST_VERSION, forms: {} };
+  }
+  const manifest = JSON.parse(fs.readFileSync(file, 'utf8')) as Manifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`${file} has version ${manifest.version}; this gform understands version ${MANIFEST_VERSION}`);
+  }
+  return manifest;
+}
+
+export function saveManifest(manifest: Manifest, file = manifestPath()): void {
+  // Sorted by path, so the file diffs cleanly when forms are added
+  const forms = Object.fromEntries(Object.entries(manifest.forms).sort(([a], [b]) => a.localeCompare(b)));
+  fs.writeFileSync(file, JSON.stringify({ ...manifest, forms }, null, 2) + '\n');
+}
+
+/**
+ * The manifest key for a YAML file: its path relative to the manifest, so the
+ * same file has the same key on every machine.
+ */
+export function manifestKey(yamlPath: string, file = manifestPath()): string {
+  return path.relative(path.dirname(file), path.resolve(yamlPath)).split(path.sep).join('/');
+}
+
+/**
+ * The key for one language of a file with `locales`, e.g. "survey.yaml#es".
+ * The default language's form is tracked under the file's own key, so adding
+ * `locales` to a tracked file keeps its form.
+ */
+export function variantKey(key: string, locale?: string): string {
+  return locale ? `${key}#${locale}` : key;
+}
+
+// The file a key was generated from, and the language if it is a variant
+export function parseKey(key: string): { file: string; locale?: string } {
+  const hash = key.lastIndexOf('#');
+  return hash < 0 ? { file: key } : { file: key.slice(0, hash), locale: key.slice(hash + 1) };
+}
+
+/**
+ * The tracked keys of every language of a file: its own key first, then the
+ * variants by locale.
+ */
+export function variantKeys(manifest: Manifest, key: string): string[] {
+  const variants = Object.keys(manifest.forms).filter((k) => k.startsWith(`${key}#`)).sort();
+  return manifest.forms[key] ? [key, ...variants] : variants;
+}
+
+/**
+ * Hash of the form a YAML file produces. Hashing the built form rather than
+ * the file means options like --prefix count as changes, and reformatting
+ * the YAML does not.
+ */
+export function configHash(config: FormConfig): string {
+  return 'sha256:' + createHash('sha256').update(JSON.stringify(config)).digest('hex');
+}
+
+export function recordApply(
+  manifest: Manifest,
+  key: string,
+  applied: Pick<ManifestEntry, 'formId' | 'hash' | 'options' | 'revisionId' | 'itemKeys'>,
+  now = new Date()
+): ManifestEntry {
+  const previous = manifest.forms[key];
+  const timestamp = now.toISOString();
+  const entry: ManifestEntry = {
+    formId: applied.formId,
+    hash: applied.hash,
+    // Pointing a file at another form starts its history again
+    createdAt: previous?.formId === applied.formId ? previous.createdAt : timestamp,
+    updatedAt: timestamp,
+  };
+  const options = Object.fromEntries(Object.entries(applied.options || {}).filter(
+    ([, v]) => v && !(typeof v === 'object' && Object.keys(v).length === 0)
+  ));
+  if (Object.keys(options).length > 0) entry.options = options;
+  if (applied.revisionId) entry.revisionId = applied.revisionId;
+  if (applied.itemKeys && Object.keys(applied.itemKeys).length > 0) entry.itemKeys = applied.itemKeys;
+  manifest.forms[key] = entry;
+  return entry;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import { FakeGoogleBackend } from './fake-google';
+import { buildFormConfig } from './yaml-to-form';
+import { commandSink, loadNotifierState, pollResponses, ResponseNotification, Sink } from './notify';
+
+const SURVEY = `
+title: Team survey
+numbering: false
+questions:
+  - type: text
+    title: Name
+  - type: checkbox
+    title: Tools
+    options: [Vim, Emacs]
+`;
+
+describe('pollResponses', () => {
+  let dir: string;
+  let cwd: string;
+  let backend: FakeGoogleBackend;
+  let generator: GoogleFormsGenerator;
+  let formId: string;
+  const log: string[] = [];
+
+  beforeEach(async () => {
+    cwd = process.cwd();
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gform-notify-')));
+    process.chdir(dir);
+    backend = new FakeGoogleBackend();
+    generator = new GoogleFormsGenerator({ forms: backend.forms, drive: backend.drive });
+    fs.writeFileSync('survey.yaml', SURVEY);
+    formId = await generator.createForm(buildFormConfig(path.join(dir, 'survey.yaml')));
+    log.length = 0;
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const recorder = (name: string, failures = 0): Sink & { received: ResponseNotification[] } => {
+    const received: ResponseNotification[] = [];
+    return {
+      name,
+      received,
+      async deliver(notification) {
+        if (failures-- > 0) throw new Error('Webhook answered 503 Service Unavailable');
+        received.push(notification);
+      },
+    };
+  };
+
+  const poll = (sinks: Sink[], options = {}) =>
+    pollResponses(generator, formId, sinks, { retryDelayMs: 0, log: (line) => log.push(line), ...options });
+
+  it('sends each new response once, answers under their titles, skipping what was there before', async () => {
+    backend.submit(formId, { Name: 'Old' }, { time: new Date('2024-05-01T09:00:00Z') });
+    const sink = recorder('webhook a');
+    expect(await poll([sink])).toEqual({ formId, delivered: 0, failed: 0, skipped: 1 });
+    expect(log).toEqual([`Watching form ${formId} for new responses; 1 existing response(s) not sent`]);
+
+    const ann = backend.submit(formId, { Name: 'Ann', Tools: ['Vim', 'Emacs'] }, { email: 'ann@example.com', time: new Date('2024-05-01T10:00:00Z') });
+    backend.submit(formId, { Name: 'Bob' }, { time: new Date('2024-05-01T10:00:00Z') });
+    expect(await poll([sink])).toMatchObject({ delivered: 2, failed: 0 });
+    expect(sink.received[0]).toEqual({
+      formId,
+      formTitle: 'Team survey',
+      responseId: ann,
+      submittedAt: '2024-05-01T10:00:00.000Z',
+      respondentEmail: 'ann@example.com',
+      totalScore: null,
+      answers: { Name: 'Ann', Tools: ['Vim', 'Emacs'] },
+    });
+    expect(sink.received[1].answers).toEqual({ Name: 'Bob', Tools: null });
+
+    // An edit comes back after the cursor, but was sent already
+    backend.edit(formId, ann, { Name: 'Ann B.' }, { time: new Date('2024-05-01T11:00:00Z') });
+    expect(await poll([sink])).toMatchObject({ delivered: 0 });
+    expect(sink.received).toHaveLength(2);
+    expect(loadNotifierState(formId)!.cursor).toBe('2024-05-01T11:00:00.000Z');
+    expect(backend.callsTo('forms.responses.list').at(-1)).toMatchObject({ filter: 'timestamp > 2024-05-01T10:00:00.000Z' });
+  });
+
+  it('keeps only the handled responses the cursor has not passed, and knows edits of the others', async () => {
+    await poll([]);
+    const sink = recorder('webhook a');
+    const ann = backend.submit(formId, { Name: 'Ann' }, { time: new Date('2024-05-01T10:00:00Z') });
+    expect(await poll([sink])).toMatchObject({ delivered: 1 });
+    const bob = backend.submit(formId, { Name: 'Bob' }, { time: new Date('2024-05-01T12:00:00Z') });
+    expect(await poll([sink])).toMatchObject({ delivered: 1 });
+    expect(loadNotifierState(formId)!.handled).toEqual({ [bob]: '2024-05-01T12:00:00.000Z' });
+
+    backend.edit(formId, ann, { Name: 'Ann B.' }, { time: new Date('2024-05-01T13:00:00Z') });
+    expect(await poll([sink])).toMatchObject({ delivered: 0 });
+    expect(sink.received.map((n) => n.responseId)).toEqual([ann, bob]);
+    expect(loadNotifierState(formId)).toMatchObject({ cursor: '2024-05-01T13:00:00.000Z', handled: {} });
+  });
+
+  it('retries a failing sink, then keeps the delivery for the next poll without resending to the others', async () => {
+    await poll([]);
+    backend.submit(formId, { Name: 'Ann' });
+    const ok = recorder('exec ok');
+    const flaky = recorder('webhook flaky', 1);
+    const down = recorder('webhook down', 3);
+
+    expect(await poll([ok, flaky, down], { attempts: 2 })).toMatchObject({ delivered: 0, failed: 1 });
+    expect([ok.received.length, flaky.received.length, down.received.length]).toEqual([1, 1, 0]);
+    expect(log.at(-1)).toMatch(/^Could not send response \S+ to webhook down \(Webhook answered 503 Service Unavailable\); will retry/);
+    expect(loadNotifierState(formId)!.pending).toMatchObject([{ sinks: ['webhook down'], error: 'webhook down: Webhook answered 503 Service Unavailable' }]);
+
+    // Down fails once more on the next poll, then goes through
+    expect(await poll([ok, flaky, down], { attempts: 1 })).toMatchObject({ delivered: 0, failed: 1 });
+    expect(await poll([ok, flaky, down], { attempts: 1 })).toMatchObject({ delivered: 1, failed: 0 });
+    expect([ok.received.length, flaky.received.length, down.received.length]).toEqual([1, 1, 1]);
+    expect(loadNotifierState(formId)!.pending).toEqual([]);
+  });
+
+  it('pipes the response as JSON into a shell command', async () => {
+    await poll([]);
+    backend.submit(formId, { Name: 'Ann' });
+    const out = path.join(dir, 'out.json');
+    expect(await poll([commandSink(`cat > "${out}"`), commandSink('exit 3')], { attempts: 1 })).toMatchObject({ failed: 1 });
+    expect(JSON.parse(fs.readFileSync(out, 'utf8')).answers).toEqual({ Name: 'Ann', Tools: null });
+    expect(log.at(-1)).toContain('(Command exited with status 3)');
+  });
+});
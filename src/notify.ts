@@ -0,0 +1,307 @@
+import { forms_v1 } from 'googleapis';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import { buildResponseTable, Cell } from './response-export';
+import { loadQuestionMap, migrateResponses } from './question-map';
+import { later, submittedAt } from './response-cache';
+import { sendMail, SmtpConfig } from './smtp';
+import { messageOf } from './command';
+
+// `responses watch`: polls forms for new responses and hands each one, its
+// answers under their question titles, to sinks (a webhook, a command, email).
+// Per form, .gform/notify/<formId>.json keeps a cursor (the latest submit time
+// seen) so each poll asks only for what is new, the responses already handled
+// at the cursor so none is sent twice, and the deliveries still to retry.
+
+export interface ResponseNotification {
+  formId: string;
+  formTitle: string;
+  responseId: string;
+  submittedAt: string | null;
+  respondentEmail: string | null;
+  totalScore: number | null;
+  // By question title in form order, as in `responses export`; grid rows are "Grid [Row]"
+  answers: Record<string, Cell>;
+}
+
+export interface Sink {
+  // Identifies the sink in logs and among pending deliveries, e.g. "webhook https://example.com/hook"
+  name: string;
+  deliver(notification: ResponseNotification): Promise<void>;
+}
+
+interface PendingDelivery {
+  notification: ResponseNotification;
+  // The sinks it has not reached yet
+  sinks: string[];
+  error: string;
+}
+
+export interface NotifierState {
+  formId: string;
+  // Latest submit time seen; the next poll asks only for responses after it
+  cursor?: string;
+  // Submit time by ID of the responses handed to the sinks (or queued for them), so re-fetches
+  // are not sent again. Only those at the cursor or later are kept: older ones come back only
+  // as edits, which their create time gives away
+  handled: Record<string, string>;
+  // Deliveries that failed every attempt, retried on the next poll
+  pending: PendingDelivery[];
+}
+
+export interface PollOptions {
+  // On the first poll of a form, send the responses it already has too
+  includeExisting?: boolean;
+  // Attempts per delivery within a poll, and the wait before the second (doubling after)
+  attempts?: number;
+  retryDelayMs?: number;
+  log?: (message: string) => void;
+}
+
+export interface PollResult {
+  formId: string;
+  delivered: number;
+  // Deliveries that failed every attempt, now pending
+  failed: number;
+  // Existing responses passed over on the first poll
+  skipped: number;
+}
+
+export const DEFAULT_ATTEMPTS = 3;
+export const DEFAULT_RETRY_DELAY_MS = 1000;
+// How long a webhook or command may take before the attempt counts as failed
+const DELIVERY_TIMEOUT_MS = 30_000;
+
+export function notifierStatePath(formId: string, root = process.cwd()): string {
+  return path.join(root, '.gform', 'notify', `${formId}.json`);
+}
+
+export function loadNotifierState(formId: string): NotifierState | undefined {
+  const file = notifierStatePath(formId);
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as NotifierState) : undefined;
+}
+
+function saveNotifierState(state: NotifierState): void {
+  if (state.cursor) {
+    const cursor = Date.parse(state.cursor);
+    state.handled = Object.fromEntries(Object.entries(state.handled).filter(([, time]) => Date.parse(time) >= cursor));
+  }
+  const file = notifierStatePath(state.formId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state, null, 2));
+}
+
+/** A response as sinks get it, answers keyed by question title. */
+export function toNotification(form: forms_v1.Schema$Form, response: forms_v1.Schema$FormResponse): ResponseNotification {
+  const { headers, rows } = buildResponseTable(form, [response]);
+  const [, timestamp, email, score, ...cells] = rows[0];
+  return {
+    formId: form.formId || '',
+    formTitle: form.info?.title || '',
+    responseId: response.responseId || '',
+    submittedAt: timestamp as string | null,
+    respondentEmail: email as string | null,
+    totalScore: score as number | null,
+    answers: Object.fromEntries(headers.slice(4).map((header, i) => [header, cells[i]])),
+  };
+}
+
+// "Title: answer" lines, for email
+export function formatNotification(notification: ResponseNotification): string {
+  const answer = (cell: Cell) => (cell === null ? '(no answer)' : Array.isArray(cell) ? cell.join(', ') : String(cell));
+  return [
+    notification.formTitle,
+    `Submitted: ${notification.submittedAt || 'unknown'}`,
+    ...(notification.respondentEmail ? [`Email: ${notification.respondentEmail}`] : []),
+    ...(notification.totalScore !== null ? [`Total score: ${notification.totalScore}`] : []),
+    '',
+    ...Object.entries(notification.answers).map(([title, cell]) => `${title}: ${answer(cell)}`),
+    '',
+    `Response ID: ${notification.responseId}`,
+  ].join('\n');
+}
+
+/** POSTs the notification as JSON; any status outside 2xx is a failure. */
+export function webhookSink(url: string): Sink {
+  return {
+    name: `webhook ${url}`,
+    async deliver(notification) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          // The same for every attempt, so a receiver can drop a repeat
+          'Idempotency-Key': `${notification.formId}/${notification.responseId}`,
+        },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook answered ${response.status} ${response.statusText}`.trim());
+      }
+    },
+  };
+}
+
+/** Runs `command` in a shell with the notification as JSON on stdin; a non-zero exit is a failure. */
+export function commandSink(command: string): Sink {
+  return {
+    name: `exec ${command}`,
+    deliver(notification) {
+      return new Promise((resolve, reject) => {
+        const child = spawn(command, {
+          shell: true,
+          stdio: ['pipe', 'inherit', 'inherit'],
+          env: { ...process.env, GFORM_FORM_ID: notification.formId, GFORM_RESPONSE_ID: notification.responseId },
+          timeout: DELIVERY_TIMEOUT_MS,
+        });
+        child.on('error', reject);
+        child.on('close', (code, signal) => {
+          if (code === 0) resolve();
+          else reject(new Error(signal ? `Command was stopped by ${signal}` : `Command exited with status ${code}`));
+        });
+        // A command that does not read its input closes stdin early; its exit status decides
+        child.stdin.on('error', () => {});
+        child.stdin.end(JSON.stringify(notification));
+      });
+    },
+  };
+}
+
+/** Emails the notification as plain text to `to` through the SMTP server in `smtp`. */
+export function emailSink(smtp: SmtpConfig, from: string, to: string[]): Sink {
+  return {
+    name: `email ${to.join(', ')}`,
+    deliver(notification) {
+      return sendMail(smtp, {
+        from,
+        to,
+        subject: `New response to ${notification.formTitle || notification.formId}`,
+        text: formatNotification(notification),
+        messageId: `${notification.responseId}.${notification.formId}@gform`,
+      });
+    },
+  };
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Hand a notification to each sink still in `pending.sinks`, retrying each
+ * failure. A sink is taken off, and the state saved, as soon as it succeeds,
+ * so a crash part-way does not send it again. Sinks that failed every attempt
+ * stay on, with the last error.
+ */
+async function deliver(
+  sinks: Sink[],
+  pending: PendingDelivery,
+  save: () => void,
+  options: PollOptions
+): Promise<void> {
+  const attempts = options.attempts ?? DEFAULT_ATTEMPTS;
+  const log = options.log || ((message) => console.log(message));
+  const { notification } = pending;
+  for (const sink of sinks.filter((s) => pending.sinks.includes(s.name))) {
+    let delay = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await sink.deliver(notification);
+        pending.sinks = pending.sinks.filter((name) => name !== sink.name);
+        save();
+        log(`Sent response ${notification.responseId} of form ${notification.formId} to ${sink.name}`);
+        break;
+      } catch (error) {
+        pending.error = `${sink.name}: ${messageOf(error)}`;
+        if (attempt >= attempts) {
+          log(`Could not send response ${notification.responseId} to ${sink.name} (${messageOf(error)}); will retry on the next poll`);
+          break;
+        }
+        await sleep(delay);
+        delay *= 2;
+      }
+    }
+  }
+}
+
+/**
+ * Send the responses submitted to a form since the last poll to every sink.
+ * Deliveries that failed before are retried first. The first poll of a form
+ * only sets the cursor, unless `includeExisting` is set.
+ */
+export async function pollResponses(
+  generator: GoogleFormsGenerator,
+  formId: string,
+  sinks: Sink[],
+  options: PollOptions = {}
+): Promise<PollResult> {
+  const log = options.log || ((message) => console.log(message));
+  const result: PollResult = { formId, delivered: 0, failed: 0, skipped: 0 };
+  const first = loadNotifierState(formId) === undefined;
+  const state = loadNotifierState(formId) || { formId, handled: {}, pending: [] };
+  const save = () => saveNotifierState(state);
+  const names = sinks.map((s) => s.name);
+
+  // Sinks no longer configured are dropped from what is owed
+  state.pending = state.pending
+    .map((p) => ({ ...p, sinks: p.sinks.filter((name) => names.includes(name)) }))
+    .filter((p) => p.sinks.length > 0);
+  for (const pending of [...state.pending]) {
+    await deliver(sinks, pending, save, options);
+    if (pending.sinks.length === 0) {
+      state.pending = state.pending.filter((p) => p !== pending);
+      result.delivered++;
+    } else {
+      result.failed++;
+    }
+    save();
+  }
+
+  const since = state.cursor;
+  const { responses = [] } = await generator.getResponses(formId, { since });
+  // Created by the last poll, so handled or passed over then, and back because it was edited
+  const seen = (r: forms_v1.Schema$FormResponse) =>
+    Object.hasOwn(state.handled, r.responseId || '') ||
+    (since !== undefined && !!r.createTime && Date.parse(r.createTime) <= Date.parse(since));
+  const fresh = responses
+    .filter((r) => r.responseId && !seen(r))
+    .sort((a, b) => Date.parse(submittedAt(a)) - Date.parse(submittedAt(b)));
+  const advance = (response: forms_v1.Schema$FormResponse) => {
+    if (submittedAt(response)) state.cursor = later(state.cursor, submittedAt(response));
+  };
+  // Edited responses come back after the cursor too; they only move it
+  responses.filter(seen).forEach(advance);
+
+  if (first && !options.includeExisting) {
+    fresh.forEach(advance);
+    fresh.forEach((r) => { state.handled[r.responseId!] = submittedAt(r); });
+    save();
+    result.skipped = fresh.length;
+    log(`Watching form ${formId} for new responses; ${fresh.length} existing response(s) not sent`);
+    return result;
+  }
+
+  if (fresh.length > 0) {
+    // Answers given under earlier question IDs are reported under the question's current title
+    const migrated = migrateResponses(await generator.getForm(formId), fresh, loadQuestionMap(formId));
+    for (const response of migrated.responses) {
+      const notification = toNotification(migrated.form, response);
+      // Recorded as owed to every sink before the first is tried
+      const pending: PendingDelivery = { notification, sinks: [...names], error: '' };
+      state.handled[notification.responseId] = submittedAt(response);
+      state.pending.push(pending);
+      advance(response);
+      save();
+      await deliver(sinks, pending, save, options);
+      if (pending.sinks.length === 0) {
+        state.pending = state.pending.filter((p) => p !== pending);
+        result.delivered++;
+      } else {
+        result.failed++;
+      }
+    }
+  }
+  save();
+  return result;
+}
@@ -3,6 +3,12 @@ import {
   numberTitle,
   numberSections,
   numberFlatQuestions,
+  stripNumbering,
+  isNumbered,
+  formatCounter,
+  resolveNumbering,
+  Numberer,
+  NUMBERING_PRESETS,
   ALREADY_NUMBERED_RE,
 } from './numbering';
 
@@ -54,6 +60,24 @@ describe('numberTitle', () => {
   });
 });
 
+describe('stripNumbering', () => {
+  it('removes section and question prefixes', () => {
+    expect(stripNumbering('Section 2 \u2014 Team')).toBe('Team');
+    expect(stripNumbering('Q 1.3 \u2014 Team size')).toBe('Team size');
+    expect(stripNumbering('Q 4 \u2014 Your name')).toBe('Your name');
+  });
+
+  it('removes "1." and "2)" prefixes', () => {
+    expect(stripNumbering('1. First question')).toBe('First question');
+    expect(stripNumbering('2) Second question')).toBe('Second question');
+  });
+
+  it('leaves plain titles alone', () => {
+    expect(stripNumbering('Walk us through Q 1 items')).toBe('Walk us through Q 1 items');
+    expect(stripNumbering('2024 budget')).toBe('2024 budget');
+  });
+});
+
 describe('numberSections', () => {
   it('numbers sections and questions', () => {
     const sections = [
@@ -160,3 +184,89 @@ describe('numberFlatQuestions', () => {
     expect(numberFlatQuestions([])).toEqual([]);
   });
 });
+
+describe('formatCounter', () => {
+  it('writes counters as numbers, letters or roman numerals', () => {
+    expect(formatCounter(4, 'decimal')).toBe('4');
+    expect(formatCounter(2, 'upper-alpha')).toBe('B');
+    expect(formatCounter(28, 'lower-alpha')).toBe('ab');
+    expect(formatCounter(14, 'upper-roman')).toBe('XIV');
+    expect(formatCounter(9, 'lower-roman')).toBe('ix');
+  });
+});
+
+describe('resolveNumbering', () => {
+  it('turns numbering off, on, or into a preset', () => {
+    expect(resolveNumbering(false)).toBeUndefined();
+    expect(resolveNumbering(undefined)).toBe(NUMBERING_PRESETS.default);
+    expect(resolveNumbering('roman')).toEqual(NUMBERING_PRESETS.roman);
+    expect(() => resolveNumbering('greek')).toThrow(/Unknown numbering preset "greek"/);
+  });
+
+  it('lays a mapping over its preset', () => {
+    expect(resolveNumbering({ preset: 'outline', subsection: '{section}.{subsection} ', restart: false })).toEqual({
+      ...NUMBERING_PRESETS.outline,
+      subsection: '{section}.{subsection} ',
+      restart: 'never',
+    });
+  });
+});
+
+describe('Numberer', () => {
+  it('numbers "A.1" style with letters for sections', () => {
+    const numberer = new Numberer(NUMBERING_PRESETS.alpha);
+    expect([
+      numberer.section('Intro'),
+      numberer.question('Name'),
+      numberer.question('Email'),
+      numberer.section('Work'),
+      numberer.question('Role'),
+    ]).toEqual(['A. Intro', 'A.1 Name', 'A.2 Email', 'B. Work', 'B.1 Role']);
+  });
+
+  it('numbers subsections as "1.2.3" and restarts questions in each', () => {
+    const numberer = new Numberer(resolveNumbering({
+      preset: 'outline',
+      subsection: '{section}.{subsection}. ',
+      question: '{section}.{subsection}.{question} ',
+      restart: 'subsection',
+    }));
+    numberer.section('Team');
+    expect(numberer.subsection('People')).toBe('1.1. People');
+    expect(numberer.question('Size')).toBe('1.1.1 Size');
+    expect(numberer.subsection('Tools')).toBe('1.2. Tools');
+    expect(numberer.question('Editor')).toBe('1.2.1 Editor');
+  });
+
+  it('keeps counting across pages when restart is never', () => {
+    const numberer = new Numberer(NUMBERING_PRESETS.plain);
+    expect([
+      numberer.section('One'),
+      numberer.question('Name'),
+      numberer.section('Two'),
+      numberer.question('Role'),
+    ]).toEqual(['One', '1. Name', 'Two', '2. Role']);
+  });
+
+  it('leaves {section} out of question prefixes in a flat form', () => {
+    const numberer = new Numberer(NUMBERING_PRESETS.roman, true);
+    expect(numberer.question('Name')).toBe('1 Name');
+  });
+
+  it('does not renumber titles already numbered in the scheme', () => {
+    const numberer = new Numberer(NUMBERING_PRESETS.roman);
+    expect(numberer.section('IV. Legacy')).toBe('IV. Legacy');
+    expect(numberer.question('IV.2 Legacy question')).toBe('IV.2 Legacy question');
+  });
+});
+
+describe('isNumbered and stripNumbering with a scheme', () => {
+  it('recognise the scheme\'s prefixes as well as the default ones', () => {
+    const roman = NUMBERING_PRESETS.roman;
+    expect(isNumbered('XII. Closing', roman)).toBe(true);
+    expect(isNumbered('XII. Closing')).toBe(false);
+    expect(stripNumbering('XII.3 Anything else?', roman)).toBe('Anything else?');
+    expect(stripNumbering('Q 1.2 \u2014 Name', roman)).toBe('Name');
+    expect(stripNumbering('Vision', roman)).toBe('Vision');
+  });
+});
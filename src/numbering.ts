@@ -1,13 +1,243 @@
 // Regex to detect titles that already have numbering
 export const ALREADY_NUMBERED_RE = /^(Section\s+\d|Q\s+\d|\d+[\.\)]\s)/i;
 
-export function numberTitle(prefix: string, title: string): string {
-  if (ALREADY_NUMBERED_RE.test(title)) {
+// Regex matching the numbering prefix itself, including its separator
+const NUMBERING_PREFIX_RE = /^(?:(?:Section|Q)\s+\d+(?:\.\d+)*\s*[\u2014\u2013-]\s*|\d+[\.\)]\s+)/i;
+
+// --- Schemes ---------------------------------------------------------------
+
+export type Counter = 'section' | 'subsection' | 'question';
+export type CounterStyle = 'decimal' | 'lower-alpha' | 'upper-alpha' | 'lower-roman' | 'upper-roman';
+export const COUNTER_STYLES: CounterStyle[] = ['decimal', 'lower-alpha', 'upper-alpha', 'lower-roman', 'upper-roman'];
+// When the question counter starts again at 1
+export type RestartMode = 'page' | 'subsection' | 'never';
+export const RESTART_MODES: RestartMode[] = ['page', 'subsection', 'never'];
+
+/**
+ * How titles are numbered. Templates hold {section}, {subsection} and
+ * {question} counters; an empty template leaves those titles unnumbered.
+ * In a form without pages or sections, {section} and the punctuation after
+ * it are left out of question prefixes.
+ */
+export interface NumberingScheme {
+  section: string;
+  // For `type: title` headers within a page; unnumbered when absent
+  subsection?: string;
+  question: string;
+  style: Record<Counter, CounterStyle>;
+  restart: RestartMode;
+}
+
+// The YAML `numbering` mapping: a preset, with any part of it replaced
+export interface NumberingConfig {
+  preset?: string;
+  section?: string;
+  subsection?: string;
+  question?: string;
+  style?: Partial<Record<Counter, CounterStyle>>;
+  restart?: RestartMode | boolean;
+}
+
+export const NUMBERING_KEYS = ['preset', 'section', 'subsection', 'question', 'style', 'restart'];
+export const TEMPLATE_TOKENS: Counter[] = ['section', 'subsection', 'question'];
+
+const DECIMAL: Record<Counter, CounterStyle> = { section: 'decimal', subsection: 'decimal', question: 'decimal' };
+
+export const NUMBERING_PRESETS: Record<string, NumberingScheme> = {
+  // Section 2 — / Q 2.3 —
+  default: { section: 'Section {section} \u2014 ', question: 'Q {section}.{question} \u2014 ', style: DECIMAL, restart: 'page' },
+  // 2. / 2.3.
+  outline: { section: '{section}. ', question: '{section}.{question}. ', style: DECIMAL, restart: 'page' },
+  // B. / B.3
+  alpha: {
+    section: '{section}. ',
+    question: '{section}.{question} ',
+    style: { ...DECIMAL, section: 'upper-alpha' },
+    restart: 'page',
+  },
+  // II. / II.3
+  roman: {
+    section: '{section}. ',
+    question: '{section}.{question} ',
+    style: { ...DECIMAL, section: 'upper-roman' },
+    restart: 'page',
+  },
+  // Unnumbered sections, questions 1. to n. across the whole form
+  plain: { section: '', question: '{question}. ', style: DECIMAL, restart: 'never' },
+};
+
+export const DEFAULT_NUMBERING = NUMBERING_PRESETS.default;
+
+/**
+ * The scheme for a form's `numbering` setting (or a --numbering preset):
+ * undefined when numbering is off. Unknown presets throw.
+ */
+export function resolveNumbering(config: boolean | string | NumberingConfig | undefined): NumberingScheme | undefined {
+  if (config === false) return undefined;
+  if (config === undefined || config === true) return DEFAULT_NUMBERING;
+  const { preset = 'default', style, restart, ...templates } = typeof config === 'string' ? { preset: config } : config;
+  const base = NUMBERING_PRESETS[preset];
+  if (!base) {
+    throw new Error(`Unknown numbering preset "${preset}" (expected ${Object.keys(NUMBERING_PRESETS).join(', ')})`);
+  }
+  return {
+    ...base,
+    ...templates,
+    style: { ...base.style, ...style },
+    restart: restart === true ? 'page' : restart === false ? 'never' : restart || base.restart,
+  };
+}
+
+const ROMAN: [number, string][] = [
+  [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+  [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+];
+
+export function formatCounter(n: number, style: CounterStyle): string {
+  switch (style) {
+    case 'decimal':
+      return String(n);
+    case 'lower-alpha':
+    case 'upper-alpha': {
+      // 1 = A, 26 = Z, 27 = AA
+      let letters = '';
+      for (let rest = n; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((rest - 1) % 26)) + letters;
+      }
+      return style === 'lower-alpha' ? letters.toLowerCase() : letters;
+    }
+    case 'lower-roman':
+    case 'upper-roman': {
+      let rest = n;
+      let numeral = '';
+      for (const [value, symbol] of ROMAN) {
+        for (; rest >= value; rest -= value) numeral += symbol;
+      }
+      return style === 'lower-roman' ? numeral.toLowerCase() : numeral;
+    }
+  }
+}
+
+const COUNTER_PATTERNS: Record<CounterStyle, string> = {
+  decimal: '\\d+',
+  'lower-alpha': '[a-z]{1,2}',
+  'upper-alpha': '[A-Z]{1,2}',
+  'lower-roman': '[ivxlcdm]+',
+  'upper-roman': '[IVXLCDM]+',
+};
+
+const TOKEN_RE = /(\{(?:section|subsection|question)\})/;
+
+const withoutSection = (template: string) => template.replace(/\{section\}[.\-:/]?/g, '');
+
+function fillTemplate(template: string, counters: Record<Counter, number>, style: Record<Counter, CounterStyle>): string {
+  return template.replace(/\{(section|subsection|question)\}/g, (_, counter: Counter) =>
+    formatCounter(counters[counter], style[counter])
+  );
+}
+
+// Matches a prefix the template produced: the counters in their style, any
+// kind of dash for a dash, and any run of whitespace for whitespace
+function templateRegExp(template: string, style: Record<Counter, CounterStyle>): RegExp | undefined {
+  if (!template.trim()) return undefined;
+  const parts = template.split(TOKEN_RE);
+  const source = parts.map((part, i) => {
+    const token = /^\{(\w+)\}$/.exec(part);
+    if (token) return COUNTER_PATTERNS[style[token[1] as Counter]];
+    const trailing = i === parts.length - 1;
+    return part
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/[\u2014\u2013-]/g, '[\u2014\u2013-]')
+      .replace(/\s+$/, trailing ? '\\s+' : '\\s*')
+      .replace(/\s+/g, '\\s*');
+  });
+  return new RegExp(`^${source.join('')}`);
+}
+
+const schemePatterns = new WeakMap<NumberingScheme, RegExp[]>();
+
+function patternsOf(scheme: NumberingScheme): RegExp[] {
+  let patterns = schemePatterns.get(scheme);
+  if (!patterns) {
+    const { section, subsection = '', question, style } = scheme;
+    patterns = [section, subsection, question, withoutSection(question)]
+      .map((template) => templateRegExp(template, style))
+      .filter((re): re is RegExp => !!re);
+    schemePatterns.set(scheme, patterns);
+  }
+  return patterns;
+}
+
+/**
+ * Whether a title already starts with a number: in the default style, as
+ * "1." or "2)", or as `scheme` would number it.
+ */
+export function isNumbered(title: string, scheme?: NumberingScheme): boolean {
+  return ALREADY_NUMBERED_RE.test(title) || (!!scheme && patternsOf(scheme).some((re) => re.test(title)));
+}
+
+/**
+ * Remove a leading numbering prefix such as "Section 2 — " or "Q 1.3 — ",
+ * or one that `scheme` produces. Titles without one are returned unchanged.
+ */
+export function stripNumbering(title: string, scheme?: NumberingScheme): string {
+  for (const re of scheme ? patternsOf(scheme) : []) {
+    const match = re.exec(title);
+    if (match) return title.slice(match[0].length);
+  }
+  return title.replace(NUMBERING_PREFIX_RE, '');
+}
+
+export function numberTitle(prefix: string, title: string, scheme?: NumberingScheme): string {
+  if (isNumbered(title, scheme)) {
     return title;
   }
   return `${prefix}${title}`;
 }
 
+/**
+ * Numbers the titles of one form in order, keeping the counters: call
+ * section() for each page or section, subsection() for each header within
+ * one, and question() for each question.
+ */
+export class Numberer {
+  private counters: Record<Counter, number> = { section: 0, subsection: 0, question: 0 };
+
+  // `flat`: the form has no pages or sections
+  constructor(
+    private readonly scheme: NumberingScheme = DEFAULT_NUMBERING,
+    private readonly flat = false
+  ) {}
+
+  private number(template: string, title: string): string {
+    if (!template) return title;
+    return numberTitle(fillTemplate(template, this.counters, this.scheme.style), title, this.scheme);
+  }
+
+  section(title: string): string {
+    this.counters.section++;
+    this.counters.subsection = 0;
+    if (this.scheme.restart !== 'never') this.counters.question = 0;
+    return this.number(this.scheme.section, title);
+  }
+
+  subsection(title: string): string {
+    if (!this.scheme.subsection) return title;
+    this.counters.subsection++;
+    if (this.scheme.restart === 'subsection') this.counters.question = 0;
+    return this.number(this.scheme.subsection, title);
+  }
+
+  question(title: string): string {
+    this.counters.question++;
+    const template = this.flat ? withoutSection(this.scheme.question) : this.scheme.question;
+    return this.number(template, title);
+  }
+}
+
+// Item types that are not questions and so take no number
+export const UNNUMBERED_TYPES = ['title', 'image', 'video'];
+
 export interface NumberableQuestion {
   type: string;
   title: string;
@@ -24,11 +254,12 @@ export interface NumberableSection {
  */
 export function numberSections(
   sections: NumberableSection[],
+  scheme?: NumberingScheme,
 ): { sectionTitle: string; questions: string[] }[] {
-  return sections.map((section, i) => {
-    const sectionNum = i + 1;
-    const sectionTitle = numberTitle(`Section ${sectionNum} \u2014 `, section.title);
-    const questions = numberQuestions(section.questions, sectionNum);
+  const numberer = new Numberer(scheme);
+  return sections.map((section) => {
+    const sectionTitle = numberer.section(section.title);
+    const questions = numberQuestions(section.questions, numberer);
     return { sectionTitle, questions };
   });
 }
@@ -36,21 +267,18 @@ export function numberSections(
 /**
  * Apply auto-numbering to a flat list of questions (no section prefix).
  */
-export function numberFlatQuestions(questions: NumberableQuestion[]): string[] {
-  return numberQuestions(questions, undefined);
+export function numberFlatQuestions(questions: NumberableQuestion[], scheme?: NumberingScheme): string[] {
+  return numberQuestions(questions, new Numberer(scheme, true));
 }
 
-function numberQuestions(questions: NumberableQuestion[], sectionIndex?: number): string[] {
-  let questionIndex = 1;
+function numberQuestions(questions: NumberableQuestion[], numberer: Numberer): string[] {
   return questions.map((q) => {
     if (q.type === 'title') {
-      return q.title; // title items are not numbered
+      return numberer.subsection(q.title);
+    }
+    if (UNNUMBERED_TYPES.includes(q.type)) {
+      return q.title; // media items are not numbered
     }
-    const prefix = sectionIndex != null
-      ? `Q ${sectionIndex}.${questionIndex} \u2014 `
-      : `Q ${questionIndex} \u2014 `;
-    const result = numberTitle(prefix, q.title);
-    questionIndex++;
-    return result;
+    return numberer.question(q.title);
   });
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandYamlPaths, globToRegExp } from './paths';
+
+describe('globToRegExp', () => {
+  it('keeps * within a segment and lets ** span directories', () => {
+    expect(globToRegExp('forms/*.yaml').test('forms/a.yaml')).toBe(true);
+    expect(globToRegExp('forms/*.yaml').test('forms/sub/a.yaml')).toBe(false);
+    expect(globToRegExp('forms/**/*.yaml').test('forms/a.yaml')).toBe(true);
+    expect(globToRegExp('forms/**/*.yaml').test('forms/x/y/a.yaml')).toBe(true);
+  });
+
+  it('supports ?, braces and character classes, and escapes the rest', () => {
+    expect(globToRegExp('q?.{yaml,yml}').test('q1.yml')).toBe(true);
+    expect(globToRegExp('q[0-9].yaml').test('q7.yaml')).toBe(true);
+    expect(globToRegExp('q[!0-9].yaml').test('q7.yaml')).toBe(false);
+    expect(globToRegExp('a.yaml').test('abyaml')).toBe(false);
+  });
+});
+
+describe('expandYamlPaths', () => {
+  let dir: string;
+  const touch = (rel: string) => {
+    const file = path.join(dir, rel);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, 'title: x\n');
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gform-paths-'));
+    touch('b.yaml');
+    touch('a.yml');
+    touch('notes.md');
+    touch('sub/c.yaml');
+    touch('node_modules/pkg/d.yaml');
+    touch('.hidden/e.yaml');
+    touch('_partials/contact.yaml');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('searches directories recursively for YAML, skipping hidden, partials and dependency folders', () => {
+    const result = expandYamlPaths([dir]);
+    expect(result.files.map((f) => path.relative(dir, f))).toEqual(['a.yml', 'b.yaml', path.join('sub', 'c.yaml')]);
+    expect(result.expanded).toBe(true);
+  });
+
+  it('matches globs and drops duplicates', () => {
+    const result = expandYamlPaths([path.join(dir, '*.yaml'), path.join(dir, '**/*.yaml')]);
+    expect(result.files.map((f) => path.relative(dir, f))).toEqual(['b.yaml', path.join('sub', 'c.yaml')]);
+  });
+
+  it('still takes partials named directly', () => {
+    const partials = path.join(dir, '_partials');
+    expect(expandYamlPaths([partials]).files).toEqual([path.join(partials, 'contact.yaml')]);
+    expect(expandYamlPaths([path.join(partials, 'contact.yaml')]).files).toEqual([path.join(partials, 'contact.yaml')]);
+  });
+
+  it('takes a named file as is and reports what matched nothing', () => {
+    const result = expandYamlPaths([path.join(dir, 'notes.md'), path.join(dir, 'missing.yaml'), path.join(dir, 'x/*.yaml')]);
+    expect(result.files).toEqual([path.join(dir, 'notes.md')]);
+    expect(result.unmatched).toEqual([path.join(dir, 'missing.yaml'), path.join(dir, 'x/*.yaml')]);
+    expect(result.expanded).toBe(true);
+  });
+});
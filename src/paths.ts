@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Turn the paths given on the command line into YAML files: files as they
+// are, directories searched recursively, and glob patterns matched here so
+// they work the same when quoted or on shells that do not expand them.
+
+const YAML_RE = /\.ya?ml$/i;
+const GLOB_CHARS = /[*?[{]/;
+// Never worth searching for form YAML
+const SKIPPED_DIRS = new Set(['node_modules', 'dist']);
+// Directories named like _partials hold includes, libraries and translation
+// catalogs: YAML that forms pull in, but that is not a form itself
+const PARTIALS_PREFIX = '_';
+
+export interface ExpandedPaths {
+  files: string[];
+  // Patterns and paths that matched no YAML file
+  unmatched: string[];
+  // A directory or glob was given, so the number of files was not fixed in advance
+  expanded: boolean;
+}
+
+/**
+ * A regex for a glob: `*` and `?` stay within one path segment, `**` spans
+ * any number of them, `{a,b}` matches either and `[...]` is a character class.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end < 0) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (c === '{') {
+      braces++;
+      source += '(?:';
+    } else if (c === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (c === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += c.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walk(dir: string, out: string[]): void {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name)) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith(PARTIALS_PREFIX)) continue;
+      walk(full, out);
+    } else if (entry.isFile()) {
+      out.push(full);
+    }
+  }
+}
+
+function matchGlob(pattern: string): string[] {
+  const posix = pattern.split(path.sep).join('/');
+  // Search from the last directory before the first wildcard
+  const segments = posix.split('/');
+  const firstGlob = segments.findIndex((s) => GLOB_CHARS.test(s));
+  const base = segments.slice(0, firstGlob).join('/') || (posix.startsWith('/') ? '/' : '.');
+  if (!fs.existsSync(base) || !fs.statSync(base).isDirectory()) {
+    return [];
+  }
+
+  const regex = globToRegExp(path.posix.normalize(posix));
+  const found: string[] = [];
+  walk(base, found);
+  return found.filter((file) => regex.test(path.posix.normalize(file.split(path.sep).join('/'))));
+}
+
+export function expandYamlPaths(inputs: string[]): ExpandedPaths {
+  const files: string[] = [];
+  const unmatched: string[] = [];
+  let expanded = false;
+
+  for (const input of inputs) {
+    let matches: string[];
+    if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+      expanded = true;
+      matches = [];
+      walk(input, matches);
+      matches = matches.filter((file) => YAML_RE.test(file)).sort();
+    } else if (fs.existsSync(input)) {
+      // Named explicitly, so taken whatever its extension
+      matches = [input];
+    } else if (GLOB_CHARS.test(input)) {
+      expanded = true;
+      matches = matchGlob(input).filter((file) => YAML_RE.test(file)).sort();
+    } else {
+      matches = [];
+    }
+
+    if (matches.length === 0) {
+      unmatched.push(input);
+    }
+    files.push(...matches);
+  }
+
+  // The same file reached through two patterns is generated once
+  const seen = new Set<string>();
+  return {
+    files: files.filter((file) => {
+      const resolved = path.resolve(file);
+      return seen.has(resolved) ? false : (seen.add(resolved), true);
+    }),
+    unmatched,
+    expanded,
+  };
+}
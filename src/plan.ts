@@ -0,0 +1,125 @@
+import GoogleFormsGenerator, { FormConfig, UpdateOptions, hasBranching } from './index';
+import { forms_v1 } from 'googleapis';
+import { ItemChange, itemKind, summarizeChanges } from './reconcile';
+
+// Offline preview of what generate would send to the Forms API
+
+export interface FormPlan {
+  action: 'create' | 'update';
+  formId?: string;
+  title: string;
+  // Omitted for an update with no snapshot to diff against
+  requests?: forms_v1.Schema$Request[];
+  changes?: ItemChange[];
+  unchanged?: number;
+  branching: number;   // Questions patched with updateItem once item IDs are known
+  itemCount: number;
+}
+
+/**
+ * Build the plan for creating a form, or for updating `formId`. An update is
+ * diffed against `snapshot`, the form as it was last seen; without one, only
+ * the desired items are known.
+ */
+export function buildPlan(
+  config: FormConfig,
+  target: { formId?: string; snapshot?: forms_v1.Schema$Form } & UpdateOptions = {}
+): FormPlan {
+  const generator = new GoogleFormsGenerator();
+  const items = config.items || config.questions || [];
+  const branching = items.filter(hasBranching).length;
+
+  if (!target.formId) {
+    const plan = generator.planCreate(config);
+    return { action: 'create', title: plan.title, requests: plan.requests, branching, itemCount: items.length };
+  }
+
+  const base = { action: 'update' as const, formId: target.formId, title: config.title, branching, itemCount: items.length };
+  if (!target.snapshot) {
+    return base;
+  }
+  const plan = generator.planUpdate(target.snapshot, config, target);
+  return { ...base, requests: plan.requests, changes: plan.changes, unchanged: plan.unchanged };
+}
+
+function kindLabel(item: forms_v1.Schema$Item | undefined): string {
+  return item ? itemKind(item).replace(/^question:/, '') : 'item';
+}
+
+export function describeRequest(request: forms_v1.Schema$Request): string {
+  if (request.createItem) {
+    const { item, location } = request.createItem;
+    return `createItem      [${location?.index}] ${kindLabel(item)} "${item?.title || ''}"`;
+  }
+  if (request.deleteItem) {
+    return `deleteItem      [${request.deleteItem.location?.index}]`;
+  }
+  if (request.moveItem) {
+    const { originalLocation, newLocation } = request.moveItem;
+    return `moveItem        [${originalLocation?.index}] -> [${newLocation?.index}]`;
+  }
+  if (request.updateItem) {
+    const { item, location, updateMask } = request.updateItem;
+    return `updateItem      [${location?.index}] "${item?.title || ''}" (${updateMask})`;
+  }
+  if (request.updateFormInfo) {
+    return `updateFormInfo  (${request.updateFormInfo.updateMask})`;
+  }
+  if (request.updateSettings) {
+    return `updateSettings  (${request.updateSettings.updateMask})`;
+  }
+  return Object.keys(request).join(', ');
+}
+
+const CHANGE_MARKS: Record<ItemChange['action'], string> = {
+  create: '+',
+  delete: '-',
+  move: '>',
+  update: '~',
+};
+
+// One item change, e.g. `~ [3] "Q 1.2 — Team" (title)`
+export function formatChange(change: ItemChange): string {
+  const fields = change.fields ? ` (${change.fields.join(', ')})` : '';
+  return `${CHANGE_MARKS[change.action]} [${change.index}] "${change.title}"${fields}`;
+}
+
+/**
+ * Readable summary of a plan, one request per line.
+ */
+export function formatPlan(plan: FormPlan, snapshotNote?: string): string {
+  const lines: string[] = [];
+
+  if (plan.action === 'create') {
+    lines.push(`Plan: create form "${plan.title}" with ${plan.itemCount} items`);
+    lines.push(`  forms.create    title "${plan.title}"`);
+  } else {
+    lines.push(`Plan: update form "${plan.title}" (${plan.formId}) to ${plan.itemCount} items`);
+    if (snapshotNote) {
+      lines.push(`  Diffed against ${snapshotNote}`);
+    }
+  }
+
+  if (plan.changes) {
+    lines.push(`  Changes: ${summarizeChanges({ changes: plan.changes, unchanged: plan.unchanged ?? 0 })}`);
+    for (const change of plan.changes) {
+      lines.push(`    ${formatChange(change)}`);
+    }
+  }
+
+  if (plan.requests) {
+    lines.push(`  batchUpdate     ${plan.requests.length} request(s)`);
+    for (const request of plan.requests) {
+      lines.push(`    ${describeRequest(request)}`);
+    }
+  } else {
+    lines.push('  No snapshot of this form is cached, so the item diff is only known once the');
+    lines.push('  live form is fetched. Pass --snapshot <file> to diff against a saved copy.');
+  }
+
+  if (plan.branching > 0) {
+    lines.push(`  Then ${plan.branching} branching question(s) are patched with updateItem once item IDs are known`);
+  }
+
+  return lines.join('\n');
+}
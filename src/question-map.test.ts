@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { forms_v1 } from 'googleapis';
+import { buildResponseTable } from './response-export';
+import { formatFlag, loadQuestionMap, migrateResponses, recordQuestions } from './question-map';
+
+const text = (itemId: string, title: string, questionId: string): forms_v1.Schema$Item => ({
+  itemId,
+  title,
+  questionItem: { question: { questionId, textQuestion: {} } },
+});
+
+const form = (items: forms_v1.Schema$Item[]): forms_v1.Schema$Form => ({ formId: 'form-1', info: { title: 'Survey' }, items });
+
+const answer = (value: string) => ({ textAnswers: { answers: [{ value }] } });
+
+describe('question map', () => {
+  let dir: string;
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = process.cwd();
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gform-questions-')));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const before = form([
+    text('i1', 'Q 1 — Name', 'q-name'),
+    text('i2', 'Q 2 — Email', 'q-email'),
+    text('i3', 'Q 3 — Role', 'q-role'),
+    text('i4', 'Q 4 — Team', 'q-team'),
+  ]);
+  // Name renamed in place, Email removed, Role recreated, Team recreated under a new title but the same key
+  const after = form([
+    text('i1', 'Q 1 — Full name', 'q-name'),
+    text('i5', 'Q 2 — Role', 'q-role-2'),
+    text('i6', 'Q 3 — Squad', 'q-team-2'),
+  ]);
+
+  it('follows questions through new IDs by key, then by title', () => {
+    recordQuestions(before, { team: 'i4' });
+    recordQuestions(after, { team: 'i6' }, new Date('2024-06-01T00:00:00Z'));
+
+    const map = loadQuestionMap('form-1')!;
+    expect(map.questions.map((q) => [q.title, q.questionIds, q.formerTitles, q.removed])).toEqual([
+      ['Full name', ['q-name'], ['Name'], undefined],
+      ['Email', ['q-email'], undefined, '2024-06-01T00:00:00.000Z'],
+      ['Role', ['q-role', 'q-role-2'], undefined, undefined],
+      ['Squad', ['q-team', 'q-team-2'], ['Team'], undefined],
+    ]);
+
+    // Adding Email back, as a new question, picks up its old answers again
+    recordQuestions(form([...after.items!, text('i7', 'Email', 'q-email-2')]), { team: 'i6' });
+    expect(loadQuestionMap('form-1')!.questions[1]).toMatchObject({ questionIds: ['q-email', 'q-email-2'] });
+    expect(loadQuestionMap('form-1')!.questions[1].removed).toBeUndefined();
+  });
+
+  it('merges answers from every revision into the current columns', () => {
+    const responses: forms_v1.Schema$FormResponse[] = [
+      { responseId: 'r1', answers: { 'q-name': answer('Ada'), 'q-email': answer('ada@x.org'), 'q-role': answer('Dev'), 'q-team': answer('Blue') } },
+      { responseId: 'r2', answers: { 'q-name': answer('Bob'), 'q-role-2': answer('PM'), 'q-team-2': answer('Red') } },
+    ];
+    expect(migrateResponses(after, responses, undefined).responses).toBe(responses);
+
+    recordQuestions(before, { team: 'i4' });
+    const migrated = migrateResponses(after, responses, recordQuestions(after, { team: 'i6' }));
+    const table = buildResponseTable(migrated.form, migrated.responses);
+    expect(table.headers.slice(4)).toEqual(['Q 1 — Full name', 'Q 2 — Role', 'Q 3 — Squad', 'Q 2 — Email (removed)']);
+    expect(table.rows.map((row) => row.slice(4))).toEqual([
+      ['Ada', 'Dev', 'Blue', 'ada@x.org'],
+      ['Bob', 'PM', 'Red', null],
+    ]);
+    expect(migrated.flags.map(formatFlag)).toEqual([
+      '"Full name" was renamed from "Name"; its 2 answer(s) are merged under the new title',
+      '"Email" was removed from the form; its 1 answer(s) are kept under "(removed)"',
+      '"Squad" was renamed from "Team"; its 2 answer(s) are merged under the new title',
+    ]);
+  });
+});
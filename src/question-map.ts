@@ -0,0 +1,197 @@
+import { forms_v1 } from 'googleapis';
+import * as fs from 'fs';
+import * as path from 'path';
+import { stripNumbering } from './numbering';
+
+// Which question IDs a form's questions have had over time. Changing a
+// question's type, or removing a question and adding it back, gives it a new
+// question ID, and responses keep the ID that was current when they were
+// submitted. The map, saved to .gform/questions/<formId>.json around every
+// update, lets exports and reports put those answers back together.
+
+export interface LogicalQuestion {
+  // The item's YAML key, when it had one; grid rows add " [Row]"
+  key?: string;
+  // As last seen, without numbering; grid rows are "Grid [Row]"
+  title: string;
+  // Earlier titles, oldest first
+  formerTitles?: string[];
+  // Every question ID it has had, oldest first; the last is the current one
+  questionIds: string[];
+  // When it was first seen missing from the form
+  removed?: string;
+  // The item as last seen, reduced to this question, to give removed questions a column
+  item: forms_v1.Schema$Item;
+}
+
+export interface QuestionMap {
+  formId: string;
+  questions: LogicalQuestion[];
+}
+
+interface FormQuestion {
+  questionId: string;
+  key?: string;
+  title: string;
+  item: forms_v1.Schema$Item;
+}
+
+export function questionMapPath(formId: string, root = process.cwd()): string {
+  return path.join(root, '.gform', 'questions', `${formId}.json`);
+}
+
+export function loadQuestionMap(formId: string): QuestionMap | undefined {
+  const file = questionMapPath(formId);
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as QuestionMap) : undefined;
+}
+
+// Every question of the form, grid rows included, with the key its item is tracked under
+function formQuestions(form: forms_v1.Schema$Form, itemKeys: Record<string, string>): FormQuestion[] {
+  const keys = new Map(Object.entries(itemKeys).map(([key, itemId]) => [itemId, key]));
+  const questions: FormQuestion[] = [];
+  for (const item of form.items || []) {
+    const title = stripNumbering(item.title || '');
+    const key = item.itemId ? keys.get(item.itemId) : undefined;
+    const questionId = item.questionItem?.question?.questionId;
+    if (questionId) {
+      questions.push({ questionId, key, title, item });
+    }
+    const group = item.questionGroupItem;
+    for (const row of group?.questions || []) {
+      if (!row.questionId) continue;
+      const rowTitle = row.rowQuestion?.title || '';
+      questions.push({
+        questionId: row.questionId,
+        key: key && `${key} [${rowTitle}]`,
+        title: `${title} [${rowTitle}]`,
+        item: { ...item, questionGroupItem: { ...group, questions: [row] } },
+      });
+    }
+  }
+  return questions;
+}
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Add the form's questions as they are now to its map: a question ID already
+ * known stays with its question; a new one joins the question with the same
+ * key, or else one no longer in the form with the same title; anything else
+ * is a new question. Known questions missing from the form are marked
+ * removed. Returns the updated map.
+ */
+export function recordQuestions(
+  form: forms_v1.Schema$Form,
+  itemKeys: Record<string, string> = {},
+  now = new Date()
+): QuestionMap {
+  if (!form.formId) {
+    throw new Error('Cannot record the questions of a form without a formId');
+  }
+  const map = loadQuestionMap(form.formId) || { formId: form.formId, questions: [] };
+  const current = formQuestions(form, itemKeys);
+  const present = new Set(current.map((q) => q.questionId));
+  const known = new Map(map.questions.flatMap((l) => l.questionIds.map((id) => [id, l] as const)));
+  const seen = new Set<LogicalQuestion>();
+  const gone = (l: LogicalQuestion) => !seen.has(l) && !l.questionIds.some((id) => present.has(id));
+
+  for (const question of current) {
+    let logical =
+      known.get(question.questionId) ||
+      (question.key ? map.questions.find((l) => l.key === question.key && gone(l)) : undefined) ||
+      map.questions.find(
+        (l) => gone(l) && sameTitle(l.title, question.title) && !(l.key && question.key && l.key !== question.key)
+      );
+    if (!logical) {
+      logical = { title: question.title, questionIds: [], item: question.item };
+      map.questions.push(logical);
+    }
+    seen.add(logical);
+    if (!logical.questionIds.includes(question.questionId)) {
+      logical.questionIds.push(question.questionId);
+    }
+    if (logical.title !== question.title) {
+      logical.formerTitles = [...(logical.formerTitles || []).filter((t) => t !== question.title), logical.title];
+      logical.title = question.title;
+    }
+    if (question.key) logical.key = question.key;
+    logical.item = question.item;
+    delete logical.removed;
+  }
+  for (const logical of map.questions) {
+    if (!seen.has(logical) && !logical.removed) logical.removed = now.toISOString();
+  }
+
+  const file = questionMapPath(form.formId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(map, null, 2));
+  return map;
+}
+
+export interface QuestionFlag {
+  change: 'renamed' | 'removed';
+  title: string;
+  formerTitles: string[];
+  // Responses that answered it, under any of its question IDs
+  answers: number;
+}
+
+export interface MigratedResponses {
+  // The form, plus an item titled "... (removed)" for each removed question someone answered
+  form: forms_v1.Schema$Form;
+  // Answers under earlier question IDs moved to the current one
+  responses: forms_v1.Schema$FormResponse[];
+  flags: QuestionFlag[];
+}
+
+/**
+ * Responses to every revision of a form, as answers to the form as it is
+ * now. Without a map (nothing recorded yet), they are returned as they are.
+ */
+export function migrateResponses(
+  form: forms_v1.Schema$Form,
+  responses: forms_v1.Schema$FormResponse[],
+  map: QuestionMap | undefined
+): MigratedResponses {
+  if (!map) return { form, responses, flags: [] };
+
+  const latest = new Map(map.questions.flatMap((l) => l.questionIds.map((id) => [id, l.questionIds.at(-1)!] as const)));
+  const migrated = responses.map((response) => {
+    const answers: Record<string, forms_v1.Schema$Answer> = {};
+    for (const [questionId, answer] of Object.entries(response.answers || {})) {
+      const id = latest.get(questionId) || questionId;
+      // Answered under the current ID as well (only if the form was edited oddly): that one wins
+      if (!answers[id] || questionId === id) answers[id] = { ...answer, questionId: id };
+    }
+    return { ...response, answers };
+  });
+
+  const inForm = new Set(formQuestions(form, {}).map((q) => q.questionId));
+  const extra: forms_v1.Schema$Item[] = [];
+  const flags: QuestionFlag[] = [];
+  for (const logical of map.questions) {
+    const id = logical.questionIds.at(-1)!;
+    const answers = migrated.filter((r) => r.answers[id]).length;
+    const formerTitles = logical.formerTitles || [];
+    if (!inForm.has(id)) {
+      if (answers === 0) continue;
+      extra.push({ ...logical.item, title: `${logical.item.title || ''} (removed)` });
+      flags.push({ change: 'removed', title: logical.title, formerTitles, answers });
+    } else if (formerTitles.length > 0 && answers > 0) {
+      flags.push({ change: 'renamed', title: logical.title, formerTitles, answers });
+    }
+  }
+
+  return {
+    form: extra.length > 0 ? { ...form, items: [...(form.items || []), ...extra] } : form,
+    responses: migrated,
+    flags,
+  };
+}
+
+export function formatFlag(flag: QuestionFlag): string {
+  const was = flag.formerTitles.map((t) => `"${t}"`).join(', ');
+  return flag.change === 'removed'
+    ? `"${flag.title}" was removed from the form; its ${flag.answers} answer(s) are kept under "(removed)"`
+    : `"${flag.title}" was renamed from ${was}; its ${flag.answers} answer(s) are merged under the new title`;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { forms_v1 } from 'googleapis';
+import { reconcileItems, summarizeChanges, itemKind } from './reconcile';
+
+const text = (title: string, itemId?: string): forms_v1.Schema$Item => ({
+  itemId,
+  title,
+  questionItem: {
+    question: {
+      questionId: itemId ? `q-${itemId}` : undefined,
+      required: false,
+      textQuestion: { paragraph: false },
+    },
+  },
+});
+
+const pageBreak = (title: string, itemId?: string): forms_v1.Schema$Item => ({
+  itemId,
+  title,
+  pageBreakItem: {},
+});
+
+/** Replay requests against a list of titles, the way the API applies them. */
+function apply(live: forms_v1.Schema$Item[], requests: forms_v1.Schema$Request[]): string[] {
+  const items = live.map((i) => i.itemId || i.title || '');
+  for (const r of requests) {
+    if (r.deleteItem) items.splice(r.deleteItem.location!.index!, 1);
+    if (r.moveItem) {
+      const [moved] = items.splice(r.moveItem.originalLocation!.index!, 1);
+      items.splice(r.moveItem.newLocation!.index!, 0, moved);
+    }
+    if (r.createItem) items.splice(r.createItem.location!.index!, 0, r.createItem.item!.title!);
+  }
+  return items;
+}
+
+describe('itemKind', () => {
+  it('distinguishes question kinds and page breaks', () => {
+    expect(itemKind(text('A'))).toBe('question:textQuestion');
+    expect(itemKind(pageBreak('P'))).toBe('pageBreakItem');
+  });
+});
+
+describe('reconcileItems', () => {
+  it('sends nothing when the form already matches', () => {
+    const live = [text('Your name', 'a'), text('Your email', 'b')];
+    const result = reconcileItems(live, [{ item: text('Your name') }, { item: text('Your email') }]);
+
+    expect(result.requests).toEqual([]);
+    expect(result.unchanged).toBe(2);
+    expect(result.matched.map((m) => m?.itemId)).toEqual(['a', 'b']);
+  });
+
+  it('matches titles regardless of numbering prefixes', () => {
+    const live = [text('Q 1 — Your name', 'a')];
+    const result = reconcileItems(live, [{ item: text('Q 2 — Your name') }]);
+
+    expect(result.matched[0]?.itemId).toBe('a');
+    expect(result.changes).toEqual([
+      { action: 'update', title: 'Q 2 — Your name', index: 0, itemId: 'a', fields: ['title'] },
+    ]);
+  });
+
+  it('keeps question IDs on updates', () => {
+    const live = [text('Your name', 'a')];
+    const desired = text('Your name');
+    desired.description = 'First and last';
+    const [request] = reconcileItems(live, [{ item: desired }]).requests;
+
+    expect(request.updateItem?.updateMask).toBe('description');
+    expect(request.updateItem?.item?.itemId).toBe('a');
+    expect(request.updateItem?.item?.questionItem?.question?.questionId).toBe('q-a');
+  });
+
+  it('creates, deletes and reorders with the fewest requests', () => {
+    const live = [text('A', 'a'), text('B', 'b'), text('C', 'c'), text('D', 'd')];
+    const desired = ['D', 'A', 'New', 'C'].map((t) => ({ item: text(t) }));
+    const result = reconcileItems(live, desired);
+
+    expect(apply(live, result.requests)).toEqual(['d', 'a', 'New', 'c']);
+    expect(result.changes.map((c) => c.action)).toEqual(['delete', 'move', 'create']);
+    expect(summarizeChanges(result)).toBe('1 created, 1 deleted, 1 moved, 3 unchanged');
+  });
+
+  it('matches by key through a previous key map, even after a rename', () => {
+    const live = [text('Old title', 'a'), text('Other', 'b')];
+    const result = reconcileItems(
+      live,
+      [{ item: text('Other') }, { item: text('New title'), key: 'intro' }],
+      { intro: 'a' }
+    );
+
+    expect(result.matched.map((m) => m?.itemId)).toEqual(['b', 'a']);
+    expect(apply(live, result.requests)).toEqual(['b', 'a']);
+  });
+
+  it('sends the options again when branching is removed, but not while it stays', () => {
+    const choice = (goTo?: forms_v1.Schema$Option): forms_v1.Schema$Item => ({
+      title: 'Remote?',
+      questionItem: {
+        question: { choiceQuestion: { type: 'RADIO', options: [{ value: 'Yes', ...goTo }, { value: 'No' }] } },
+      },
+    });
+    const live = [{ ...choice({ goToSectionId: 'p2' }), itemId: 'a' }];
+
+    expect(reconcileItems(live, [{ item: choice(), branches: true }]).requests).toEqual([]);
+    const result = reconcileItems(live, [{ item: choice() }]);
+    expect(result.changes).toEqual([{ action: 'update', title: 'Remote?', index: 0, itemId: 'a', fields: ['questionItem'] }]);
+    expect(result.requests[0].updateItem?.item?.questionItem?.question?.choiceQuestion?.options?.[0]).toEqual({ value: 'Yes' });
+  });
+
+  it('does not match items of a different kind', () => {
+    const live = [pageBreak('About you', 'p')];
+    const result = reconcileItems(live, [{ item: text('About you') }]);
+
+    expect(result.changes.map((c) => c.action)).toEqual(['delete', 'create']);
+  });
+});
@@ -0,0 +1,266 @@
+import { forms_v1 } from 'googleapis';
+import { NumberingScheme, stripNumbering } from './numbering';
+
+// Diff-based reconciliation of a live form's items against the desired items,
+// so that unchanged questions keep their itemId/questionId (and their answers).
+
+export interface DesiredItem {
+  item: forms_v1.Schema$Item;  // As built for createItem, without branching
+  key?: string;
+  // Its options jump to a section; patched in afterwards, so the live jumps are not compared
+  branches?: boolean;
+}
+
+export interface ItemChange {
+  action: 'create' | 'delete' | 'move' | 'update';
+  title: string;
+  index: number;      // Final index (create/move/update) or original index (delete)
+  itemId?: string;
+  fields?: string[];  // For updates: the top-level fields that changed
+}
+
+export interface ReconcileResult {
+  requests: forms_v1.Schema$Request[];
+  changes: ItemChange[];
+  // Live item matched to each desired item, or undefined where one is created
+  matched: (forms_v1.Schema$Item | undefined)[];
+  unchanged: number;
+}
+
+const ITEM_FIELDS = [
+  'title',
+  'description',
+  'questionItem',
+  'questionGroupItem',
+  'pageBreakItem',
+  'textItem',
+  'imageItem',
+  'videoItem',
+];
+
+// IDs are assigned by the API and branching is applied in a second phase;
+// image URLs are write-only (sourceUri) or read-only (contentUri)
+const IGNORED_KEYS = new Set(['itemId', 'questionId', 'goToAction', 'goToSectionId', 'sourceUri', 'contentUri']);
+
+/**
+ * Identify what an item is, beyond its title. Items of different kinds are
+ * never matched: the API cannot turn e.g. a text question into a grid.
+ */
+export function itemKind(item: forms_v1.Schema$Item): string {
+  if (item.questionItem?.question) {
+    const kind = Object.keys(item.questionItem.question).find((k) => k.endsWith('Question'));
+    return `question:${kind ?? 'unknown'}`;
+  }
+  if (item.questionGroupItem) return 'questionGroup';
+  return ITEM_FIELDS.slice(4).find((f) => f in item) ?? 'unknown';
+}
+
+function matchTitle(item: forms_v1.Schema$Item, numbering?: NumberingScheme): string {
+  return stripNumbering((item.title || '').trim(), numbering).toLowerCase();
+}
+
+/**
+ * Normalize an API object for comparison: drop IDs, sort keys, and treat
+ * null/false/empty values as absent, since the API omits defaults.
+ */
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonical);
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (IGNORED_KEYS.has(key)) continue;
+      const v = canonical((value as Record<string, unknown>)[key]);
+      if (v === undefined || v === null || v === false || v === '') continue;
+      if (typeof v === 'object' && !Array.isArray(v) && Object.keys(v as object).length === 0) continue;
+      out[key] = v;
+    }
+    return out;
+  }
+  return value;
+}
+
+// Whether any option of a choice question jumps somewhere
+const hasGoTo = (item: forms_v1.Schema$Item) =>
+  (item.questionItem?.question?.choiceQuestion?.options || []).some((o) => o.goToAction || o.goToSectionId);
+
+function changedFields(live: forms_v1.Schema$Item, desired: DesiredItem): string[] {
+  // Branching removed from the YAML: the options have to be sent again without it
+  const staleBranching = !desired.branches && hasGoTo(live);
+  return ITEM_FIELDS.filter((field) => {
+    if (field === 'questionItem' && staleBranching) return true;
+    const a = (live as Record<string, unknown>)[field];
+    const b = (desired.item as Record<string, unknown>)[field];
+    return JSON.stringify(canonical(a) ?? null) !== JSON.stringify(canonical(b) ?? null);
+  });
+}
+
+/**
+ * Carry the live IDs over to the desired item so updateItem keeps them.
+ * Grid rows are matched by row title.
+ */
+function withLiveIds(desired: forms_v1.Schema$Item, live: forms_v1.Schema$Item): forms_v1.Schema$Item {
+  const item: forms_v1.Schema$Item = { ...desired, itemId: live.itemId };
+  if (item.questionItem?.question) {
+    item.questionItem = {
+      ...item.questionItem,
+      question: {
+        ...item.questionItem.question,
+        questionId: live.questionItem?.question?.questionId,
+      },
+    };
+  }
+  if (item.questionGroupItem?.questions) {
+    const liveRows = live.questionGroupItem?.questions || [];
+    item.questionGroupItem = {
+      ...item.questionGroupItem,
+      questions: item.questionGroupItem.questions.map((q) => ({
+        ...q,
+        questionId: liveRows.find((r) => r.rowQuestion?.title === q.rowQuestion?.title)?.questionId,
+      })),
+    };
+  }
+  return item;
+}
+
+/**
+ * Indices (into `seq`) of a longest strictly increasing subsequence.
+ * Items on it keep their relative order and need no moveItem.
+ */
+function longestIncreasing(seq: number[]): Set<number> {
+  const length = seq.map(() => 1);
+  const prev = seq.map(() => -1);
+  let best = -1;
+  for (let i = 0; i < seq.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (seq[j] < seq[i] && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        prev[i] = j;
+      }
+    }
+    if (best < 0 || length[i] > length[best]) best = i;
+  }
+  const result = new Set<number>();
+  for (let i = best; i >= 0; i = prev[i]) {
+    result.add(i);
+  }
+  return result;
+}
+
+/**
+ * Work out the minimal batchUpdate requests that turn `live` into `desired`.
+ *
+ * Items are matched first by `key` (through `itemKeys`, a key -> itemId map
+ * recorded by a previous update), then by title ignoring numbering prefixes:
+ * the default ones, and those of `numbering` when the form uses another scheme.
+ * Requests are ordered deletes, moves, creates, updates, and each location is
+ * valid for the state the form is in when that request runs.
+ */
+export function reconcileItems(
+  live: forms_v1.Schema$Item[],
+  desired: DesiredItem[],
+  itemKeys: Record<string, string> = {},
+  numbering?: NumberingScheme
+): ReconcileResult {
+  const match: (number | undefined)[] = desired.map(() => undefined);
+  const used = new Set<number>();
+
+  const claim = (i: number, predicate: (l: forms_v1.Schema$Item) => boolean) => {
+    const kind = itemKind(desired[i].item);
+    const j = live.findIndex((l, j) => !used.has(j) && itemKind(l) === kind && predicate(l));
+    if (j >= 0) {
+      match[i] = j;
+      used.add(j);
+    }
+  };
+
+  desired.forEach((d, i) => {
+    const itemId = d.key ? itemKeys[d.key] : undefined;
+    if (itemId) claim(i, (l) => l.itemId === itemId);
+  });
+  desired.forEach((d, i) => {
+    if (match[i] == null) claim(i, (l) => matchTitle(l, numbering) === matchTitle(d.item, numbering));
+  });
+
+  const requests: forms_v1.Schema$Request[] = [];
+  const changes: ItemChange[] = [];
+
+  // 1. Delete unmatched live items, last first so indices stay valid
+  for (let j = live.length - 1; j >= 0; j--) {
+    if (used.has(j)) continue;
+    requests.push({ deleteItem: { location: { index: j } } });
+    changes.push({ action: 'delete', title: live[j].title || '', index: j, itemId: live[j].itemId ?? undefined });
+  }
+  const current = live.map((_, j) => j).filter((j) => used.has(j));
+
+  // 2. Move matched items that are out of order. Those on the longest run
+  // already in order stay put; each other one goes right after its predecessor.
+  const order = desired.map((_, i) => i).filter((i) => match[i] != null);
+  const stable = longestIncreasing(order.map((i) => match[i]!));
+  order.forEach((i, n) => {
+    if (stable.has(n)) return;
+    const j = match[i]!;
+    const from = current.indexOf(j);
+    current.splice(from, 1);
+    const to = n === 0 ? 0 : current.indexOf(match[order[n - 1]]!) + 1;
+    current.splice(to, 0, j);
+    if (from !== to) {
+      requests.push({ moveItem: { originalLocation: { index: from }, newLocation: { index: to } } });
+      changes.push({ action: 'move', title: desired[i].item.title || '', index: i, itemId: live[j].itemId ?? undefined });
+    }
+  });
+
+  // 3. Create new items at their final positions, in ascending order
+  desired.forEach((d, i) => {
+    if (match[i] != null) return;
+    requests.push({ createItem: { item: d.item, location: { index: i } } });
+    changes.push({ action: 'create', title: d.item.title || '', index: i });
+  });
+
+  // 4. Update matched items whose content differs
+  let unchanged = 0;
+  desired.forEach((d, i) => {
+    const j = match[i];
+    if (j == null) return;
+    const fields = changedFields(live[j], d);
+    if (fields.length === 0) {
+      unchanged++;
+      return;
+    }
+    requests.push({
+      updateItem: {
+        item: withLiveIds(d.item, live[j]),
+        location: { index: i },
+        updateMask: fields.join(','),
+      },
+    });
+    changes.push({ action: 'update', title: d.item.title || '', index: i, itemId: live[j].itemId ?? undefined, fields });
+  });
+
+  return {
+    requests,
+    changes,
+    matched: match.map((j) => (j == null ? undefined : live[j])),
+    unchanged,
+  };
+}
+
+/**
+ * One-line summary of a reconcile, e.g. "2 created, 1 deleted, 3 unchanged".
+ */
+export function summarizeChanges(result: Pick<ReconcileResult, 'changes' | 'unchanged'>): string {
+  const counts: Record<string, number> = {};
+  for (const change of result.changes) {
+    counts[change.action] = (counts[change.action] || 0) + 1;
+  }
+  const labels: [ItemChange['action'], string][] = [
+    ['create', 'created'],
+    ['delete', 'deleted'],
+    ['move', 'moved'],
+    ['update', 'updated'],
+  ];
+  const parts = labels.filter(([a]) => counts[a]).map(([a, label]) => `${counts[a]} ${label}`);
+  parts.push(`${result.unchanged} unchanged`);
+  return parts.join(', ');
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import { formatFlag, loadQuestionMap, migrateResponses } from './question-map';
+import { buildReport, Interval, renderHtml, renderMarkdown } from './report';
+import { Command, main, PROGRAM, UsageError } from './command';
+
+const FORMATS = ['markdown', 'html'];
+const INTERVALS: Interval[] = ['day', 'week', 'month'];
+
+export const reportCommand: Command = {
+  name: 'responses report',
+  summary: 'Summarize the responses question by question, as Markdown or HTML',
+  usage: '<form-id> [options]',
+  description: [
+    'Summarizes responses per question: option counts, scale statistics, grid tables',
+    'and responses over time. Answers to questions since recreated, renamed or removed',
+    'are counted under the question as it is now, and the changes are listed.',
+    'With --json, the report data is printed instead of the rendered report.',
+  ],
+  options: {
+    format: { type: 'string', value: FORMATS.join('|'), description: 'markdown (default) or a self-contained html page' },
+    interval: { type: 'string', value: INTERVALS.join('|'), description: 'Period for the responses-over-time table (default: day)' },
+    output: { type: 'string', short: 'o', value: 'file', description: 'Write to a file instead of stdout' },
+  },
+  examples: [
+    `${PROGRAM} responses report <form-id>`,
+    `${PROGRAM} responses report <form-id> --format html --interval week -o report.html`,
+  ],
+  async run(ctx) {
+    const [formId] = ctx.positionals;
+    const format = (ctx.values.format as string | undefined) || 'markdown';
+    const interval = ((ctx.values.interval as string | undefined) || 'day') as Interval;
+    const output = ctx.values.output as string | undefined;
+    if (!formId) {
+      throw new UsageError('No form ID specified');
+    }
+    if (!FORMATS.includes(format)) {
+      throw new UsageError(`Unknown format "${format}" (expected ${FORMATS.join(', ')})`);
+    }
+    if (!INTERVALS.includes(interval)) {
+      throw new UsageError(`Unknown interval "${interval}" (expected ${INTERVALS.join(', ')})`);
+    }
+
+    const generator = await ctx.signIn();
+    const form = await generator.getForm(formId);
+    const { responses = [] } = await generator.getResponses(formId);
+
+    const migrated = migrateResponses(form, responses, loadQuestionMap(formId));
+    const report = buildReport(migrated.form, migrated.responses, { interval, notes: migrated.flags.map(formatFlag) });
+    const text = format === 'html' ? renderHtml(report) : renderMarkdown(report);
+    if (!output) {
+      return { data: report, text };
+    }
+    fs.writeFileSync(output, text, 'utf8');
+    return {
+      data: { formId, format, output, responses: responses.length },
+      text: `Report on ${responses.length} response(s) written to ${output}`,
+    };
+  },
+};
+
+if (require.main === module) {
+  main([reportCommand], ['responses', 'report', ...process.argv.slice(2)]);
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { forms_v1 } from 'googleapis';
+import { buildReport, renderHtml, renderMarkdown, responseTimeline } from './report';
+
+const form: forms_v1.Schema$Form = {
+  info: { title: 'Team survey' },
+  items: [
+    {
+      title: 'Role',
+      questionItem: {
+        question: {
+          questionId: 'role',
+          choiceQuestion: { type: 'RADIO', options: [{ value: 'Dev' }, { value: 'PM' }, { value: 'QA' }] },
+        },
+      },
+    },
+    {
+      title: 'Happiness',
+      questionItem: { question: { questionId: 'happy', scaleQuestion: { low: 1, high: 5, lowLabel: 'Sad' } } },
+    },
+    {
+      title: 'Days',
+      questionGroupItem: {
+        grid: { columns: { type: 'RADIO', options: [{ value: 'Office' }, { value: 'Home' }] } },
+        questions: [{ questionId: 'mon', rowQuestion: { title: 'Mon' } }],
+      },
+    },
+    { title: 'Comments', questionItem: { question: { questionId: 'c', textQuestion: {} } } },
+  ],
+};
+
+const answer = (value: string) => ({ textAnswers: { answers: [{ value }] } });
+
+const responses: forms_v1.Schema$FormResponse[] = [
+  { createTime: '2024-05-01T09:00:00Z', answers: { role: answer('Dev'), happy: answer('4'), mon: answer('Home') } },
+  { createTime: '2024-05-01T17:00:00Z', answers: { role: answer('Dev'), happy: answer('5') } },
+  { createTime: '2024-05-03T10:00:00Z', answers: { role: answer('PM'), happy: answer('1'), c: answer('Hi') } },
+];
+
+describe('buildReport', () => {
+  const report = buildReport(form, responses);
+
+  it('counts choice answers against the live options', () => {
+    expect(report.questions[0]).toEqual({
+      kind: 'choice',
+      title: 'Role',
+      answered: 3,
+      multiple: false,
+      counts: [
+        { label: 'Dev', count: 2, percent: 66.7 },
+        { label: 'PM', count: 1, percent: 33.3 },
+        { label: 'QA', count: 0, percent: 0 },
+      ],
+    });
+  });
+
+  it('computes scale distribution, mean and median over the scale bounds', () => {
+    expect(report.questions[1]).toMatchObject({
+      kind: 'scale',
+      mean: 3.33,
+      median: 4,
+      lowLabel: 'Sad',
+      counts: [
+        { label: '1', count: 1 },
+        { label: '2', count: 0 },
+        { label: '3', count: 0 },
+        { label: '4', count: 1 },
+        { label: '5', count: 1 },
+      ],
+    });
+  });
+
+  it('tabulates grid rows by column', () => {
+    expect(report.questions[2]).toEqual({
+      kind: 'grid',
+      title: 'Days',
+      answered: 1,
+      columns: ['Office', 'Home'],
+      rows: [{ label: 'Mon', counts: [0, 1] }],
+    });
+    expect(report.questions[3]).toEqual({ kind: 'text', title: 'Comments', answered: 1 });
+  });
+});
+
+describe('responseTimeline', () => {
+  it('fills empty periods between the first and last response', () => {
+    expect(responseTimeline(responses)).toEqual([
+      { period: '2024-05-01', count: 2, cumulative: 2 },
+      { period: '2024-05-02', count: 0, cumulative: 2 },
+      { period: '2024-05-03', count: 1, cumulative: 3 },
+    ]);
+  });
+
+  it('groups by Monday-based weeks and by month', () => {
+    expect(responseTimeline(responses, 'week')).toEqual([{ period: '2024-04-29', count: 3, cumulative: 3 }]);
+    expect(responseTimeline(responses, 'month')).toEqual([{ period: '2024-05', count: 3, cumulative: 3 }]);
+  });
+});
+
+describe('renderers', () => {
+  const report = buildReport(form, responses);
+
+  it('renders Markdown tables', () => {
+    const markdown = renderMarkdown(report);
+    expect(markdown).toContain('**3** response(s), from 2024-05-01 to 2024-05-03');
+    expect(markdown).toContain('| Dev | 2 | 66.7% | ' + '█'.repeat(13) + ' |');
+    expect(markdown).toContain('| Mon | 0 | 1 |');
+  });
+
+  it('lists questions renamed or removed since responses were given', () => {
+    const notes = ['"Email" was removed from the form; its 1 answer(s) are kept under "(removed)"'];
+    expect(renderMarkdown(buildReport(form, responses, { notes }))).toContain(`## Question changes\n\n- ${notes[0]}`);
+    expect(renderMarkdown(report)).not.toContain('Question changes');
+  });
+
+  it('renders standalone HTML with escaped text', () => {
+    const html = renderHtml({ ...report, title: 'Q&A <2024>' });
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<h1>Q&amp;A &lt;2024&gt;</h1>');
+    expect(html).not.toMatch(/<script|<link/);
+  });
+});
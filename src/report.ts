@@ -0,0 +1,352 @@
+import { forms_v1 } from 'googleapis';
+
+// Aggregate statistics over form responses. Option labels, scale bounds and
+// grid rows come from the live form, so options nobody picked still show up.
+
+export interface Count {
+  label: string;
+  count: number;
+  percent: number;   // Of the respondents who answered the question
+}
+
+export type QuestionStats =
+  | { kind: 'choice'; title: string; answered: number; multiple: boolean; counts: Count[] }
+  | { kind: 'scale'; title: string; answered: number; counts: Count[]; mean: number | null; median: number | null; lowLabel?: string; highLabel?: string }
+  | { kind: 'grid'; title: string; answered: number; columns: string[]; rows: { label: string; counts: number[] }[] }
+  | { kind: 'text'; title: string; answered: number };
+
+export type Interval = 'day' | 'week' | 'month';
+
+export interface FormReport {
+  title: string;
+  total: number;
+  first?: string;
+  last?: string;
+  interval: Interval;
+  timeline: { period: string; count: number; cumulative: number }[];
+  questions: QuestionStats[];
+  // Questions renamed or removed since some responses were given
+  notes: string[];
+}
+
+const answerValues = (response: forms_v1.Schema$FormResponse, questionId: string | null | undefined): string[] =>
+  questionId ? (response.answers?.[questionId]?.textAnswers?.answers || []).map((a) => a.value || '') : [];
+
+const percentOf = (count: number, total: number) => (total === 0 ? 0 : Math.round((count / total) * 1000) / 10);
+
+function tally(labels: string[], answers: string[][], other = false): Count[] {
+  const answered = answers.filter((a) => a.length > 0).length;
+  const counts = new Map(labels.map((label) => [label, 0]));
+  let others = 0;
+  for (const values of answers) {
+    for (const value of values) {
+      if (counts.has(value)) {
+        counts.set(value, counts.get(value)! + 1);
+      } else {
+        others++;
+      }
+    }
+  }
+  const result = labels.map((label) => ({ label, count: counts.get(label)!, percent: percentOf(counts.get(label)!, answered) }));
+  if (other || others > 0) {
+    result.push({ label: 'Other', count: others, percent: percentOf(others, answered) });
+  }
+  return result;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function questionStats(
+  title: string,
+  question: forms_v1.Schema$Question,
+  responses: forms_v1.Schema$FormResponse[]
+): QuestionStats {
+  const answers = responses.map((r) => answerValues(r, question.questionId));
+  const answered = answers.filter((a) => a.length > 0).length;
+
+  const choice = question.choiceQuestion;
+  if (choice) {
+    const options = choice.options || [];
+    const labels = options.filter((o) => !o.isOther).map((o) => o.value || '');
+    return {
+      kind: 'choice',
+      title,
+      answered,
+      multiple: choice.type === 'CHECKBOX',
+      counts: tally(labels, answers, options.some((o) => o.isOther)),
+    };
+  }
+
+  const scale = question.scaleQuestion;
+  const rating = (question as any).ratingQuestion;
+  if (scale || rating) {
+    const low = scale ? scale.low ?? 0 : 1;
+    const high = scale ? scale.high ?? 5 : rating.ratingScaleLevel ?? 5;
+    const labels = Array.from({ length: high - low + 1 }, (_, i) => String(low + i));
+    const numbers = answers.flat().map(Number).filter((n) => !Number.isNaN(n));
+    const mean = numbers.length ? Math.round((numbers.reduce((a, b) => a + b, 0) / numbers.length) * 100) / 100 : null;
+    return {
+      kind: 'scale',
+      title,
+      answered,
+      counts: tally(labels, answers),
+      mean,
+      median: median(numbers),
+      lowLabel: scale?.lowLabel || undefined,
+      highLabel: scale?.highLabel || undefined,
+    };
+  }
+
+  return { kind: 'text', title, answered };
+}
+
+function gridStats(
+  title: string,
+  group: forms_v1.Schema$QuestionGroupItem,
+  responses: forms_v1.Schema$FormResponse[]
+): QuestionStats {
+  const columns = (group.grid?.columns?.options || []).map((o) => o.value || '');
+  const rowQuestions = group.questions || [];
+  const answered = responses.filter((r) => rowQuestions.some((q) => answerValues(r, q.questionId).length > 0)).length;
+  const rows = rowQuestions.map((q) => {
+    const values = responses.flatMap((r) => answerValues(r, q.questionId));
+    return { label: q.rowQuestion?.title || '', counts: columns.map((c) => values.filter((v) => v === c).length) };
+  });
+  return { kind: 'grid', title, answered, columns, rows };
+}
+
+function periodOf(timestamp: string, interval: Interval): string {
+  const date = new Date(timestamp);
+  if (interval === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+  if (interval === 'week') {
+    // Weeks start on Monday
+    const monday = new Date(date);
+    monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return monday.toISOString().slice(0, 10);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function nextPeriod(period: string, interval: Interval): string {
+  const date = new Date(interval === 'month' ? `${period}-01` : period);
+  if (interval === 'month') {
+    date.setUTCMonth(date.getUTCMonth() + 1);
+  } else {
+    date.setUTCDate(date.getUTCDate() + (interval === 'week' ? 7 : 1));
+  }
+  return periodOf(date.toISOString(), interval);
+}
+
+/**
+ * Responses per period, counted by first submission. Periods with no
+ * responses between the first and last are included with a count of 0.
+ */
+export function responseTimeline(
+  responses: forms_v1.Schema$FormResponse[],
+  interval: Interval = 'day'
+): FormReport['timeline'] {
+  const times = responses
+    .map((r) => r.createTime || r.lastSubmittedTime || '')
+    .filter(Boolean)
+    .sort((a, b) => Date.parse(a) - Date.parse(b));
+  if (times.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  for (const time of times) {
+    const period = periodOf(time, interval);
+    counts.set(period, (counts.get(period) || 0) + 1);
+  }
+
+  const timeline: FormReport['timeline'] = [];
+  const last = periodOf(times[times.length - 1], interval);
+  let cumulative = 0;
+  for (let period = periodOf(times[0], interval); period <= last; period = nextPeriod(period, interval)) {
+    const count = counts.get(period) || 0;
+    cumulative += count;
+    timeline.push({ period, count, cumulative });
+  }
+  return timeline;
+}
+
+export function buildReport(
+  form: forms_v1.Schema$Form,
+  responses: forms_v1.Schema$FormResponse[],
+  options: { interval?: Interval; notes?: string[] } = {}
+): FormReport {
+  const interval = options.interval || 'day';
+  const questions: QuestionStats[] = [];
+  for (const item of form.items || []) {
+    const title = item.title || '';
+    if (item.questionItem?.question) {
+      questions.push(questionStats(title, item.questionItem.question, responses));
+    } else if (item.questionGroupItem) {
+      questions.push(gridStats(title, item.questionGroupItem, responses));
+    }
+  }
+
+  const timeline = responseTimeline(responses, interval);
+  return {
+    title: form.info?.title || form.formId || 'Untitled form',
+    total: responses.length,
+    first: timeline[0]?.period,
+    last: timeline[timeline.length - 1]?.period,
+    interval,
+    timeline,
+    questions,
+    notes: options.notes || [],
+  };
+}
+
+// --- Markdown -----------------------------------------------------------------
+
+const BAR_WIDTH = 20;
+
+const bar = (percent: number) => '█'.repeat(Math.round((percent / 100) * BAR_WIDTH));
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+function markdownCounts(counts: Count[]): string[] {
+  return [
+    '| Answer | Count | % | |',
+    '| --- | ---: | ---: | --- |',
+    ...counts.map((c) => `| ${escapeCell(c.label)} | ${c.count} | ${c.percent}% | ${bar(c.percent)} |`),
+  ];
+}
+
+export function renderMarkdown(report: FormReport): string {
+  const range = report.first ? `, from ${report.first} to ${report.last}` : '';
+  const lines = [`# ${report.title}`, '', `**${report.total}** response(s)${range}`];
+
+  if (report.notes.length > 0) {
+    lines.push('', '## Question changes', '', ...report.notes.map((note) => `- ${note}`));
+  }
+
+  if (report.timeline.length > 0) {
+    lines.push('', `## Responses per ${report.interval}`, '', '| Period | Responses | Total |', '| --- | ---: | ---: |');
+    for (const t of report.timeline) {
+      lines.push(`| ${t.period} | ${t.count} | ${t.cumulative} |`);
+    }
+  }
+
+  for (const q of report.questions) {
+    lines.push('', `## ${escapeCell(q.title)}`, '');
+    const answered = `${q.answered} of ${report.total} answered`;
+    switch (q.kind) {
+      case 'choice':
+        lines.push(q.multiple ? `${answered} (several answers allowed)` : answered, '', ...markdownCounts(q.counts));
+        break;
+      case 'scale': {
+        const ends = q.lowLabel || q.highLabel ? ` (${q.counts[0].label} = ${q.lowLabel || '?'}, ${q.counts[q.counts.length - 1].label} = ${q.highLabel || '?'})` : '';
+        lines.push(`${answered}. Mean **${q.mean ?? '–'}**, median **${q.median ?? '–'}**${ends}`, '', ...markdownCounts(q.counts));
+        break;
+      }
+      case 'grid':
+        lines.push(answered, '', `| | ${q.columns.map(escapeCell).join(' | ')} |`, `| --- |${' ---: |'.repeat(q.columns.length)}`);
+        for (const row of q.rows) {
+          lines.push(`| ${escapeCell(row.label)} | ${row.counts.join(' | ')} |`);
+        }
+        break;
+      case 'text':
+        lines.push(answered);
+        break;
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// --- HTML ---------------------------------------------------------------------
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2em auto; padding: 0 1em; color: #202124; }
+  h1 { color: #673ab7; }
+  h2 { margin-top: 2em; border-bottom: 1px solid #dadce0; padding-bottom: .3em; font-size: 1.15em; }
+  table { border-collapse: collapse; margin: .5em 0; }
+  th, td { padding: .3em .8em; border-bottom: 1px solid #eee; text-align: left; }
+  td.n { text-align: right; font-variant-numeric: tabular-nums; }
+  .bar { background: #673ab7; height: .9em; border-radius: 2px; }
+  .meta { color: #5f6368; }
+`;
+
+function htmlCounts(counts: Count[]): string {
+  const rows = counts.map((c) =>
+    `<tr><td>${escapeHtml(c.label)}</td><td class="n">${c.count}</td><td class="n">${c.percent}%</td>` +
+    `<td style="width:200px"><div class="bar" style="width:${c.percent}%"></div></td></tr>`
+  );
+  return `<table><tr><th>Answer</th><th>Count</th><th>%</th><th></th></tr>${rows.join('')}</table>`;
+}
+
+/**
+ * A single HTML file with inline styles and no scripts or external assets,
+ * so it can be mailed or attached as is.
+ */
+export function renderHtml(report: FormReport): string {
+  const parts: string[] = [];
+  const range = report.first ? `, from ${report.first} to ${report.last}` : '';
+  parts.push(`<h1>${escapeHtml(report.title)}</h1>`, `<p class="meta"><strong>${report.total}</strong> response(s)${range}</p>`);
+
+  if (report.notes.length > 0) {
+    parts.push('<h2>Question changes</h2>', `<ul>${report.notes.map((note) => `<li>${escapeHtml(note)}</li>`).join('')}</ul>`);
+  }
+
+  if (report.timeline.length > 0) {
+    const peak = Math.max(...report.timeline.map((t) => t.count));
+    const rows = report.timeline.map((t) =>
+      `<tr><td>${t.period}</td><td class="n">${t.count}</td><td class="n">${t.cumulative}</td>` +
+      `<td style="width:200px"><div class="bar" style="width:${percentOf(t.count, peak)}%"></div></td></tr>`
+    );
+    parts.push(`<h2>Responses per ${report.interval}</h2>`,
+      `<table><tr><th>Period</th><th>Responses</th><th>Total</th><th></th></tr>${rows.join('')}</table>`);
+  }
+
+  for (const q of report.questions) {
+    parts.push(`<h2>${escapeHtml(q.title)}</h2>`);
+    const answered = `${q.answered} of ${report.total} answered`;
+    switch (q.kind) {
+      case 'choice':
+        parts.push(`<p class="meta">${answered}${q.multiple ? ' (several answers allowed)' : ''}</p>`, htmlCounts(q.counts));
+        break;
+      case 'scale': {
+        const ends = q.lowLabel || q.highLabel ? ` (${escapeHtml(q.lowLabel || '?')} → ${escapeHtml(q.highLabel || '?')})` : '';
+        parts.push(`<p class="meta">${answered}. Mean <strong>${q.mean ?? '–'}</strong>, median <strong>${q.median ?? '–'}</strong>${ends}</p>`, htmlCounts(q.counts));
+        break;
+      }
+      case 'grid': {
+        const head = `<tr><th></th>${q.columns.map((c) => `<th>${escapeHtml(c)}</th>`).join('')}</tr>`;
+        const rows = q.rows.map((r) =>
+          `<tr><td>${escapeHtml(r.label)}</td>${r.counts.map((n) => `<td class="n">${n}</td>`).join('')}</tr>`
+        );
+        parts.push(`<p class="meta">${answered}</p>`, `<table>${head}${rows.join('')}</table>`);
+        break;
+      }
+      case 'text':
+        parts.push(`<p class="meta">${answered}</p>`);
+        break;
+    }
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(report.title)} — report</title>`,
+    `<style>${STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...parts,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
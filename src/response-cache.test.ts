@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { mergeResponses } from './response-cache';
+
+describe('mergeResponses', () => {
+  it('adds new responses and replaces edited ones', () => {
+    const cache = {
+      formId: 'f',
+      highWaterMark: '2024-05-01T10:00:00Z',
+      responses: [
+        { responseId: 'a', lastSubmittedTime: '2024-05-01T09:00:00Z' },
+        { responseId: 'b', lastSubmittedTime: '2024-05-01T10:00:00Z' },
+      ],
+    };
+
+    const result = mergeResponses(cache, [
+      { responseId: 'a', lastSubmittedTime: '2024-05-02T08:00:00.5Z', answers: {} },
+      { responseId: 'c', lastSubmittedTime: '2024-05-02T08:00:00Z' },
+    ]);
+
+    expect(result.added).toBe(1);
+    expect(result.updated).toBe(1);
+    expect(result.cache.responses.map((r) => r.responseId)).toEqual(['b', 'c', 'a']);
+    expect(result.cache.responses[2].answers).toEqual({});
+  });
+
+  it('moves the high-water mark by time, not by string order', () => {
+    const cache = { formId: 'f', highWaterMark: '2024-05-01T10:00:00Z', responses: [] };
+
+    const { cache: merged } = mergeResponses(cache, [
+      { responseId: 'a', lastSubmittedTime: '2024-05-01T10:00:00.250Z' },
+    ]);
+
+    expect(merged.highWaterMark).toBe('2024-05-01T10:00:00.250Z');
+  });
+
+  it('keeps the mark when nothing new was fetched', () => {
+    const cache = { formId: 'f', highWaterMark: '2024-05-01T10:00:00Z', responses: [] };
+
+    expect(mergeResponses(cache, []).cache.highWaterMark).toBe('2024-05-01T10:00:00Z');
+  });
+});
@@ -0,0 +1,103 @@
+import { forms_v1 } from 'googleapis';
+import * as fs from 'fs';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+
+// Responses pulled so far, with the high-water mark that lets the next pull
+// ask only for responses submitted or edited since.
+
+export const RESPONSES_DIR = path.join(process.cwd(), '.gform', 'responses');
+
+export interface ResponseCache {
+  formId: string;
+  highWaterMark?: string;  // Latest lastSubmittedTime seen
+  responses: forms_v1.Schema$FormResponse[];
+}
+
+export interface SyncResult {
+  responses: forms_v1.Schema$FormResponse[];  // Every response known, cached and new
+  changed: forms_v1.Schema$FormResponse[];    // Fetched by this pull
+  added: number;
+  updated: number;
+  since?: string;                             // High-water mark the pull started from
+}
+
+export function responseCachePath(formId: string): string {
+  return path.join(RESPONSES_DIR, `${formId}.json`);
+}
+
+export function loadResponseCache(formId: string): ResponseCache {
+  const file = responseCachePath(formId);
+  if (!fs.existsSync(file)) {
+    return { formId, responses: [] };
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+export function saveResponseCache(cache: ResponseCache): string {
+  const file = responseCachePath(cache.formId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(cache, null, 2));
+  return file;
+}
+
+export const submittedAt = (response: forms_v1.Schema$FormResponse) =>
+  response.lastSubmittedTime || response.createTime || '';
+
+// Timestamps differ in fractional-second digits, so compare them as times
+export function later(a: string | undefined, b: string): string {
+  if (!a) return b;
+  const diff = Date.parse(b) - Date.parse(a);
+  return diff > 0 || (diff === 0 && b > a) ? b : a;
+}
+
+/**
+ * Fold freshly fetched responses into the cache. An edited response replaces
+ * its earlier copy (same responseId); the high-water mark moves to the latest
+ * submit time seen.
+ */
+export function mergeResponses(
+  cache: ResponseCache,
+  fetched: forms_v1.Schema$FormResponse[]
+): { cache: ResponseCache; added: number; updated: number } {
+  const byId = new Map(cache.responses.map((r) => [r.responseId || '', r]));
+  let added = 0;
+  let updated = 0;
+  let highWaterMark = cache.highWaterMark;
+
+  for (const response of fetched) {
+    const id = response.responseId || '';
+    if (byId.has(id)) {
+      updated++;
+    } else {
+      added++;
+    }
+    byId.set(id, response);
+    if (submittedAt(response)) {
+      highWaterMark = later(highWaterMark, submittedAt(response));
+    }
+  }
+
+  const responses = [...byId.values()].sort((a, b) => Date.parse(submittedAt(a)) - Date.parse(submittedAt(b)));
+  return { cache: { formId: cache.formId, highWaterMark, responses }, added, updated };
+}
+
+/**
+ * Pull responses for a form. Incrementally, only responses after the saved
+ * high-water mark are fetched and merged into the local cache; otherwise every
+ * response is fetched and the cache is rebuilt from scratch.
+ */
+export async function syncResponses(
+  generator: GoogleFormsGenerator,
+  formId: string,
+  options: { incremental?: boolean } = {}
+): Promise<SyncResult> {
+  const previous = options.incremental ? loadResponseCache(formId) : { formId, responses: [] };
+  const since = previous.highWaterMark;
+  const { responses: fetched = [] } = await generator.getResponses(formId, { since });
+
+  const { cache, added, updated } = mergeResponses(previous, fetched);
+  saveResponseCache(cache);
+
+  return { responses: cache.responses, changed: fetched, added, updated, since };
+}
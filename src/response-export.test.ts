@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { forms_v1 } from 'googleapis';
+import { buildResponseTable, formatResponseTable, mergeLocaleVariants } from './response-export';
+
+const form: forms_v1.Schema$Form = {
+  items: [
+    { title: 'Intro', textItem: {} },
+    { title: 'Name', questionItem: { question: { questionId: 'n', textQuestion: {} } } },
+    {
+      title: 'Tools',
+      questionItem: {
+        question: {
+          questionId: 't',
+          choiceQuestion: { type: 'CHECKBOX', options: [{ value: 'Git' }, { value: 'Vim' }, { isOther: true }] },
+        },
+      },
+    },
+    {
+      title: 'Days',
+      questionGroupItem: {
+        grid: { columns: { type: 'CHECKBOX', options: [{ value: 'Mon' }, { value: 'Tue' }] } },
+        questions: [
+          { questionId: 'd1', rowQuestion: { title: 'Office' } },
+          { questionId: 'd2', rowQuestion: { title: 'Home' } },
+        ],
+      },
+    },
+  ],
+};
+
+const text = (...values: string[]) => ({ textAnswers: { answers: values.map((value) => ({ value })) } });
+
+const responses: forms_v1.Schema$FormResponse[] = [
+  {
+    responseId: 'r1',
+    lastSubmittedTime: '2024-05-01T10:00:00Z',
+    respondentEmail: 'ann@example.com',
+    totalScore: 3,
+    // Answers arrive in arbitrary order; columns must not
+    answers: { d1: text('Mon', 'Tue'), t: text('Git', 'Emacs'), n: text('Ann, B.') },
+  },
+  { responseId: 'r2', lastSubmittedTime: '2024-05-02T10:00:00Z', answers: { t: text('Vim') } },
+];
+
+describe('buildResponseTable', () => {
+  it('orders columns by form item and keeps multiple answers as lists', () => {
+    const table = buildResponseTable(form, responses);
+
+    expect(table.headers).toEqual([
+      'Response ID', 'Timestamp', 'Email', 'Total score', 'Name', 'Tools', 'Days [Office]', 'Days [Home]',
+    ]);
+    expect(table.rows[0]).toEqual([
+      'r1', '2024-05-01T10:00:00Z', 'ann@example.com', 3, 'Ann, B.', ['Git', 'Emacs'], ['Mon', 'Tue'], null,
+    ]);
+  });
+
+  it('expands checkbox answers into one-hot columns', () => {
+    const table = buildResponseTable(form, responses, { oneHot: true });
+
+    expect(table.headers.slice(5)).toEqual([
+      'Tools [Git]', 'Tools [Vim]', 'Tools [Other]',
+      'Days [Office] [Mon]', 'Days [Office] [Tue]', 'Days [Home] [Mon]', 'Days [Home] [Tue]',
+    ]);
+    expect(table.rows[0].slice(5)).toEqual([1, 0, 'Emacs', 1, 1, 0, 0]);
+    expect(table.rows[1].slice(5)).toEqual([0, 1, null, 0, 0, 0, 0]);
+  });
+});
+
+describe('mergeLocaleVariants', () => {
+  const spanish: forms_v1.Schema$Form = {
+    items: [
+      { title: 'Introducción', textItem: {} },
+      { title: 'Nombre', questionItem: { question: { questionId: 'es-n', textQuestion: {} } } },
+      {
+        title: 'Herramientas',
+        questionItem: {
+          question: {
+            questionId: 'es-t',
+            choiceQuestion: { type: 'CHECKBOX', options: [{ value: 'Git' }, { value: 'Vi' }, { isOther: true }] },
+          },
+        },
+      },
+      {
+        title: 'Días',
+        questionGroupItem: {
+          grid: { columns: { type: 'CHECKBOX', options: [{ value: 'Lun' }, { value: 'Mar' }] } },
+          questions: [
+            { questionId: 'es-d1', rowQuestion: { title: 'Oficina' } },
+            { questionId: 'es-d2', rowQuestion: { title: 'Casa' } },
+          ],
+        },
+      },
+    ],
+  };
+
+  it('translates answers back to the first form and adds a Locale column', () => {
+    const merged = mergeLocaleVariants([
+      { locale: 'en', form, responses: [responses[1]] },
+      {
+        locale: 'es',
+        form: spanish,
+        responses: [{ responseId: 'r3', lastSubmittedTime: '2024-04-30T10:00:00Z', answers: {
+          'es-t': text('Vi', 'Nano'),
+          'es-d2': text('Mar'),
+        } }],
+      },
+    ]);
+    const table = buildResponseTable(merged.form, merged.responses, { localeOf: merged.localeOf });
+
+    expect(table.headers.slice(0, 3)).toEqual(['Response ID', 'Timestamp', 'Locale']);
+    expect(table.rows).toEqual([
+      ['r3', '2024-04-30T10:00:00Z', 'es', null, null, null, ['Vim', 'Nano'], null, 'Tue'],
+      ['r2', '2024-05-02T10:00:00Z', 'en', null, null, null, 'Vim', null, null],
+    ]);
+  });
+
+  it('refuses forms whose items no longer line up', () => {
+    const shorter = { items: spanish.items!.slice(1) };
+    expect(() => mergeLocaleVariants([
+      { locale: 'en', form, responses: [] },
+      { locale: 'es', form: shorter, responses: [] },
+    ])).toThrow('The es form no longer has the same questions');
+  });
+});
+
+describe('formatResponseTable', () => {
+  const table = { headers: ['Name', 'Tools'], rows: [['Ann, B.', ['Git', 'Vim']], [null, 'a\tb']] };
+
+  it('writes CSV with quoting and joined lists', () => {
+    expect(formatResponseTable(table, 'csv')).toBe('Name,Tools\n"Ann, B.",Git; Vim\n,a\tb\n');
+  });
+
+  it('writes TSV without tabs inside cells', () => {
+    expect(formatResponseTable(table, 'tsv')).toBe('Name\tTools\nAnn, B.\tGit; Vim\n\ta b\n');
+  });
+
+  it('writes JSON Lines keyed by header', () => {
+    expect(formatResponseTable(table, 'jsonl')).toBe(
+      '{"Name":"Ann, B.","Tools":["Git","Vim"]}\n{"Name":null,"Tools":"a\\tb"}\n'
+    );
+  });
+});
@@ -0,0 +1,260 @@
+import { forms_v1 } from 'googleapis';
+
+// Flatten form responses into a table whose columns follow the form's item
+// order, and write it as CSV, TSV, JSON or JSON Lines.
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'jsonl';
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'tsv', 'json', 'jsonl'];
+
+export type Cell = string | number | string[] | null;
+
+export interface ExportColumn {
+  header: string;
+  value: (response: forms_v1.Schema$FormResponse) => Cell;
+}
+
+export interface ExportOptions {
+  // One 0/1 column per option for checkbox and checkboxGrid answers
+  oneHot?: boolean;
+  // Adds a Locale column, for responses merged from several languages
+  localeOf?: (response: forms_v1.Schema$FormResponse) => string | undefined;
+}
+
+export interface ResponseTable {
+  headers: string[];
+  rows: Cell[][];
+}
+
+const answerValues = (response: forms_v1.Schema$FormResponse, questionId: string): string[] =>
+  (response.answers?.[questionId]?.textAnswers?.answers || []).map((a) => a.value || '');
+
+// A single answer stays a string; several (checkbox) stay a list
+function cellOf(values: string[]): Cell {
+  if (values.length === 0) return null;
+  return values.length === 1 ? values[0] : values;
+}
+
+function oneHotColumns(
+  prefix: string,
+  questionId: string,
+  options: forms_v1.Schema$Option[]
+): ExportColumn[] {
+  const known = options.filter((o) => !o.isOther).map((o) => o.value || '');
+  const columns: ExportColumn[] = known.map((option) => ({
+    header: `${prefix} [${option}]`,
+    value: (r) => (answerValues(r, questionId).includes(option) ? 1 : 0),
+  }));
+  if (options.some((o) => o.isOther)) {
+    // Free text typed into "Other" has no column of its own to flag
+    columns.push({
+      header: `${prefix} [Other]`,
+      value: (r) => cellOf(answerValues(r, questionId).filter((v) => !known.includes(v))),
+    });
+  }
+  return columns;
+}
+
+/**
+ * Columns for a form: response metadata first, then one column per question
+ * (per row for grids) in item order. With `oneHot`, checkbox and checkboxGrid
+ * questions get one 0/1 column per option instead.
+ */
+export function exportColumns(form: forms_v1.Schema$Form, options: ExportOptions = {}): ExportColumn[] {
+  const columns: ExportColumn[] = [
+    { header: 'Response ID', value: (r) => r.responseId || null },
+    { header: 'Timestamp', value: (r) => r.lastSubmittedTime || r.createTime || null },
+    { header: 'Email', value: (r) => r.respondentEmail || null },
+    { header: 'Total score', value: (r) => r.totalScore ?? null },
+  ];
+  const { localeOf } = options;
+  if (localeOf) {
+    columns.splice(2, 0, { header: 'Locale', value: (r) => localeOf(r) || null });
+  }
+
+  for (const item of form.items || []) {
+    const title = item.title || '';
+    const question = item.questionItem?.question;
+    if (question?.questionId) {
+      const id = question.questionId;
+      const choice = question.choiceQuestion;
+      if (options.oneHot && choice?.type === 'CHECKBOX') {
+        columns.push(...oneHotColumns(title, id, choice.options || []));
+      } else {
+        columns.push({ header: title, value: (r) => cellOf(answerValues(r, id)) });
+      }
+    }
+
+    const group = item.questionGroupItem;
+    const checkboxGrid = group?.grid?.columns?.type === 'CHECKBOX';
+    for (const row of group?.questions || []) {
+      if (!row.questionId) continue;
+      const id = row.questionId;
+      const header = `${title} [${row.rowQuestion?.title || ''}]`;
+      if (options.oneHot && checkboxGrid) {
+        columns.push(...oneHotColumns(header, id, group?.grid?.columns?.options || []));
+      } else {
+        columns.push({ header, value: (r) => cellOf(answerValues(r, id)) });
+      }
+    }
+  }
+
+  return columns;
+}
+
+export function buildResponseTable(
+  form: forms_v1.Schema$Form,
+  responses: forms_v1.Schema$FormResponse[],
+  options: ExportOptions = {}
+): ResponseTable {
+  const columns = exportColumns(form, options);
+  // JSON records are keyed by header, so repeated titles must not collide
+  const seen = new Map<string, number>();
+  const headers = columns.map(({ header }) => {
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+  return {
+    headers,
+    rows: responses.map((r) => columns.map((c) => c.value(r))),
+  };
+}
+
+export interface LocaleVariant {
+  locale: string;
+  form: forms_v1.Schema$Form;
+  responses: forms_v1.Schema$FormResponse[];
+}
+
+export interface MergedResponses {
+  // The first variant's form, whose titles and option values the answers now use
+  form: forms_v1.Schema$Form;
+  responses: forms_v1.Schema$FormResponse[];
+  localeOf: (response: forms_v1.Schema$FormResponse) => string | undefined;
+}
+
+interface AnswerMapping {
+  questionId: string;
+  // Translated option value -> the first form's
+  values: Map<string, string>;
+}
+
+const itemKind = (item: forms_v1.Schema$Item): string =>
+  Object.keys(item).find((k) => k.endsWith('Item')) || '';
+
+function optionMap(from: forms_v1.Schema$Option[] = [], to: forms_v1.Schema$Option[] = []): Map<string, string> {
+  const values = new Map<string, string>();
+  from.forEach((option, i) => {
+    if (!option.isOther && to[i]?.value !== undefined) values.set(option.value || '', to[i].value || '');
+  });
+  return values;
+}
+
+/**
+ * How the questions of `form` correspond to those of `reference`. Forms
+ * generated from one definition in several languages have the same items in
+ * the same order, so they are matched by position.
+ */
+function answerMappings(form: forms_v1.Schema$Form, reference: forms_v1.Schema$Form, locale: string): Map<string, AnswerMapping> {
+  const items = form.items || [];
+  const referenceItems = reference.items || [];
+  const mismatch = () =>
+    new Error(`The ${locale} form no longer has the same questions as the others; generate every locale again to merge them`);
+  if (items.length !== referenceItems.length) throw mismatch();
+
+  const mappings = new Map<string, AnswerMapping>();
+  items.forEach((item, i) => {
+    const target = referenceItems[i];
+    if (itemKind(item) !== itemKind(target)) throw mismatch();
+    const question = item.questionItem?.question;
+    const targetQuestion = target.questionItem?.question;
+    if (question?.questionId && targetQuestion?.questionId) {
+      mappings.set(question.questionId, {
+        questionId: targetQuestion.questionId,
+        values: optionMap(question.choiceQuestion?.options, targetQuestion.choiceQuestion?.options),
+      });
+    }
+    const rows = item.questionGroupItem?.questions || [];
+    const targetRows = target.questionGroupItem?.questions || [];
+    if (rows.length !== targetRows.length) throw mismatch();
+    const columns = optionMap(item.questionGroupItem?.grid?.columns?.options, target.questionGroupItem?.grid?.columns?.options);
+    rows.forEach((row, j) => {
+      if (row.questionId && targetRows[j].questionId) {
+        mappings.set(row.questionId, { questionId: targetRows[j].questionId!, values: columns });
+      }
+    });
+  });
+  return mappings;
+}
+
+/**
+ * Responses to the language variants of one form, as if they were all
+ * answers to the first variant's form: question IDs and choice values are
+ * translated back, and the responses sorted by submission time.
+ */
+export function mergeLocaleVariants(variants: LocaleVariant[]): MergedResponses {
+  const [reference] = variants;
+  const locales = new WeakMap<forms_v1.Schema$FormResponse, string>();
+  const merged: forms_v1.Schema$FormResponse[] = [];
+
+  for (const variant of variants) {
+    const mappings = variant === reference ? undefined : answerMappings(variant.form, reference.form, variant.locale);
+    for (const response of variant.responses) {
+      const answers = Object.entries(response.answers || {}).map(([questionId, answer]) => {
+        const mapping = mappings?.get(questionId);
+        if (!mapping) return [questionId, answer] as const;
+        const textAnswers = answer.textAnswers && {
+          answers: (answer.textAnswers.answers || []).map((a) => ({
+            ...a,
+            value: mapping.values.get(a.value || '') ?? a.value,
+          })),
+        };
+        return [mapping.questionId, { ...answer, questionId: mapping.questionId, textAnswers }] as const;
+      });
+      const translated = { ...response, answers: Object.fromEntries(answers) };
+      locales.set(translated, variant.locale);
+      merged.push(translated);
+    }
+  }
+
+  const time = (r: forms_v1.Schema$FormResponse) => r.lastSubmittedTime || r.createTime || '';
+  return {
+    form: reference.form,
+    responses: merged.sort((a, b) => time(a).localeCompare(time(b))),
+    localeOf: (r) => locales.get(r),
+  };
+}
+
+const flatten = (cell: Cell): string =>
+  cell === null ? '' : Array.isArray(cell) ? cell.join('; ') : String(cell);
+
+function escapeCsv(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// TSV has no quoting, so tabs and line breaks inside answers become spaces
+const escapeTsv = (value: string): string => value.replace(/[\t\r\n]+/g, ' ');
+
+export function formatResponseTable(table: ResponseTable, format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+    case 'tsv': {
+      const escape = format === 'csv' ? escapeCsv : escapeTsv;
+      const separator = format === 'csv' ? ',' : '\t';
+      const lines = [table.headers, ...table.rows.map((row) => row.map(flatten))];
+      return lines.map((line) => line.map(escape).join(separator)).join('\n') + '\n';
+    }
+    case 'json':
+    case 'jsonl': {
+      const records = table.rows.map((row) =>
+        Object.fromEntries(table.headers.map((header, i) => [header, row[i]]))
+      );
+      return format === 'json'
+        ? JSON.stringify(records, null, 2) + '\n'
+        : records.map((record) => JSON.stringify(record) + '\n').join('');
+    }
+  }
+}
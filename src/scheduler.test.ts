@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import { FakeGoogleBackend } from './fake-google';
+import { Manifest } from './manifest';
+import { buildFormConfig } from './yaml-to-form';
+import { runScheduler } from './scheduler';
+
+const SURVEY = `
+title: Survey
+settings:
+  opensAt: "2030-01-01T09:00:00Z"
+  closesAt: "2030-01-02T09:00:00+00:00"
+questions:
+  - type: text
+    title: Name
+`;
+
+describe('runScheduler', () => {
+  let dir: string;
+  let cwd: string;
+  let backend: FakeGoogleBackend;
+  let generator: GoogleFormsGenerator;
+
+  beforeEach(() => {
+    cwd = process.cwd();
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gform-scheduler-')));
+    process.chdir(dir);
+    backend = new FakeGoogleBackend();
+    generator = new GoogleFormsGenerator({ forms: backend.forms, drive: backend.drive });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('opens and closes forms as window boundaries pass, leaving changes by hand in between', async () => {
+    fs.writeFileSync('survey.yaml', SURVEY);
+    fs.writeFileSync('other.yaml', 'title: Other\nquestions: []\n');
+    const formId = await generator.createForm(buildFormConfig(path.join(dir, 'survey.yaml')));
+    const otherId = await generator.createForm(buildFormConfig(path.join(dir, 'other.yaml')));
+    const entry = (id: string) => ({ formId: id, hash: '', createdAt: '', updatedAt: '' });
+    const manifest: Manifest = { version: 1, forms: { 'survey.yaml': entry(formId), 'other.yaml': entry(otherId) } };
+    const accepting = () => backend.form(formId).publishSettings?.publishState?.isAcceptingResponses;
+    const log: string[] = [];
+    const at = (now: string, dryRun = false) =>
+      runScheduler(manifest, generator, { now: new Date(now), dryRun, log: (line) => log.push(line) });
+
+    // Created outside its window, so already closed; forms without a window are not checked
+    expect(await at('2029-12-31T00:00:00Z')).toEqual([
+      { file: 'survey.yaml', formId, action: 'unchanged', reason: 'first check, outside the window' },
+    ]);
+    expect((await at('2029-12-31T12:00:00Z'))[0].action).toBe('waiting');
+
+    expect(await at('2030-01-01T10:00:00Z', true)).toMatchObject([{ action: 'opened' }]);
+    expect(accepting()).toBe(false);
+    expect(log).toEqual([`[2030-01-01T10:00:00.000Z] survey.yaml (form ${formId}) would be opened: opensAt 2030-01-01T09:00:00Z passed`]);
+
+    expect(await at('2030-01-01T10:00:00Z')).toMatchObject([{ action: 'opened', reason: 'opensAt 2030-01-01T09:00:00Z passed' }]);
+    expect(accepting()).toBe(true);
+
+    // Closed by hand: stays closed until the next boundary
+    await generator.setPublishState(formId, { isPublished: true, isAcceptingResponses: false });
+    expect((await at('2030-01-01T11:00:00Z'))[0].action).toBe('waiting');
+    expect(accepting()).toBe(false);
+
+    await generator.setPublishState(formId, { isPublished: true, isAcceptingResponses: true });
+    expect(await at('2030-01-02T10:00:00Z')).toMatchObject([{ action: 'closed', reason: 'closesAt 2030-01-02T09:00:00+00:00 passed' }]);
+    expect(accepting()).toBe(false);
+
+    expect(fs.readFileSync(path.join('.gform', 'scheduler.log'), 'utf8').trim().split('\n')).toEqual([
+      `2030-01-01T10:00:00.000Z survey.yaml (form ${formId}) opened: opensAt 2030-01-01T09:00:00Z passed`,
+      `2030-01-02T10:00:00.000Z survey.yaml (form ${formId}) closed: closesAt 2030-01-02T09:00:00+00:00 passed`,
+    ]);
+
+    fs.unlinkSync('survey.yaml');
+    expect(await at('2030-01-03T00:00:00Z')).toMatchObject([{ action: 'failed', error: expect.stringContaining('survey.yaml') }]);
+  });
+});
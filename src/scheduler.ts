@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import { AccessSettings, boundariesPassed, hasWindow, isOpenAt, planAccess } from './access';
+import { loadManifest, Manifest, MANIFEST_FILE, manifestKey, manifestPath, parseKey, variantKeys } from './manifest';
+import { buildFormConfig } from './yaml-to-form';
+import { Command, EXIT, formatTable, messageOf, pause, PROGRAM, untilStopped, UsageError } from './command';
+
+// `scheduler run`: opens and closes tracked forms as the opensAt/closesAt
+// window in their YAML says. A form is only changed once one of its
+// boundaries has passed since it was last checked, so opening or closing it
+// by hand in between holds until the next boundary. Each change is appended
+// to .gform/scheduler.log.
+
+export type ScheduleAction = 'opened' | 'closed' | 'unchanged' | 'waiting' | 'failed';
+
+export interface ScheduleEvent {
+  // The manifest key of the form's YAML
+  file: string;
+  formId: string;
+  action: ScheduleAction;
+  // Why the form was checked, e.g. "closesAt 2025-03-01T17:00:00Z passed"
+  reason?: string;
+  error?: string;
+}
+
+export interface SchedulerState {
+  // By manifest key: the form last checked and when
+  forms: Record<string, { formId: string; checkedAt: string }>;
+}
+
+export interface SchedulerOptions {
+  // Manifest keys to check; every tracked form by default
+  keys?: string[];
+  now?: Date;
+  dryRun?: boolean;
+  log?: (message: string) => void;
+}
+
+export const DEFAULT_INTERVAL_SECONDS = 60;
+
+const stateFile = () => path.join(process.cwd(), '.gform', 'scheduler.json');
+export const schedulerLogFile = () => path.join(process.cwd(), '.gform', 'scheduler.log');
+
+export function loadSchedulerState(): SchedulerState {
+  const file = stateFile();
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as SchedulerState) : { forms: {} };
+}
+
+function saveSchedulerState(state: SchedulerState): void {
+  fs.mkdirSync(path.dirname(stateFile()), { recursive: true });
+  fs.writeFileSync(stateFile(), JSON.stringify(state, null, 2));
+}
+
+export function formatEvent(event: ScheduleEvent, dryRun = false): string {
+  const verb = dryRun && (event.action === 'opened' || event.action === 'closed')
+    ? `would be ${event.action}`
+    : event.action;
+  const why = event.error || event.reason;
+  return `${event.file} (form ${event.formId}) ${verb}${why ? `: ${why}` : ''}`;
+}
+
+/**
+ * Check every scheduled form once: those whose window boundary has passed
+ * since the last check (or that were never checked) are opened or closed to
+ * match the window now. Returns what happened to each scheduled form.
+ */
+export async function runScheduler(
+  manifest: Manifest,
+  generator: GoogleFormsGenerator,
+  options: SchedulerOptions = {}
+): Promise<ScheduleEvent[]> {
+  const now = options.now || new Date();
+  const log = options.log || ((message) => console.log(message));
+  const state = loadSchedulerState();
+  const events: ScheduleEvent[] = [];
+
+  for (const key of options.keys || Object.keys(manifest.forms)) {
+    const { formId, options: buildOptions } = manifest.forms[key];
+    const event = (action: ScheduleAction, detail: Partial<ScheduleEvent> = {}) => {
+      events.push({ file: key, formId, action, ...detail });
+    };
+
+    let settings: AccessSettings;
+    try {
+      const yamlPath = path.join(path.dirname(manifestPath()), parseKey(key).file);
+      settings = buildFormConfig(yamlPath, buildOptions).settings || {};
+    } catch (error) {
+      event('failed', { error: messageOf(error) });
+      continue;
+    }
+    if (!hasWindow(settings)) continue;
+
+    const last = state.forms[key]?.formId === formId ? state.forms[key] : undefined;
+    const passed = boundariesPassed(settings, last && new Date(last.checkedAt), now);
+    if (last && passed.length === 0) {
+      event('waiting');
+      continue;
+    }
+
+    const open = isOpenAt(settings, now);
+    const boundary = passed.at(-1);
+    const reason = boundary ? `${boundary.boundary} ${boundary.at} passed` : `first check, ${open ? 'inside' : 'outside'} the window`;
+    try {
+      const window = { acceptingResponses: open };
+      const plan = options.dryRun
+        ? planAccess(await generator.getAccess(formId), window, formId)
+        : await generator.applyAccess(formId, window);
+      event(plan.publishState ? (open ? 'opened' : 'closed') : 'unchanged', { reason });
+      if (!options.dryRun) {
+        state.forms[key] = { formId, checkedAt: now.toISOString() };
+      }
+    } catch (error) {
+      // Not marked as checked, so the next run tries again
+      event('failed', { reason, error: messageOf(error) });
+    }
+  }
+
+  const changes = events.filter((e) => e.action === 'opened' || e.action === 'closed' || e.action === 'failed');
+  for (const change of changes) {
+    log(`[${now.toISOString()}] ${formatEvent(change, options.dryRun)}`);
+  }
+  if (!options.dryRun) {
+    saveSchedulerState(state);
+    if (changes.length > 0) {
+      fs.appendFileSync(schedulerLogFile(), changes.map((e) => `${now.toISOString()} ${formatEvent(e)}\n`).join(''));
+    }
+  }
+  return events;
+}
+
+function formatEvents(events: ScheduleEvent[], dryRun: boolean): string {
+  const rows = [
+    ['FILE', 'FORM ID', 'RESULT', 'REASON'],
+    ...events.map((e) => [
+      e.file,
+      e.formId,
+      dryRun && (e.action === 'opened' || e.action === 'closed') ? `would be ${e.action}` : e.action,
+      e.error || e.reason || '-',
+    ]),
+  ];
+  return formatTable(rows);
+}
+
+export const schedulerRunCommand: Command = {
+  name: 'scheduler run',
+  summary: 'Open and close tracked forms as their opensAt/closesAt windows say',
+  usage: '[<file>...] [options]',
+  description: [
+    `Checks every form tracked in ${MANIFEST_FILE} whose YAML sets \`opensAt\` or \`closesAt\`.`,
+    'A form is opened or closed once a boundary of its window has passed since it was last',
+    'checked; in between, a form opened or closed by hand is left alone. Run it from cron, or',
+    'keep it running with --watch. Each change is logged, and appended to .gform/scheduler.log.',
+  ],
+  options: {
+    'dry-run': { type: 'boolean', aliases: ['plan'], description: 'Show what would be opened or closed, without changing anything' },
+    watch: { type: 'boolean', short: 'w', description: 'Keep checking until interrupted' },
+    interval: { type: 'string', value: 'seconds', description: `With --watch, how often to check (default: ${DEFAULT_INTERVAL_SECONDS})` },
+  },
+  examples: [
+    `${PROGRAM} scheduler run --dry-run`,
+    `*/5 * * * * cd /path/to/forms && ${PROGRAM} scheduler run`,
+    `${PROGRAM} scheduler run --watch --interval 30`,
+  ],
+  async run(ctx) {
+    const dryRun = ctx.values['dry-run'] === true;
+    const interval = Number(ctx.values.interval ?? DEFAULT_INTERVAL_SECONDS);
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new UsageError(`--interval must be a whole number of seconds, at least 1, got "${ctx.values.interval}"`);
+    }
+    if (ctx.values.watch && dryRun) {
+      throw new UsageError('--watch cannot be used with --dry-run');
+    }
+
+    const manifest = loadManifest();
+    let keys: string[] | undefined;
+    if (ctx.positionals.length > 0) {
+      keys = ctx.positionals.flatMap((file) => {
+        const variants = variantKeys(manifest, manifestKey(file));
+        if (variants.length === 0) throw new UsageError(`${file} is not tracked in ${MANIFEST_FILE}`);
+        return variants;
+      });
+    }
+    const generator = await ctx.signIn();
+
+    if (!ctx.values.watch) {
+      const events = await runScheduler(manifest, generator, { keys, dryRun, log: () => {} });
+      if (events.length === 0) {
+        return { data: events, text: 'No tracked form sets `opensAt` or `closesAt` in its settings.' };
+      }
+      const failed = events.some((e) => e.action === 'failed');
+      return { data: events, text: formatEvents(events, dryRun), exitCode: failed ? EXIT.error : EXIT.ok };
+    }
+
+    const stop = untilStopped();
+    console.log(`Checking scheduled forms every ${interval}s. Press Ctrl+C to stop.`);
+    let checks = 0;
+    const totals = { opened: 0, closed: 0, failed: 0 };
+    do {
+      // The lock file may have gained forms since the last check
+      const events = await runScheduler(keys ? manifest : loadManifest(), generator, { keys });
+      checks++;
+      for (const e of events) {
+        if (e.action === 'opened' || e.action === 'closed' || e.action === 'failed') totals[e.action]++;
+      }
+    } while (!(await pause(interval * 1000, stop)));
+    return {
+      data: { checks, ...totals },
+      text: `\nStopped after ${checks} check(s): ${totals.opened} opened, ${totals.closed} closed, ${totals.failed} failed.`,
+    };
+  },
+};
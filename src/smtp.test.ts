@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as net from 'net';
+import { parseSmtpUrl, sendMail } from './smtp';
+
+describe('sendMail', () => {
+  let server: net.Server;
+  let port: number;
+  let commands: string[];
+  let data: string;
+
+  // Answers like a mail server that takes AUTH PLAIN and rejects mail to nobody@
+  beforeEach(async () => {
+    commands = [];
+    data = '';
+    server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued\r\n');
+        }
+        let end: number;
+        while (!inData && (end = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          commands.push(line);
+          const verb = line.split(/[\s:]/)[0];
+          if (verb === 'EHLO') socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+          else if (verb === 'AUTH') socket.write('235 ok\r\n');
+          else if (line.startsWith('RCPT TO:<nobody@')) socket.write('550 no such user\r\n');
+          else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('never sends the password over a connection without TLS', async () => {
+    const config = parseSmtpUrl(`smtp://bot%40example.com@127.0.0.1:${port}`, 's3cret');
+
+    await expect(
+      sendMail(config, { from: 'bot@example.com', to: ['ann@example.com'], subject: 'x', text: 'x' })
+    ).rejects.toThrow('127.0.0.1 did not offer STARTTLS; refusing to send the password unencrypted');
+    expect(commands).toEqual([expect.stringMatching(/^EHLO /)]);
+  });
+
+  it('signs in and sends a base64 plain-text message', async () => {
+    const parsed = parseSmtpUrl(`smtp://bot%40example.com@127.0.0.1:${port}`, 's3cret');
+    expect(parsed).toEqual({ host: '127.0.0.1', port, secure: false, user: 'bot@example.com', password: 's3cret' });
+    // The test server has no TLS, so signing in needs the opt-in
+    const config = { ...parsed, insecure: true };
+
+    await sendMail(config, { from: 'bot@example.com', to: ['ann@example.com'], subject: 'Réponse', text: 'Name: Ann\nTools: Vim' });
+    expect(commands.map((c) => c.split(' ')[0])).toEqual(['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+    expect(Buffer.from(commands[1].split(' ')[2], 'base64').toString()).toBe('\0bot@example.com\0s3cret');
+    const [headers, body] = data.split('\r\n\r\n');
+    expect(headers).toContain('Subject: =?UTF-8?B?UsOpcG9uc2U=?=');
+    expect(Buffer.from(body, 'base64').toString()).toBe('Name: Ann\r\nTools: Vim');
+
+    await expect(
+      sendMail({ ...config, user: undefined }, { from: 'bot@example.com', to: ['nobody@example.com'], subject: 'x', text: 'x' })
+    ).rejects.toThrow('127.0.0.1 answered RCPT with 550 no such user');
+    expect(() => parseSmtpUrl('https://mail.example.com')).toThrow('Invalid SMTP server');
+  });
+});
@@ -0,0 +1,216 @@
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+
+// Just enough SMTP to send one plain-text message: EHLO, STARTTLS when the
+// server offers it, AUTH PLAIN (only over TLS), the message, QUIT.
+
+export const SMTP_ENV = {
+  url: 'GFORM_SMTP',                 // smtp://user@host:587 or smtps://user@host:465
+  password: 'GFORM_SMTP_PASSWORD',   // Used when the URL has none
+};
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // TLS from the start (smtps://); otherwise upgraded with STARTTLS when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // Sign in even when the server offers no STARTTLS, sending the password in the clear
+  insecure?: boolean;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  // Lets mail clients drop a copy that arrives twice
+  messageId?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export function parseSmtpUrl(url: string, password = process.env[SMTP_ENV.password]): SmtpConfig {
+  let parsed: URL | undefined;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // Reported below
+  }
+  if (!parsed || (parsed.protocol !== 'smtp:' && parsed.protocol !== 'smtps:') || !parsed.hostname) {
+    throw new Error(`Invalid SMTP server "${url}" (expected smtp://[user@]host[:port] or smtps://...)`);
+  }
+  const secure = parsed.protocol === 'smtps:';
+  return {
+    host: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : secure ? 465 : 587,
+    secure,
+    user: decodeURIComponent(parsed.username) || undefined,
+    password: decodeURIComponent(parsed.password) || password || undefined,
+  };
+}
+
+// Non-ASCII subjects go as an RFC 2047 encoded word
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// The message as sent after DATA; a base64 body has no lines starting with "."
+export function formatMessage(message: MailMessage, date = new Date()): string {
+  const headers = [
+    `From: <${message.from}>`,
+    `To: ${message.to.map((to) => `<${to}>`).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    ...(message.messageId ? [`Message-ID: <${message.messageId}>`] : []),
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').match(/.{1,76}/g) || [];
+  return [...headers, '', ...body].join('\r\n');
+}
+
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private error?: Error;
+
+  constructor(
+    socket: net.Socket,
+    private readonly config: SmtpConfig,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error(`No answer from ${this.config.host}:${this.config.port} within ${this.timeoutMs / 1000}s`))
+    );
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error(`${this.config.host} closed the connection`)));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line.slice(4));
+      // "250-..." continues a reply; "250 ..." ends it
+      if (line[3] === '-') continue;
+      this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines });
+      this.lines = [];
+    }
+    if (this.waiting && this.replies.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = undefined;
+      resolve(this.replies.shift()!);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(this.error);
+    }
+  }
+
+  private reply(): Promise<SmtpReply> {
+    const next = this.replies.shift();
+    if (next) return Promise.resolve(next);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /** Send a command (none to read the greeting) and check the reply code. */
+  async command(line: string | undefined, expected: number[], label?: string): Promise<SmtpReply> {
+    if (line !== undefined) this.socket.write(`${line}\r\n`);
+    const reply = await this.reply();
+    if (!expected.includes(reply.code)) {
+      // Only the verb, so AUTH never puts the password in an error
+      const verb = label || (line === undefined ? 'the connection' : line.split(/[\s:]/)[0]);
+      throw new Error(`${this.config.host} answered ${verb} with ${reply.code} ${reply.lines.join(' ')}`.trim());
+    }
+    return reply;
+  }
+
+  async startTls(): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    const secure = tls.connect({ socket: plain, servername: this.config.host });
+    this.attach(secure);
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Send `message` through the server in `config`. Rejects with the server's
+ * answer when it refuses a step.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<void> {
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  const session = new SmtpSession(socket, config, timeoutMs);
+  try {
+    await session.command(undefined, [220]);
+    const ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+    let encrypted = config.secure;
+    if (!encrypted && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', [220]);
+      await session.startTls();
+      encrypted = true;
+      await session.command(`EHLO ${os.hostname()}`, [250]);
+    }
+    if (config.user) {
+      if (!encrypted && !config.insecure) {
+        throw new Error(
+          `${config.host} did not offer STARTTLS; refusing to send the password unencrypted (use smtps://, or --smtp-insecure to send it anyway)`
+        );
+      }
+      if (!config.password) {
+        throw new Error(`No SMTP password for ${config.user}; set ${SMTP_ENV.password}`);
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await session.command(`MAIL FROM:<${message.from}>`, [250]);
+    for (const to of message.to) {
+      await session.command(`RCPT TO:<${to}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    await session.command(`${formatMessage(message)}\r\n.`, [250], 'the message');
+    // The message is accepted; a server that hangs up without answering QUIT is fine
+    await session.command('QUIT', [221]).catch(() => {});
+  } finally {
+    session.close();
+  }
+}
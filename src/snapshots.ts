@@ -0,0 +1,37 @@
+import { forms_v1 } from 'googleapis';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Local copies of forms as last seen after a generate, so that a dry run can
+// diff against them without credentials or network access.
+
+export const SNAPSHOT_DIR = path.join(process.cwd(), '.gform', 'snapshots');
+
+export function snapshotPath(formId: string): string {
+  return path.join(SNAPSHOT_DIR, `${formId}.json`);
+}
+
+export function saveSnapshot(form: forms_v1.Schema$Form): string {
+  if (!form.formId) {
+    throw new Error('Cannot snapshot a form without a formId');
+  }
+  const file = snapshotPath(form.formId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(form, null, 2));
+  return file;
+}
+
+/**
+ * Read a snapshot from an explicit file, or from the cache by form ID.
+ * Returns undefined when there is none.
+ */
+export function loadSnapshot(source: { file?: string; formId?: string }): forms_v1.Schema$Form | undefined {
+  const file = source.file || (source.formId ? snapshotPath(source.formId) : undefined);
+  if (!file || !fs.existsSync(file)) {
+    if (source.file) {
+      throw new Error(`Snapshot not found: ${source.file}`);
+    }
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import {
+  configHash,
+  loadManifest,
+  Manifest,
+  ManifestEntry,
+  MANIFEST_FILE,
+  manifestKey,
+  manifestPath,
+  parseKey,
+  variantKeys,
+} from './manifest';
+import { buildFormConfig } from './yaml-to-form';
+import { Command, formatTable, PROGRAM, UsageError } from './command';
+
+// The YAML file compared with what was last applied from it
+export type LocalState = 'unchanged' | 'modified' | 'missing' | 'invalid';
+// The live form compared with how the last apply left it
+export type RemoteState = 'in sync' | 'edited' | 'deleted' | 'unknown';
+
+export interface TrackedStatus {
+  file: string;
+  formId: string;
+  updatedAt: string;
+  local: LocalState;
+  // Absent when the live forms were not checked
+  remote?: RemoteState;
+}
+
+export function localState(
+  key: string,
+  entry: ManifestEntry,
+  file = manifestPath()
+): LocalState {
+  const yamlPath = path.join(path.dirname(file), parseKey(key).file);
+  if (!fs.existsSync(yamlPath)) {
+    return 'missing';
+  }
+  try {
+    return configHash(buildFormConfig(yamlPath, entry.options)) === entry.hash ? 'unchanged' : 'modified';
+  } catch {
+    return 'invalid';
+  }
+}
+
+export async function remoteState(
+  generator: GoogleFormsGenerator,
+  entry: ManifestEntry
+): Promise<RemoteState> {
+  try {
+    const form = await generator.getForm(entry.formId);
+    if (!entry.revisionId || !form.revisionId) return 'unknown';
+    return form.revisionId === entry.revisionId ? 'in sync' : 'edited';
+  } catch (error) {
+    if ((error as { response?: { status?: number } })?.response?.status === 404) return 'deleted';
+    throw error;
+  }
+}
+
+/**
+ * The state of every tracked form, or only of `files`. With a generator, the
+ * live forms are checked as well.
+ */
+export async function trackedStatus(
+  manifest: Manifest,
+  options: { files?: string[]; generator?: GoogleFormsGenerator } = {}
+): Promise<TrackedStatus[]> {
+  const keys = options.files
+    ? options.files.flatMap((f) => {
+      const variants = variantKeys(manifest, manifestKey(f));
+      return variants.length > 0 ? variants : [manifestKey(f)];
+    })
+    : Object.keys(manifest.forms);
+  const statuses: TrackedStatus[] = [];
+  for (const key of keys) {
+    const entry = manifest.forms[key];
+    if (!entry) {
+      throw new Error(`${key} is not tracked in ${MANIFEST_FILE}`);
+    }
+    const status: TrackedStatus = {
+      file: key,
+      formId: entry.formId,
+      updatedAt: entry.updatedAt,
+      local: localState(key, entry),
+    };
+    if (options.generator) {
+      status.remote = await remoteState(options.generator, entry);
+    }
+    statuses.push(status);
+  }
+  return statuses;
+}
+
+function formatStatus(statuses: TrackedStatus[]): string {
+  const rows = [
+    ['FILE', 'FORM ID', 'YAML', 'FORM', 'LAST APPLIED'],
+    ...statuses.map((s) => [s.file, s.formId, s.local, s.remote || '-', s.updatedAt]),
+  ];
+  return formatTable(rows);
+}
+
+export const statusCommand: Command = {
+  name: 'status',
+  summary: `List the forms tracked in ${MANIFEST_FILE} and whether they have drifted`,
+  usage: '[<file>...] [options]',
+  description: [
+    'YAML: unchanged, modified since it was last applied, missing, or invalid.',
+    'FORM: in sync, edited in Google Forms since the last apply, deleted, or unknown.',
+  ],
+  options: {
+    local: { type: 'boolean', description: 'Only compare the YAML files; do not sign in or check the live forms' },
+  },
+  examples: [`${PROGRAM} status`, `${PROGRAM} status forms/survey.yaml --local --json`],
+  async run(ctx) {
+    const manifest = loadManifest();
+    if (Object.keys(manifest.forms).length === 0) {
+      return { data: [], text: `No forms are tracked in ${MANIFEST_FILE} yet. Run \`${PROGRAM} generate <file>\` to add one.` };
+    }
+
+    const files = ctx.positionals.length > 0 ? ctx.positionals : undefined;
+    const untracked = files?.find((f) => variantKeys(manifest, manifestKey(f)).length === 0);
+    if (untracked) {
+      throw new UsageError(`${untracked} is not tracked in ${MANIFEST_FILE}`);
+    }
+
+    const generator = ctx.values.local ? undefined : await ctx.signIn();
+    const statuses = await trackedStatus(manifest, { files, generator });
+    return { data: statuses, text: formatStatus(statuses) };
+  },
+};
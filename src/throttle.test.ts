@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Clock, mapWithConcurrency, RateLimiter } from './throttle';
+import { FakeApiError } from './fake-google';
+
+function fakeClock(): Clock & { time: number; sleeps: number[] } {
+  const clock = {
+    time: 0,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+}
+
+describe('RateLimiter', () => {
+  it('spaces requests evenly across the minute', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(120, 3, clock);
+    const starts: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      await limiter.run(async () => starts.push(clock.time));
+    }
+    expect(starts).toEqual([0, 500, 1000]);
+  });
+
+  it('retries quota errors with backoff, and gives up on other errors', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(60_000, 2, clock);
+    let calls = 0;
+    const result = await limiter.run(async () => {
+      if (++calls < 3) throw new FakeApiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded');
+      return 'ok';
+    });
+    expect(result).toBe('ok');
+    expect(clock.sleeps.filter((ms) => ms >= 5_000)).toEqual([5_000, 10_000]);
+
+    await expect(limiter.run(async () => { throw new FakeApiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded'); }))
+      .rejects.toThrow('Quota exceeded');
+    let failures = 0;
+    await expect(limiter.run(async () => { failures++; throw new FakeApiError(400, 'INVALID_ARGUMENT', 'Bad'); }))
+      .rejects.toThrow('Bad');
+    expect(failures).toBe(1);
+  });
+
+  it('rejects a rate that is not positive', () => {
+    expect(() => new RateLimiter(0)).toThrow('positive');
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps at most `limit` calls in flight and returns results in order', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      active--;
+      return i;
+    });
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,110 @@
+import { DriveClient, FormsClient } from './clients';
+
+// Client-side pacing for batch runs. The Forms API enforces its quotas per
+// minute, per user and per project; a run that stays under them does not
+// have to recover from a wall of 429s.
+
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const realClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+const isQuotaError = (error: unknown): boolean =>
+  (error as { response?: { status?: number } })?.response?.status === 429;
+
+/**
+ * Spaces requests evenly at `requestsPerMinute`, and retries a request that
+ * still hits a quota error after an exponential backoff.
+ */
+export class RateLimiter {
+  private nextStart = 0;
+
+  constructor(
+    private readonly requestsPerMinute: number,
+    private readonly retries = 3,
+    private readonly clock: Clock = realClock
+  ) {
+    if (!(requestsPerMinute > 0)) {
+      throw new Error(`Requests per minute must be a positive number, got ${requestsPerMinute}`);
+    }
+  }
+
+  // Wait for this request's slot; slots are handed out in call order
+  async take(): Promise<void> {
+    const now = this.clock.now();
+    const start = Math.max(now, this.nextStart);
+    this.nextStart = start + 60_000 / this.requestsPerMinute;
+    if (start > now) {
+      await this.clock.sleep(start - now);
+    }
+  }
+
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.take();
+      try {
+        return await request();
+      } catch (error) {
+        if (!isQuotaError(error) || attempt >= this.retries) {
+          throw error;
+        }
+        await this.clock.sleep(2 ** attempt * 5_000);
+      }
+    }
+  }
+}
+
+export function throttleForms(client: FormsClient, limiter: RateLimiter): FormsClient {
+  const { forms } = client;
+  return {
+    forms: {
+      create: (params) => limiter.run(() => forms.create(params)),
+      get: (params) => limiter.run(() => forms.get(params)),
+      batchUpdate: (params) => limiter.run(() => forms.batchUpdate(params)),
+      setPublishSettings: (params) => limiter.run(() => forms.setPublishSettings(params)),
+      responses: {
+        list: (params) => limiter.run(() => forms.responses.list(params)),
+      },
+    },
+  };
+}
+
+export function throttleDrive(client: DriveClient, limiter: RateLimiter): DriveClient {
+  return {
+    about: { get: (params) => limiter.run(() => client.about.get(params)) },
+    files: {
+      list: (params) => limiter.run(() => client.files.list(params)),
+      delete: (params) => limiter.run(() => client.files.delete(params)),
+    },
+    permissions: {
+      list: (params) => limiter.run(() => client.permissions.list(params)),
+      create: (params) => limiter.run(() => client.permissions.create(params)),
+      delete: (params) => limiter.run(() => client.permissions.delete(params)),
+    },
+  };
+}
+
+/**
+ * Map over `items` with at most `limit` calls in flight, keeping the order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
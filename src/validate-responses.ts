@@ -1,6 +1,8 @@
-import GoogleFormsGenerator from './index';
+import { forms_v1 } from 'googleapis';
+import { syncResponses } from './response-cache';
+import { Command, EXIT, main, PROGRAM, UsageError } from './command';
 
-interface ValidationIssue {
+export interface ValidationIssue {
   responseId: string;
   respondentEmail?: string;
   questionTitle: string;
@@ -8,37 +10,14 @@ interface ValidationIssue {
   submittedAt: string;
 }
 
-async function main() {
-  const args = process.argv.slice(2);
-
-  if (args.length === 0) {
-    console.log('Usage: npm run validate -- <form-id>');
-    console.log('');
-    console.log('Validates form responses and flags empty "Other" selections.');
-    console.log('');
-    console.log('Example: npm run validate -- 1PgCgSFiejFfQw33UkK8oBmbocxrz00amqNRqEYftbGY');
-    process.exit(1);
-  }
-
-  const formId = args[0];
-
-  const generator = new GoogleFormsGenerator();
-  await generator.authenticate();
-
-  console.log('Fetching form structure...');
-  const form = await generator.getForm(formId);
-
-  console.log('Fetching responses...');
-  const responsesData = await generator.getResponses(formId);
-  const responses = responsesData.responses || [];
-
-  if (responses.length === 0) {
-    console.log('\nNo responses found.');
-    return;
-  }
-
-  console.log(`\nFound ${responses.length} response(s). Validating...\n`);
-
+/**
+ * Flag empty text answers. Google Forms records "Other" selected with nothing
+ * typed into it as an empty string, so these are mostly empty "Other" selections.
+ */
+export function findResponseIssues(
+  form: forms_v1.Schema$Form,
+  responses: forms_v1.Schema$FormResponse[]
+): ValidationIssue[] {
   // Build a map of questionId -> question title
   const questionMap = new Map<string, string>();
   for (const item of form.items || []) {
@@ -63,20 +42,10 @@ async function main() {
 
     for (const [questionId, answer] of Object.entries(response.answers || {})) {
       const questionTitle = questionMap.get(questionId) || 'Unknown question';
-      const textAnswers = (answer as any).textAnswers?.answers || [];
+      const textAnswers = answer.textAnswers?.answers || [];
 
       for (const textAnswer of textAnswers) {
-        const value = textAnswer.value || '';
-
-        // Check for empty "Other" - Google Forms marks these with a specific pattern
-        // When "Other" is selected but empty, the value is empty string
-        // When "Other" is selected with text, the value is the custom text
-        // We need to check if "Other" was selected by looking at the answer structure
-
-        // For choice questions, if isOther was selected, check if text is empty
-        if ((answer as any).textAnswers && value === '') {
-          // This could be an empty "Other" field
-          // We flag responses where a text answer field is empty
+        if ((textAnswer.value || '') === '') {
           issues.push({
             responseId,
             respondentEmail,
@@ -89,21 +58,65 @@ async function main() {
     }
   }
 
+  return issues;
+}
+
+function formatIssues(issues: ValidationIssue[]): string {
   if (issues.length === 0) {
-    console.log('✓ All responses valid. No empty "Other" selections found.');
-  } else {
-    console.log(`Found ${issues.length} potential issue(s):\n`);
-    for (const issue of issues) {
-      console.log(`Response: ${issue.responseId}`);
-      if (issue.respondentEmail) {
-        console.log(`  Email: ${issue.respondentEmail}`);
-      }
-      console.log(`  Question: ${issue.questionTitle}`);
-      console.log(`  Issue: ${issue.issue}`);
-      console.log(`  Submitted: ${issue.submittedAt}`);
-      console.log('');
+    return '✓ All responses valid. No empty "Other" selections found.';
+  }
+  const lines = [`Found ${issues.length} potential issue(s):\n`];
+  for (const issue of issues) {
+    lines.push(`Response: ${issue.responseId}`);
+    if (issue.respondentEmail) {
+      lines.push(`  Email: ${issue.respondentEmail}`);
     }
+    lines.push(`  Question: ${issue.questionTitle}`);
+    lines.push(`  Issue: ${issue.issue}`);
+    lines.push(`  Submitted: ${issue.submittedAt}`);
+    lines.push('');
   }
+  return lines.join('\n');
 }
 
-main().catch(console.error);
+export const validateCommand: Command = {
+  name: 'validate',
+  summary: 'Check responses for empty "Other" selections',
+  usage: '<form-id> [options]',
+  description: [`Exits with ${EXIT.invalid} if any response has a problem.`],
+  options: {
+    incremental: {
+      type: 'boolean',
+      description: 'Only check responses new or edited since the last pull',
+    },
+  },
+  examples: [`${PROGRAM} validate 1PgCgSFiejFfQw33UkK8oBmbocxrz00amqNRqEYftbGY`],
+  async run(ctx) {
+    const [formId] = ctx.positionals;
+    if (!formId) {
+      throw new UsageError('No form ID specified');
+    }
+    const incremental = ctx.values.incremental === true;
+
+    const generator = await ctx.signIn();
+    console.log('Fetching form structure...');
+    const form = await generator.getForm(formId);
+
+    console.log('Fetching responses...');
+    const sync = await syncResponses(generator, formId, { incremental });
+    const responses = incremental ? sync.changed : sync.responses;
+    const issues = findResponseIssues(form, responses);
+
+    return {
+      data: { formId, checked: responses.length, issues },
+      text: responses.length === 0
+        ? '\nNo responses found.'
+        : `\nFound ${responses.length} response(s). Validating...\n\n${formatIssues(issues)}`,
+      exitCode: issues.length > 0 ? EXIT.invalid : EXIT.ok,
+    };
+  },
+};
+
+if (require.main === module) {
+  main([validateCommand], ['validate', ...process.argv.slice(2)]);
+}
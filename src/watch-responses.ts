@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import { commandSink, DEFAULT_ATTEMPTS, emailSink, pollResponses, Sink, webhookSink } from './notify';
+import { parseSmtpUrl, SMTP_ENV } from './smtp';
+import { loadManifest, MANIFEST_FILE, manifestKey, variantKeys } from './manifest';
+import { Command, EXIT, main, messageOf, pause, PROGRAM, untilStopped, UsageError } from './command';
+
+export const DEFAULT_POLL_SECONDS = 60;
+
+const list = (value: string | string[] | boolean | undefined): string[] =>
+  Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+
+/**
+ * The forms to watch: each argument is a form ID or a YAML file tracked in
+ * the manifest (every language of it); none means every tracked form.
+ */
+function watchedForms(targets: string[]): string[] {
+  const manifest = loadManifest();
+  if (targets.length === 0) {
+    const all = [...new Set(Object.values(manifest.forms).map((entry) => entry.formId))];
+    if (all.length === 0) {
+      throw new UsageError(`No forms are tracked in ${MANIFEST_FILE}; pass form IDs or YAML files to watch`);
+    }
+    return all;
+  }
+  return targets.flatMap((target) => {
+    if (!(fs.existsSync(target) && fs.statSync(target).isFile())) return [target];
+    const keys = variantKeys(manifest, manifestKey(target));
+    if (keys.length === 0) {
+      throw new UsageError(`${target} is not tracked in ${MANIFEST_FILE}; generate it first, or pass a form ID`);
+    }
+    return keys.map((key) => manifest.forms[key].formId);
+  });
+}
+
+function sinksFrom(values: Record<string, string | string[] | boolean | undefined>): Sink[] {
+  const sinks = [...list(values.webhook).map(webhookSink), ...list(values.exec).map(commandSink)];
+  const to = list(values.email);
+  if (to.length > 0) {
+    const url = (values.smtp as string | undefined) || process.env[SMTP_ENV.url];
+    if (!url) {
+      throw new UsageError(`--email needs an SMTP server: pass --smtp or set ${SMTP_ENV.url}`);
+    }
+    let smtp;
+    try {
+      smtp = { ...parseSmtpUrl(url), insecure: values['smtp-insecure'] === true };
+    } catch (error) {
+      throw new UsageError(messageOf(error));
+    }
+    const from = (values.from as string | undefined) || (smtp.user?.includes('@') ? smtp.user : `gform@${os.hostname()}`);
+    sinks.push(emailSink(smtp, from, to));
+  }
+  if (sinks.length === 0) {
+    throw new UsageError('Nowhere to send responses; give at least one of --webhook, --exec or --email');
+  }
+  return sinks;
+}
+
+export const watchResponsesCommand: Command = {
+  name: 'responses watch',
+  summary: 'Send each new response to a webhook, a command or an email address',
+  usage: '[<form-id|file>...] [options]',
+  description: [
+    `Polls the forms given (by default every form tracked in ${MANIFEST_FILE}) and sends each`,
+    'new response, with its answers under their question titles, to every sink:',
+    '  --webhook  POSTs the response as JSON, with an Idempotency-Key header',
+    '  --exec     runs a shell command with the response as JSON on stdin',
+    '  --email    emails it through the SMTP server in --smtp (smtp:// or smtps://); the',
+    '             password is only sent over TLS, unless --smtp-insecure is given',
+    `A failed delivery is retried ${DEFAULT_ATTEMPTS} times, then again on every later poll. Each form's`,
+    'cursor and the responses already sent are kept in .gform/notify/<form-id>.json, so no',
+    'response is sent twice, edits included. The first poll of a form only sets its cursor.',
+  ],
+  options: {
+    webhook: { type: 'string', value: 'url', multiple: true, description: 'POST each response as JSON to this URL' },
+    exec: { type: 'string', value: 'command', multiple: true, description: 'Run this shell command with each response on stdin' },
+    email: { type: 'string', value: 'address', multiple: true, description: 'Email each response to this address' },
+    smtp: { type: 'string', value: 'url', description: `SMTP server for --email (default: $${SMTP_ENV.url}); password from $${SMTP_ENV.password}` },
+    'smtp-insecure': { type: 'boolean', description: 'Sign in to an smtp:// server that offers no STARTTLS, sending the password unencrypted' },
+    from: { type: 'string', value: 'address', description: 'Sender of the emails (default: the SMTP user)' },
+    interval: { type: 'string', value: 'seconds', description: `How often to poll (default: ${DEFAULT_POLL_SECONDS})` },
+    once: { type: 'boolean', description: 'Poll once and exit, e.g. from cron' },
+    'include-existing': { type: 'boolean', description: 'On the first poll of a form, send the responses it already has' },
+  },
+  examples: [
+    `${PROGRAM} responses watch survey.yaml --webhook https://example.com/hooks/survey`,
+    `${PROGRAM} responses watch <form-id> --exec 'jq -r .answers >> answers.log'`,
+    `${PROGRAM} responses watch --email team@example.com --smtp smtp://bot%40example.com@smtp.example.com:587`,
+    `*/5 * * * * cd /path/to/forms && ${PROGRAM} responses watch --once --webhook https://example.com/hook`,
+  ],
+  async run(ctx) {
+    const interval = Number(ctx.values.interval ?? DEFAULT_POLL_SECONDS);
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new UsageError(`--interval must be a whole number of seconds, at least 1, got "${ctx.values.interval}"`);
+    }
+    const sinks = sinksFrom(ctx.values);
+    const formIds = watchedForms(ctx.positionals);
+    const includeExisting = ctx.values['include-existing'] === true;
+    const generator = await ctx.signIn();
+    const log = (message: string) => console.log(`[${new Date().toISOString()}] ${message}`);
+    const totals = { delivered: 0, failed: 0, errors: 0 };
+
+    const poll = async () => {
+      for (const formId of formIds) {
+        try {
+          const result = await pollResponses(generator, formId, sinks, { includeExisting, log });
+          totals.delivered += result.delivered;
+          totals.failed += result.failed;
+        } catch (error) {
+          // One form failing to poll (a network error, a deleted form) does not stop the others
+          totals.errors++;
+          log(`Could not poll form ${formId}: ${messageOf(error)}`);
+        }
+      }
+    };
+
+    if (ctx.values.once) {
+      await poll();
+      const failures = totals.failed + totals.errors;
+      return {
+        data: { forms: formIds, ...totals },
+        text: `Sent ${totals.delivered} response(s)` + (failures > 0 ? `; ${failures} failure(s), retried on the next run.` : '.'),
+        exitCode: failures > 0 ? EXIT.error : EXIT.ok,
+      };
+    }
+
+    const stop = untilStopped();
+    log(`Watching ${formIds.length} form(s) every ${interval}s, sending to ${sinks.map((s) => s.name).join('; ')}. Press Ctrl+C to stop.`);
+    let polls = 0;
+    do {
+      await poll();
+      polls++;
+    } while (!(await pause(interval * 1000, stop)));
+    return {
+      data: { forms: formIds, polls, ...totals },
+      text: `\nStopped after ${polls} poll(s): ${totals.delivered} response(s) sent, ${totals.failed + totals.errors} failure(s).`,
+    };
+  },
+};
+
+if (require.main === module) {
+  main([watchResponsesCommand], ['responses', 'watch', ...process.argv.slice(2)]);
+}
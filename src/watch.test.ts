@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import { FakeGoogleBackend } from './fake-google';
+import { buildFormConfig } from './yaml-to-form';
+import { loadManifest } from './manifest';
+import { FormWatcher, WatchOptions } from './watch';
+
+vi.mock('./snapshots', () => ({ saveSnapshot: vi.fn(), loadSnapshot: vi.fn() }));
+
+describe('FormWatcher', () => {
+  let dir: string;
+  let cwd: string;
+  let backend: FakeGoogleBackend;
+  let generator: GoogleFormsGenerator;
+  let logged: string[];
+
+  const write = (file: string, lines: string[]) => {
+    fs.writeFileSync(path.join(dir, file), lines.join('\n') + '\n');
+  };
+  const survey = (extra: string[] = []) =>
+    write('survey.yaml', [
+      'title: Kickoff',
+      'questions:',
+      '  - include: common.yaml',
+      '  - type: text',
+      '    title: Team',
+      ...extra,
+    ]);
+
+  const watcherFor = async (options: WatchOptions = {}) => {
+    const formId = await generator.createForm(buildFormConfig('survey.yaml'));
+    const lock = { key: 'survey.yaml', options: {} };
+    return {
+      formId,
+      watcher: new FormWatcher({ file: 'survey.yaml', formId, options: {}, lock }, generator, {
+        log: (message) => logged.push(message),
+        ...options,
+      }),
+    };
+  };
+
+  beforeEach(() => {
+    cwd = process.cwd();
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gform-watch-')));
+    process.chdir(dir);
+    backend = new FakeGoogleBackend();
+    generator = new GoogleFormsGenerator({ forms: backend.forms, drive: backend.drive });
+    logged = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    write('common.yaml', ['- type: text', '  title: Name']);
+    survey();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pushes only what changed, including changes to included files', async () => {
+    const { formId, watcher } = await watcherFor();
+    await watcher.sync();
+    const before = backend.form(formId).items!.map((i) => i.itemId);
+    expect(watcher.files.map((f) => path.basename(f)).sort()).toEqual(['common.yaml', 'survey.yaml']);
+
+    write('common.yaml', ['- type: text', '  title: Name', '- type: text', '  title: Email']);
+    expect(await watcher.sync()).toBe('synced');
+    expect(await watcher.sync()).toBe('unchanged');
+
+    const after = backend.form(formId).items!.map((i) => i.itemId);
+    expect(after).toHaveLength(3);
+    expect(after.filter((id) => before.includes(id))).toEqual(before);
+    expect(logged.at(-1)).toMatch(/Synced survey\.yaml\n {2}\+ \[1\] "Q 2 — Email"/);
+    expect(loadManifest().forms['survey.yaml']).toMatchObject({ formId });
+  });
+
+  it('reports invalid YAML and sends nothing', async () => {
+    const { formId, watcher } = await watcherFor();
+    await watcher.sync();
+    const revision = backend.form(formId).revisionId;
+
+    survey(['  - type: slider', '    title: Rate us']);
+    expect(await watcher.sync()).toBe('invalid');
+    expect(logged.at(-1)).toMatch(/survey\.yaml:6:11: Unknown question type .*nothing was sent to Google Forms/s);
+    expect(backend.form(formId).revisionId).toBe(revision);
+  });
+
+  it('stops syncing once responses arrive, unless they are allowed', async () => {
+    const { formId, watcher } = await watcherFor();
+    await watcher.sync();
+    backend.submit(formId, { 'Q 1 — Name': 'Ada' });
+
+    survey(['  - type: paragraph', '    title: Goals']);
+    expect(await watcher.sync()).toBe('refused');
+    expect(logged.at(-1)).toMatch(/1 new response\(s\) since the last sync/);
+
+    const allowing = new FormWatcher({ file: 'survey.yaml', formId, options: {} }, generator, {
+      allowResponses: true,
+      log: (message) => logged.push(message),
+    });
+    expect(await allowing.sync()).toBe('synced');
+  });
+
+  it('accepts the responses already there with force', async () => {
+    const { formId } = await watcherFor();
+    backend.submit(formId, { 'Q 1 — Name': 'Ada' });
+    const watcher = new FormWatcher({ file: 'survey.yaml', formId, options: {} }, generator, {
+      force: true,
+      log: (message) => logged.push(message),
+    });
+
+    await watcher.start();
+    await watcher.close();
+    expect(watcher.syncs).toBe(1);
+  });
+
+  it('syncs once for a burst of changes', async () => {
+    vi.useFakeTimers();
+    const { watcher } = await watcherFor({ debounceMs: 200 });
+    const sync = vi.spyOn(watcher, 'sync').mockResolvedValue('synced');
+
+    watcher.changed();
+    await vi.advanceTimersByTimeAsync(100);
+    watcher.changed();
+    watcher.changed();
+    await vi.advanceTimersByTimeAsync(200);
+    expect(sync).toHaveBeenCalledTimes(1);
+  });
+});
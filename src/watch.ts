@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import GoogleFormsGenerator from './index';
+import { buildFormConfig, formSources, GenerateOptions } from './yaml-to-form';
+import { BuildOptions, configHash, loadManifest, recordApply, saveManifest } from './manifest';
+import { saveSnapshot } from './snapshots';
+import { readSources, recordSources, saveVersion } from './history';
+import { recordQuestions } from './question-map';
+import { formatChange } from './plan';
+import { messageOf } from './command';
+
+// `generate --watch`: keeps one linked form in step with its YAML while it is
+// being edited. Every file the form is built from is watched; a burst of saves
+// becomes one sync, and only the items that changed are sent.
+
+export const DEFAULT_DEBOUNCE_MS = 300;
+
+export type SyncAction = 'synced' | 'unchanged' | 'invalid' | 'refused' | 'failed';
+
+export interface WatchTarget {
+  file: string;
+  formId: string;
+  options: GenerateOptions;
+  // configHash of what the form last had applied, when known
+  hash?: string;
+  // Where each sync is recorded in gform.lock.json; omitted with --no-lock
+  lock?: { key: string; options: BuildOptions };
+}
+
+export interface WatchOptions {
+  debounceMs?: number;
+  // Responses the form already has when watching starts do not block syncs
+  force?: boolean;
+  // Sync even when responses arrive while watching
+  allowResponses?: boolean;
+  log?: (message: string) => void;
+}
+
+const clock = () => new Date().toTimeString().slice(0, 8);
+
+export class FormWatcher {
+  // Absolute paths of the files the form was last built from
+  files: string[] = [];
+  syncs = 0;
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private readonly log: (message: string) => void;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+  private pending = false;
+  private watching = false;
+  private hash?: string;
+  private itemKeys?: Record<string, string>;
+  // How many responses the form had at the last sync; more means someone answered since
+  private baseline?: number;
+
+  constructor(
+    private readonly target: WatchTarget,
+    private readonly generator: GoogleFormsGenerator,
+    private readonly options: WatchOptions = {}
+  ) {
+    this.log = options.log || ((message) => console.log(message));
+    this.hash = target.hash;
+    this.itemKeys = target.options.itemKeys;
+  }
+
+  /**
+   * Bring the form up to date with the YAML, then watch for changes until
+   * close() is called.
+   */
+  async start(): Promise<void> {
+    if (this.options.force) {
+      this.baseline = await this.generator.getResponseCount(this.target.formId);
+    }
+    await this.sync();
+    this.watching = true;
+    this.rewatch();
+  }
+
+  async close(): Promise<void> {
+    this.watching = false;
+    clearTimeout(this.timer);
+    this.rewatch();
+    await this.running;
+  }
+
+  // A watched file changed: sync once the changes stop coming
+  changed(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  // One sync at a time; changes during a sync get one more after it
+  private flush(): void {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+    this.running = this.sync()
+      .then(() => undefined)
+      .finally(() => {
+        this.running = undefined;
+        if (this.pending && this.watching) {
+          this.pending = false;
+          this.flush();
+        }
+      });
+  }
+
+  /**
+   * Validate the YAML and push what changed. Never throws: problems are
+   * logged and the next change is tried afresh.
+   */
+  async sync(): Promise<SyncAction> {
+    const { file, formId, options } = this.target;
+    this.files = formSources(file, options);
+    this.rewatch();
+
+    let config;
+    try {
+      config = buildFormConfig(file, options);
+    } catch (error) {
+      this.log(`[${clock()}] ${messageOf(error)}`);
+      return 'invalid';
+    }
+    const hash = configHash(config);
+    if (hash === this.hash) {
+      return 'unchanged';
+    }
+
+    try {
+      const responses = await this.generator.getResponseCount(formId);
+      const since = responses - (this.baseline ?? 0);
+      if (since > 0 && !this.options.allowResponses) {
+        this.log(
+          `[${clock()}] Not syncing ${file}: the form has ${since} new response(s) since the last sync.\n` +
+            'Restart with --allow-responses to keep syncing anyway.'
+        );
+        return 'refused';
+      }
+
+      const result = await this.generator.syncForm(formId, config, {
+        itemKeys: this.itemKeys,
+        beforeUpdate: (live) => {
+          saveVersion(live, `watch ${file}`);
+          recordQuestions(live, this.itemKeys);
+        },
+      });
+      const form = await this.generator.getForm(formId);
+      saveSnapshot(form);
+      recordQuestions(form, result.itemKeys);
+      recordSources(formId, readSources(this.files));
+      this.hash = hash;
+      this.itemKeys = result.itemKeys;
+      this.baseline = responses;
+      this.syncs++;
+      if (this.target.lock) {
+        const manifest = loadManifest();
+        recordApply(manifest, this.target.lock.key, {
+          formId,
+          hash,
+          options: this.target.lock.options,
+          revisionId: form.revisionId || undefined,
+          itemKeys: result.itemKeys,
+        });
+        saveManifest(manifest);
+      }
+      // syncForm has already logged the totals
+      this.log([`[${clock()}] Synced ${file}`, ...result.changes.map((c) => `  ${formatChange(c)}`)].join('\n'));
+      return 'synced';
+    } catch (error) {
+      this.log(`[${clock()}] Sync failed: ${messageOf(error)}`);
+      return 'failed';
+    }
+  }
+
+  // Watch exactly this.files while watching; editors that save by renaming need a fresh watcher each time
+  private rewatch(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    if (!this.watching) return;
+    for (const file of this.files) {
+      try {
+        this.watchers.set(file, fs.watch(file, () => this.changed()));
+      } catch {
+        // Missing for now (e.g. a broken include); picked up again after the next sync
+      }
+    }
+  }
+
+  describe(): string {
+    const names = this.files.map((f) => path.relative(process.cwd(), f));
+    return `Watching ${names.join(', ')} for changes to form ${this.target.formId}. Press Ctrl+C to stop.`;
+  }
+}
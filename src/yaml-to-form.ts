@@ -3,65 +3,176 @@ import GoogleFormsGenerator, {
   FormItem,
   Question,
   FormSettings,
+  ImageItem,
+  MediaImage,
+  VideoItem,
 } from './index';
-import * as fs from 'fs';
+import { forms_v1 } from 'googleapis';
 import * as path from 'path';
-import * as yaml from 'yaml';
-import { numberTitle } from './numbering';
-
-interface YamlQuestion {
-  type: string;
-  title: string;
-  description?: string;
-  required?: boolean;
-  options?: (string | { value: string; isOther?: boolean; goToSection?: string })[];
-  scale?: {
-    min?: number;
-    max?: number;
-    minLabel?: string;
-    maxLabel?: string;
+import { DEFAULT_NUMBERING, Numberer, resolveNumbering, UNNUMBERED_TYPES } from './numbering';
+import { YamlAnswer, YamlForm, YamlImage, YamlPage, YamlQuestion, YamlSettings } from './yaml-types';
+import { buildPlan, formatPlan } from './plan';
+import { loadSnapshot, saveSnapshot, snapshotPath } from './snapshots';
+import { readSources, recordSources, saveVersion } from './history';
+import { recordQuestions } from './question-map';
+import { byPosition, YamlValidationError, validateFormDocument } from './yaml-validation';
+import { composeFormYaml, Vars } from './compose';
+import { localizeForm } from './locales';
+
+
+function convertQuestion(q: YamlQuestion): FormItem | FormItem[] {
+  if (q.type === 'image' || q.type === 'video') {
+    return convertMedia(q);
+  }
+  const converted = convertQuestionType(q);
+  const finish = (c: Question): Question => {
+    const graded = applyGrading(q, c);
+    return {
+      ...graded,
+      key: q.key,
+      image: q.image ? toMediaImage(q.image) : undefined,
+    };
   };
-  rows?: string[];
-  columns?: string[];
-  includeTime?: boolean;
-  duration?: boolean;
-  ratingScale?: number;
-  icon?: 'star' | 'heart' | 'thumbUp';
+  return Array.isArray(converted) ? converted.map(finish) : finish(converted);
 }
 
-interface YamlSettings {
-  collectEmail?: boolean | 'verified' | 'input';
-}
+const toMediaImage = (image: YamlImage): MediaImage =>
+  typeof image === 'string'
+    ? { sourceUri: image }
+    : { sourceUri: image.url, altText: image.altText, alignment: image.alignment, width: image.width };
 
-interface YamlSection {
-  title: string;
-  description?: string;
-  questions: YamlQuestion[];
+function convertMedia(q: YamlQuestion): ImageItem | VideoItem {
+  if (!q.url) {
+    throw new Error(`${q.type} item "${q.title || ''}" requires a url`);
+  }
+  if (q.type === 'image') {
+    return {
+      type: 'image',
+      key: q.key,
+      title: q.title,
+      description: q.description,
+      image: toMediaImage({ url: q.url, altText: q.altText, alignment: q.alignment, width: q.width }),
+    };
+  }
+  return {
+    type: 'video',
+    key: q.key,
+    title: q.title,
+    description: q.description,
+    youtubeUri: q.url,
+    caption: q.caption,
+    alignment: q.alignment,
+    width: q.width,
+  };
 }
 
-interface YamlPage {
-  title: string;
-  description?: string;
-  questions: YamlQuestion[];
-}
+const toAnswerList = (value: YamlAnswer | YamlAnswer[]): string[] =>
+  (Array.isArray(value) ? value : [value]).map(String);
 
-interface YamlForm {
-  title: string;
-  description?: string;
-  numbering?: boolean;       // Auto-number sections/questions (default: true)
-  settings?: YamlSettings;
-  pages?: YamlPage[];      // Multi-page form with page breaks
-  sections?: YamlSection[]; // Visual sections (no page breaks)
-  questions?: YamlQuestion[]; // Flat list
-}
+/**
+ * Attach points, answer key and feedback to a converted question, checking the
+ * answer key against what the question actually offers.
+ */
+function applyGrading(q: YamlQuestion, question: Question): Question {
+  if (q.points == null && q.correctAnswers == null && !q.feedback) {
+    return question;
+  }
+
+  const fail = (reason: string): never => {
+    throw new Error(`Question "${q.title}": ${reason}`);
+  };
+
+  if (q.points != null && (!Number.isInteger(q.points) || q.points < 0)) {
+    fail(`points must be a non-negative integer, got ${q.points}`);
+  }
+
+  if (question.type === 'text' && (q.feedback?.correct || q.feedback?.incorrect)) {
+    fail('text questions only take general feedback (feedback.general)');
+  }
+  if ((question.type === 'date' || question.type === 'time') && q.correctAnswers != null) {
+    fail(`correctAnswers is not supported on ${question.type} questions`);
+  }
+
+  const grading = { points: q.points, feedback: q.feedback };
+  if (q.correctAnswers == null) {
+    return { ...question, ...grading } as Question;
+  }
+
+  if (question.type === 'grid' || question.type === 'checkboxGrid') {
+    if (typeof q.correctAnswers !== 'object' || Array.isArray(q.correctAnswers)) {
+      fail('correctAnswers for a grid must map each row to its correct column(s)');
+    }
+    const byRow: Record<string, string[]> = {};
+    for (const [row, value] of Object.entries(q.correctAnswers as Record<string, YamlAnswer | YamlAnswer[]>)) {
+      if (!question.rows.includes(row)) {
+        fail(`correctAnswers row "${row}" is not one of the rows`);
+      }
+      const answers = toAnswerList(value);
+      for (const a of answers) {
+        if (!question.columns.includes(a)) {
+          fail(`correct answer "${a}" for row "${row}" is not one of the columns`);
+        }
+      }
+      if (question.type === 'grid' && answers.length > 1) {
+        fail(`row "${row}" can only have one correct column`);
+      }
+      byRow[row] = answers;
+    }
+    return { ...question, ...grading, correctAnswers: byRow };
+  }
+
+  if (typeof q.correctAnswers === 'object' && !Array.isArray(q.correctAnswers)) {
+    fail('correctAnswers must be a value or a list of values');
+  }
+  const answers = toAnswerList(q.correctAnswers as YamlAnswer | YamlAnswer[]);
+
+  switch (question.type) {
+    case 'multipleChoice':
+    case 'checkbox':
+    case 'dropdown': {
+      const choices = question.options
+        .filter((o) => typeof o !== 'object' || !o.isOther)
+        .map((o) => (typeof o === 'object' ? o.value : String(o)));
+      for (const a of answers) {
+        if (!choices.includes(a)) {
+          fail(`correct answer "${a}" is not one of the options`);
+        }
+      }
+      if (question.type !== 'checkbox' && answers.length > 1) {
+        fail(`a ${question.type} question can only have one correct answer`);
+      }
+      break;
+    }
+    case 'scale':
+    case 'rating': {
+      const [low, high] =
+        question.type === 'scale' ? [question.low, question.high] : [1, question.ratingScale];
+      for (const a of answers) {
+        const n = Number(a);
+        if (!Number.isInteger(n) || n < low || n > high) {
+          fail(`correct answer "${a}" is outside the range ${low}-${high}`);
+        }
+      }
+      break;
+    }
+  }
 
+  return { ...question, ...grading, correctAnswers: answers } as Question;
+}
 
-function convertQuestion(q: YamlQuestion): Question | Question[] {
+function convertQuestionType(q: YamlQuestion): Question | Question[] {
   const normalizeOptions = (opts: YamlQuestion['options']) => {
     if (!opts) return [];
     return opts.map(o => {
       if (typeof o === 'string' || typeof o === 'number') return String(o);
-      if (o.isOther) return { value: o.value, isOther: true };
+      if (o.isOther) return { value: o.value, isOther: true, goToSection: o.goToSection };
+      if (o.goToSection || o.image) {
+        return {
+          value: o.value,
+          goToSection: o.goToSection,
+          image: o.image ? toMediaImage(o.image) : undefined,
+        };
+      }
       return o.value;
     });
   };
@@ -179,34 +290,78 @@ function convertQuestion(q: YamlQuestion): Question | Question[] {
       };
 
     default:
-      console.warn(`Unknown question type: ${q.type}, defaulting to text`);
-      return {
-        type: 'text',
-        title: q.title,
-        required: q.required,
-        paragraph: false,
-      };
+      throw new Error(`Unknown question type "${q.type}" for question "${q.title}"`);
   }
 }
 
-interface GenerateOptions {
+function retargetFirstPage(q: YamlQuestion, firstPageTitle: string | undefined): YamlQuestion {
+  if (!q.options || !firstPageTitle) return q;
+  return {
+    ...q,
+    options: q.options.map((o) =>
+      typeof o === 'object' && o.goToSection === firstPageTitle
+        ? { ...o, goToSection: 'restart' }
+        : o
+    ),
+  };
+}
+
+export class ExistingResponsesError extends Error {
+  constructor(
+    public readonly responseCount: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ExistingResponsesError';
+  }
+}
+
+export interface GenerateOptions {
   useFilename?: boolean;
   prefix?: string;
   formId?: string;
   force?: boolean;
   saveResponses?: boolean;
   noNumbers?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
+  snapshot?: string;  // Form JSON to diff a dry-run update against
+  itemKeys?: Record<string, string>;  // From the previous update, to follow renamed keys
+  vars?: Vars;  // Values for {{ name }} placeholders, over the form's own `vars`
+  locale?: string;  // One of the form's `locales` (default: the first)
+  numbering?: string;  // A numbering preset, in place of the form's `numbering`
 }
 
-export async function yamlToForm(yamlPath: string, options: GenerateOptions = {}): Promise<string> {
-  const content = fs.readFileSync(yamlPath, 'utf8');
-  const form: YamlForm = yaml.parse(content);
+/**
+ * Every file the form is built from: the YAML itself, the files it includes,
+ * its question libraries and the translation catalog for `options.locale`.
+ * Absolute paths; files that are missing or fail to parse are still listed.
+ */
+export function formSources(yamlPath: string, options: GenerateOptions = {}): string[] {
+  const composed = composeFormYaml(yamlPath, { vars: options.vars });
+  if (composed.diagnostics.length === 0) {
+    localizeForm(composed, yamlPath, options.locale);
+  }
+  return [...new Set([path.resolve(yamlPath), ...composed.files])];
+}
 
-  // Apply default settings
-  const defaultSettings: YamlSettings = {
-    collectEmail: false,
-  };
-  form.settings = { ...defaultSettings, ...form.settings };
+/**
+ * Parse a YAML file into the FormConfig that createForm/updateForm take.
+ * Does not touch the network.
+ */
+export function buildFormConfig(yamlPath: string, options: GenerateOptions = {}): FormConfig {
+  const composed = composeFormYaml(yamlPath, { vars: options.vars });
+  let diagnostics = composed.diagnostics;
+  if (diagnostics.length === 0) {
+    diagnostics = localizeForm(composed, yamlPath, options.locale);
+  }
+  if (diagnostics.length === 0) {
+    diagnostics = validateFormDocument(composed.doc, composed.locate, { checkQuestion: convertQuestion }).sort(byPosition);
+  }
+  if (diagnostics.length > 0) {
+    throw new YamlValidationError(yamlPath, diagnostics);
+  }
+  const form: YamlForm = composed.doc.toJS();
 
   // Determine form title
   let title = form.title;
@@ -220,50 +375,60 @@ export async function yamlToForm(yamlPath: string, options: GenerateOptions = {}
   }
   form.title = title;
 
-  // Determine whether auto-numbering is enabled
-  const enableNumbering = !(options.noNumbers || form.numbering === false);
+  return configFromYaml(form, options);
+}
+
+/**
+ * The FormConfig for an already validated form definition, such as one
+ * read back from a live form by formToYaml.
+ */
+export function configFromYaml(form: YamlForm, options: Pick<GenerateOptions, 'noNumbers' | 'numbering'> = {}): FormConfig {
+  // Apply default settings
+  const defaultSettings: YamlSettings = {
+    collectEmail: false,
+  };
+  form = { ...form, settings: { ...defaultSettings, ...form.settings } };
+
+  // --no-numbers, then a --numbering preset, then the form's own `numbering`
+  const scheme = options.noNumbers ? undefined : resolveNumbering(options.numbering ?? form.numbering);
+  const numberer = scheme && new Numberer(scheme, !form.pages && !form.sections);
 
   const items: FormItem[] = [];
 
   // Helper to add questions from a list, with optional numbering
-  const addQuestions = (questions: YamlQuestion[], sectionIndex?: number) => {
-    let questionIndex = 1;
+  const addQuestions = (questions: YamlQuestion[]) => {
     for (const q of questions) {
       if (q.type === 'title') {
-        // Section header (textItem) - no input field, no page break — skip numbering
+        // Section header (textItem) - no input field, no page break; numbered only as a subsection
         items.push({
           type: 'title',
-          title: q.title,
+          title: numberer ? numberer.subsection(q.title) : q.title,
           description: q.description,
+          key: q.key,
         } as FormItem);
+      } else if (UNNUMBERED_TYPES.includes(q.type)) {
+        // Image and video items are not questions — skip numbering
+        const converted = convertQuestion(q);
+        items.push(...(Array.isArray(converted) ? converted : [converted]));
       } else {
-        const numberedTitle = enableNumbering
-          ? numberTitle(
-              sectionIndex != null
-                ? `Q ${sectionIndex}.${questionIndex} \u2014 `
-                : `Q ${questionIndex} \u2014 `,
-              q.title,
-            )
-          : q.title;
+        const numberedTitle = numberer ? numberer.question(q.title) : q.title;
         const converted = convertQuestion({ ...q, title: numberedTitle });
         if (Array.isArray(converted)) {
           items.push(...converted);
         } else {
           items.push(converted);
         }
-        questionIndex++;
       }
     }
   };
 
   if (form.pages) {
+    const firstPageTitle = form.pages[0]?.title;
+
     // Multi-page form with actual page breaks
     for (let i = 0; i < form.pages.length; i++) {
       const page = form.pages[i];
-      const sectionNum = i + 1;
-      const pageTitle = enableNumbering
-        ? numberTitle(`Section ${sectionNum} \u2014 `, page.title)
-        : page.title;
+      const pageTitle = numberer ? numberer.section(page.title) : page.title;
 
       if (i === 0) {
         // First page: add questions directly (same page as form title/description)
@@ -273,27 +438,27 @@ export async function yamlToForm(yamlPath: string, options: GenerateOptions = {}
             type: 'title',
             title: pageTitle,
             description: page.description,
+            key: page.key,
           } as FormItem);
         }
       } else {
-        // Subsequent pages: add page break
+        // Subsequent pages: add page break, named by the unnumbered title for goToSection
         items.push({
           type: 'pageBreak',
           title: pageTitle,
           description: page.description,
+          name: page.title,
+          key: page.key,
         });
       }
 
-      addQuestions(page.questions, sectionNum);
+      // The first page has no page break to jump to; going back to it restarts the form
+      addQuestions(page.questions.map((q) => retargetFirstPage(q, firstPageTitle)));
     }
   } else if (form.sections) {
     // Visual sections (no page breaks, just headers)
-    let sectionNum = 0;
     for (const section of form.sections) {
-      sectionNum++;
-      const sectionTitle = enableNumbering
-        ? numberTitle(`Section ${sectionNum} \u2014 `, section.title)
-        : section.title;
+      const sectionTitle = numberer ? numberer.section(section.title) : section.title;
 
       items.push({
         type: 'text',
@@ -302,7 +467,7 @@ export async function yamlToForm(yamlPath: string, options: GenerateOptions = {}
         required: false,
       });
 
-      addQuestions(section.questions, sectionNum);
+      addQuestions(section.questions);
     }
   } else if (form.questions) {
     // Flat list of questions — no section prefix
@@ -318,16 +483,79 @@ export async function yamlToForm(yamlPath: string, options: GenerateOptions = {}
     } else if (form.settings.collectEmail === 'input') {
       settings.collectEmail = 'input';
     }
+    if (form.settings.quiz) {
+      settings.quiz = true;
+    }
+    const { published, acceptingResponses, opensAt, closesAt, editors, responders } = form.settings;
+    if (published !== undefined) settings.published = published;
+    if (acceptingResponses !== undefined) settings.acceptingResponses = acceptingResponses;
+    if (opensAt) settings.opensAt = opensAt;
+    if (closesAt) settings.closesAt = closesAt;
+    if (editors) settings.editors = editors.map(String);
+    if (responders) settings.responders = Array.isArray(responders) ? responders.map(String) : responders;
   }
 
-  const formConfig: FormConfig = {
+  const config: FormConfig = {
     title: form.title,
     description: form.description,
     settings,
     items,
   };
+  if (scheme && JSON.stringify(scheme) !== JSON.stringify(DEFAULT_NUMBERING)) {
+    config.numbering = scheme;
+  }
+  return config;
+}
+
+/**
+ * Show what yamlToForm would send, without credentials. Updates are diffed
+ * against the cached snapshot of the form, or `options.snapshot`.
+ */
+export function planYamlForm(yamlPath: string, options: GenerateOptions = {}): string {
+  const formConfig = buildFormConfig(yamlPath, options);
+  const snapshotFile = options.snapshot || (options.formId ? snapshotPath(options.formId) : undefined);
+  const snapshot = options.formId
+    ? loadSnapshot({ file: options.snapshot, formId: options.formId })
+    : undefined;
+  const plan = buildPlan(formConfig, { formId: options.formId, snapshot, itemKeys: options.itemKeys });
+
+  if (options.json) {
+    return JSON.stringify(plan, null, 2);
+  }
+  return formatPlan(plan, snapshot ? snapshotFile : undefined);
+}
+
+export interface ApplyResult {
+  formId: string;
+  created: boolean;
+  config: FormConfig;
+  // The form as it is afterwards
+  form: forms_v1.Schema$Form;
+  // key -> itemId, for UpdateOptions.itemKeys next time
+  itemKeys: Record<string, string>;
+}
+
+export async function yamlToForm(
+  yamlPath: string,
+  options: GenerateOptions = {},
+  generator = new GoogleFormsGenerator()
+): Promise<string> {
+  return (await applyYamlForm(yamlPath, options, generator)).formId;
+}
+
+/**
+ * Create the form for a YAML file, or update `options.formId` in place, and
+ * return what was applied.
+ */
+export async function applyYamlForm(
+  yamlPath: string,
+  options: GenerateOptions = {},
+  generator = new GoogleFormsGenerator(),
+  config?: FormConfig
+): Promise<ApplyResult> {
+  const formConfig = config || buildFormConfig(yamlPath, options);
+  const items = formConfig.items || [];
 
-  const generator = new GoogleFormsGenerator();
   await generator.authenticate();
 
   if (options.formId) {
@@ -336,7 +564,8 @@ export async function yamlToForm(yamlPath: string, options: GenerateOptions = {}
 
     if (responseCount > 0) {
       console.log(`\nWARNING: Form has ${responseCount} existing response(s).`);
-      console.log('Updating will replace all questions, which may make existing responses unreadable.\n');
+      console.log('Unchanged questions keep their answers, but answers to removed or recreated questions');
+      console.log(`will no longer be linked to the form; \`gform responses export\` still lists them.\n`);
 
       if (options.saveResponses) {
         const csvPath = `${path.basename(yamlPath, path.extname(yamlPath))}-responses-${Date.now()}.csv`;
@@ -345,95 +574,50 @@ export async function yamlToForm(yamlPath: string, options: GenerateOptions = {}
       }
 
       if (!options.force && !options.saveResponses) {
-        console.error('Aborting. Use --force to update anyway, or --save-responses to export responses first.');
-        process.exit(1);
+        throw new ExistingResponsesError(
+          responseCount,
+          'Aborting. Use --force to update anyway, or --save-responses to export responses first.'
+        );
       }
 
       if (!options.force) {
-        console.error('Responses saved. Use --force to proceed with the update, or re-run with both --save-responses --force.');
-        process.exit(1);
+        throw new ExistingResponsesError(
+          responseCount,
+          'Responses saved. Use --force to proceed with the update, or re-run with both --save-responses --force.'
+        );
       }
     }
 
-    console.log(`Updating form "${form.title}" (${options.formId}) with ${items.length} items...`);
-    await generator.updateForm(options.formId, formConfig);
-    return options.formId;
+    console.log(`Updating form "${formConfig.title}" (${options.formId}) with ${items.length} items...`);
+    const { itemKeys } = await generator.syncForm(options.formId, formConfig, {
+      itemKeys: options.itemKeys,
+      beforeUpdate: (live) => {
+        saveVersion(live, `generate ${yamlPath}`);
+        // Picks up edits made elsewhere, and forms updated before the map was kept
+        recordQuestions(live, options.itemKeys);
+      },
+    });
+    const form = await generator.getForm(options.formId);
+    saveSnapshot(form);
+    recordQuestions(form, itemKeys);
+    recordSources(options.formId, readSources(formSources(yamlPath, options)));
+    return { formId: options.formId, created: false, config: formConfig, form, itemKeys };
   }
 
-  console.log(`Creating form "${form.title}" with ${items.length} items...`);
+  console.log(`Creating form "${formConfig.title}" with ${items.length} items...`);
   const formId = await generator.createForm(formConfig);
-
-  return formId;
-}
-
-// CLI usage
-async function main() {
-  const args = process.argv.slice(2);
-
-  if (args.length === 0) {
-    console.log('Usage: npm run generate -- <path-to-yaml> [options]');
-    console.log('');
-    console.log('Options:');
-    console.log('  --form-id <id>      Update an existing form instead of creating a new one');
-    console.log('  --force             Skip the response warning and update anyway');
-    console.log('  --save-responses    Export existing responses to CSV before updating');
-    console.log('  --use-filename      Use the YAML filename as the form title');
-    console.log('  --prefix <text>     Prefix the form title (e.g., --prefix "Test: ")');
-    console.log('  --no-numbers        Disable auto-numbering of sections and questions');
-    console.log('  --test              Shorthand for --prefix "Test: "');
-    console.log('');
-    console.log('Examples:');
-    console.log('  npm run generate -- form.yaml --test');
-    console.log('  npm run generate -- form.yaml --form-id <id> --force');
-    console.log('  npm run generate -- form.yaml --form-id <id> --save-responses --force');
-    process.exit(1);
-  }
-
-  // Parse arguments
-  const options: GenerateOptions = {};
-  let yamlPath = '';
-
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
-    if (arg === '--use-filename') {
-      options.useFilename = true;
-    } else if (arg === '--prefix' && args[i + 1]) {
-      options.prefix = args[++i];
-    } else if (arg === '--form-id' && args[i + 1]) {
-      options.formId = args[++i];
-    } else if (arg === '--force') {
-      options.force = true;
-    } else if (arg === '--save-responses') {
-      options.saveResponses = true;
-    } else if (arg === '--no-numbers') {
-      options.noNumbers = true;
-    } else if (arg === '--test') {
-      options.prefix = 'Test: ';
-    } else if (!arg.startsWith('--')) {
-      yamlPath = arg;
+  const form = await generator.getForm(formId);
+  saveSnapshot(form);
+  recordSources(formId, readSources(formSources(yamlPath, options)));
+
+  // A new form has exactly one item per config item, in order
+  const itemKeys: Record<string, string> = {};
+  items.forEach((item, index) => {
+    const itemId = form.items?.[index]?.itemId;
+    if (item.key && itemId) {
+      itemKeys[item.key] = itemId;
     }
-  }
-
-  if (!yamlPath) {
-    console.error('Error: No YAML file specified');
-    process.exit(1);
-  }
-
-  if (!fs.existsSync(yamlPath)) {
-    console.error(`File not found: ${yamlPath}`);
-    process.exit(1);
-  }
-
-  try {
-    const formId = await yamlToForm(yamlPath, options);
-    const action = options.formId ? 'updated' : 'created';
-    console.log(`\n✓ Form ${action} successfully!`);
-    console.log(`\nEdit URL: https://docs.google.com/forms/d/${formId}/edit`);
-    console.log(`View URL: https://docs.google.com/forms/d/${formId}/viewform`);
-  } catch (error) {
-    console.error('Error creating form:', error);
-    process.exit(1);
-  }
+  });
+  recordQuestions(form, itemKeys);
+  return { formId, created: true, config: formConfig, form, itemKeys };
 }
-
-main();
@@ -0,0 +1,83 @@
+import { QuizFeedback } from './index';
+import { NumberingConfig } from './numbering';
+import { Responders } from './access';
+
+// Shape of a form YAML file, as read by yaml-to-form and written by form-to-yaml
+
+// An image URL, or a URL with display options
+export type YamlImage =
+  | string
+  | { url: string; altText?: string; alignment?: 'left' | 'center' | 'right'; width?: number };
+
+export type YamlOption =
+  | string
+  | { value: string; isOther?: boolean; goToSection?: string; image?: YamlImage };
+
+export interface YamlQuestion {
+  type: string;
+  key?: string;              // Stable identity across updates
+  title: string;
+  description?: string;
+  required?: boolean;
+  options?: YamlOption[];
+  scale?: {
+    min?: number;
+    max?: number;
+    minLabel?: string;
+    maxLabel?: string;
+  };
+  rows?: string[];
+  columns?: string[];
+  includeTime?: boolean;
+  duration?: boolean;
+  ratingScale?: number;
+  icon?: 'star' | 'heart' | 'thumbUp';
+  image?: YamlImage;          // Image shown with a question
+  // Image and video items
+  url?: string;
+  altText?: string;
+  caption?: string;
+  alignment?: 'left' | 'center' | 'right';
+  width?: number;
+  // Quiz grading (requires settings.quiz)
+  points?: number;
+  correctAnswers?: YamlAnswer | YamlAnswer[] | Record<string, YamlAnswer | YamlAnswer[]>;
+  feedback?: QuizFeedback;
+}
+
+export type YamlAnswer = string | number;
+
+export interface YamlSettings {
+  collectEmail?: boolean | 'verified' | 'input';
+  quiz?: boolean;
+  // Publishing and sharing; left as they are in Google Forms when not given
+  published?: boolean;
+  acceptingResponses?: boolean;
+  opensAt?: string;
+  closesAt?: string;
+  editors?: string[];
+  responders?: Responders;
+}
+
+export interface YamlSection {
+  title: string;
+  description?: string;
+  questions: YamlQuestion[];
+}
+
+export interface YamlPage {
+  key?: string;
+  title: string;
+  description?: string;
+  questions: YamlQuestion[];
+}
+
+export interface YamlForm {
+  title: string;
+  description?: string;
+  numbering?: boolean | string | NumberingConfig;  // Auto-number sections/questions: on/off, a preset or a scheme (default: true)
+  settings?: YamlSettings;
+  pages?: YamlPage[];      // Multi-page form with page breaks
+  sections?: YamlSection[]; // Visual sections (no page breaks)
+  questions?: YamlQuestion[]; // Flat list
+}
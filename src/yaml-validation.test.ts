@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { validateFormYaml, YamlValidationError } from './yaml-validation';
+
+const messages = (content: string) =>
+  validateFormYaml(content).map((d) => `${d.line}:${d.column} ${d.message}`);
+
+describe('validateFormYaml', () => {
+  it('accepts a valid form', () => {
+    const content = [
+      'title: Survey',
+      'pages:',
+      '  - title: About You',
+      '    questions:',
+      '      - type: multipleChoice',
+      '        title: Customer?',
+      '        options:',
+      '          - value: "No"',
+      '            goToSection: Feedback',
+      '  - title: Feedback',
+      '    questions:',
+      '      - type: scale',
+      '        title: Rate us',
+      '        scale: { min: 0, max: 10 }',
+    ].join('\n');
+
+    expect(validateFormYaml(content)).toEqual([]);
+  });
+
+  it('reports every problem with its position', () => {
+    const content = [
+      'title: Survey',
+      'questions:',
+      '  - type: multipleChoise',
+      '    title: Role',
+      '  - type: checkbox',
+      '    title: Tools',
+      '    optons: [a, b]',
+      '  - type: rating',
+      '    title: Stars',
+      '    ratingScale: 12',
+    ].join('\n');
+
+    expect(messages(content)).toEqual([
+      expect.stringMatching(/^3:11 Unknown question type "multipleChoise" \(did you mean "multipleChoice"\?\)/),
+      '5:5 Missing required key "options" in a checkbox question',
+      '7:5 Unknown key "optons" in a checkbox question (did you mean "options"?)',
+      '10:18 Expected `ratingScale` to be between 3 and 10, got 12',
+    ]);
+  });
+
+  it('rejects mixing layouts at the root', () => {
+    const content = 'title: Survey\nsections: []\nquestions: []\n';
+
+    expect(messages(content)).toEqual([
+      '3:1 Use only one of pages, sections or questions (found sections and questions)',
+    ]);
+  });
+
+  it('requires quiz mode for graded questions', () => {
+    const content = 'title: Quiz\nquestions:\n  - type: text\n    title: Capital of France\n    points: 1\n';
+
+    expect(messages(content)).toEqual(['5:13 `points` needs `quiz: true` under `settings`']);
+  });
+
+  it('rejects grading the Forms API does not take for the question type', () => {
+    const content = [
+      'title: Quiz',
+      'settings: { quiz: true }',
+      'questions:',
+      '  - type: text',
+      '    title: Capital of France',
+      '    feedback: { general: Paris, incorrect: Try again }',
+      '  - type: date',
+      '    title: Bastille Day',
+      '    correctAnswers: "1789-07-14"',
+    ].join('\n');
+
+    expect(messages(content)).toEqual([
+      '6:44 Text questions only take `feedback.general`, not `feedback.incorrect`',
+      '9:21 `correctAnswers` is not supported on date questions',
+    ]);
+  });
+
+  it('checks image and video items and option images', () => {
+    const content = [
+      'title: Survey',
+      'questions:',
+      '  - type: image',
+      '    url: https://example.com/logo.png',
+      '    alignment: middle',
+      '  - type: video',
+      '    url: https://vimeo.com/1',
+      '  - type: dropdown',
+      '    title: Pick one',
+      '    options:',
+      '      - value: A',
+      '        image: https://example.com/a.png',
+    ].join('\n');
+
+    expect(messages(content)).toEqual([
+      expect.stringMatching(/^5:16 Expected `alignment` to be one of left, center, right/),
+      '7:10 Google Forms only embeds YouTube videos; expected a youtube.com or youtu.be URL',
+      '12:16 Option images are only supported on multipleChoice and checkbox questions',
+    ]);
+  });
+
+  it('checks numbering presets and schemes', () => {
+    expect(messages('title: Survey\nnumbering: roman\nquestions: []\n')).toEqual([]);
+    const content = [
+      'title: Survey',
+      'numbering:',
+      '  preset: outline',
+      '  question: "{section}.{q} "',
+      '  style: { section: greek }',
+      '  restart: daily',
+      'questions: []',
+    ].join('\n');
+
+    expect(messages(content)).toEqual([
+      '4:13 Unknown counter {q} in `numbering.question` (expected {section}, {subsection}, {question})',
+      expect.stringMatching(/^5:21 Expected `numbering.style.section` to be one of decimal, /),
+      expect.stringMatching(/^6:12 Expected `numbering.restart` to be one of page, subsection, never/),
+    ]);
+    expect(messages('title: Survey\nnumbering: fancy\nquestions: []\n')).toEqual([
+      expect.stringMatching(/^2:12 Expected `numbering` \(true, false or a preset\) to be one of default, outline/),
+    ]);
+  });
+
+  it('checks publishing and sharing settings', () => {
+    const valid = 'title: Survey\nsettings:\n  published: true\n  editors: [ada@example.com]\n  responders: anyone\nquestions: []\n';
+    expect(messages(valid)).toEqual([]);
+    const content = [
+      'title: Survey',
+      'settings:',
+      '  published: false',
+      '  acceptingResponses: true',
+      '  editors: [ada]',
+      '  responders: { domain: "example com" }',
+      'questions: []',
+    ].join('\n');
+
+    expect(messages(content)).toEqual([
+      '4:23 An unpublished form cannot accept responses; remove `published: false`',
+      '5:13 Expected each entry of `editors` to be an email address, got "ada"',
+      '6:25 Expected `responders.domain` to be a domain such as example.com',
+    ]);
+    expect(messages('title: Survey\nsettings:\n  responders: everyone\nquestions: []\n')).toEqual([
+      '3:15 Expected `responders` (anyone, a list of email addresses or a `domain`) to be one of anyone',
+    ]);
+  });
+
+  it('checks response windows', () => {
+    expect(messages('title: Survey\nsettings:\n  opensAt: 2025-03-01T09:00:00Z\n  closesAt: 2025-03-08T17:00+01:00\nquestions: []\n')).toEqual([]);
+    const content = [
+      'title: Survey',
+      'settings:',
+      '  published: false',
+      '  acceptingResponses: true',
+      '  opensAt: 2025-03-01 09:00',
+      '  closesAt: 2025-02-01T09:00:00Z',
+      'questions: []',
+    ].join('\n');
+
+    expect(messages(content)).toEqual([
+      '3:14 An unpublished form cannot open for responses; remove `published: false` or the schedule',
+      '4:23 An unpublished form cannot accept responses; remove `published: false`',
+      '4:23 `acceptingResponses` cannot be combined with `opensAt` or `closesAt`, which decide it',
+      expect.stringMatching(/^5:12 Expected `opensAt` to be a date and time with a zone/),
+    ]);
+    expect(messages('title: Survey\nsettings:\n  opensAt: "2025-03-01T09:00:00Z"\n  closesAt: "2025-03-01T08:00:00Z"\nquestions: []\n')).toEqual([
+      '4:13 `closesAt` must be later than `opensAt`',
+    ]);
+  });
+
+  it('reports YAML syntax errors', () => {
+    const diagnostics = validateFormYaml('title: Survey\nquestions: [unclosed\n');
+
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics[0].line).toBeGreaterThanOrEqual(2);
+  });
+
+  it('reports errors from the question check at the question', () => {
+    const content = 'title: Survey\nquestions:\n  - type: text\n    title: Name\n';
+    const diagnostics = validateFormYaml(content, {
+      checkQuestion: () => {
+        throw new Error('bad answer key');
+      },
+    });
+
+    expect(diagnostics).toEqual([{ line: 3, column: 5, message: 'bad answer key' }]);
+  });
+});
+
+describe('YamlValidationError', () => {
+  it('formats diagnostics as file:line:column', () => {
+    const error = new YamlValidationError('form.yaml', [{ line: 2, column: 3, message: 'Oops' }]);
+
+    expect(error.message).toBe('form.yaml:2:3: Oops');
+  });
+});
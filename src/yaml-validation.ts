@@ -0,0 +1,510 @@
+import { Document, LineCounter, Node, Pair, YAMLMap, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import { COUNTER_STYLES, NUMBERING_KEYS, NUMBERING_PRESETS, RESTART_MODES, TEMPLATE_TOKENS } from './numbering';
+
+// Structural validation of form YAML against the rules in schema/form-schema.yaml.
+// Every problem is collected, with the line and column it was found at.
+
+export interface Diagnostic {
+  line: number;
+  column: number;
+  message: string;
+  // Set when the problem is in another file than the one being validated (an include)
+  file?: string;
+}
+
+export type Position = Omit<Diagnostic, 'message'>;
+
+// Where a node came from, for reporting problems in it
+export type Locate = (node: Node | undefined) => Position;
+
+export class YamlValidationError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly diagnostics: Diagnostic[]
+  ) {
+    super(diagnostics.map((d) => `${d.file || file}:${d.line}:${d.column}: ${d.message}`).join('\n'));
+    this.name = 'YamlValidationError';
+  }
+}
+
+export interface ValidateOptions {
+  // Extra checks on each parsed question (e.g. answer keys); a throw is reported at the question
+  checkQuestion?: (question: any) => void;
+}
+
+const ROOT_KEYS = ['title', 'description', 'numbering', 'settings', 'pages', 'sections', 'questions'];
+const LAYOUT_KEYS = ['pages', 'sections', 'questions'];
+const SETTINGS_KEYS = ['collectEmail', 'quiz', 'published', 'acceptingResponses', 'opensAt', 'closesAt', 'editors', 'responders'];
+const PAGE_KEYS = ['key', 'title', 'description', 'goToSection', 'questions'];
+const SECTION_KEYS = ['title', 'description', 'questions'];
+const OPTION_KEYS = ['value', 'isOther', 'goToSection', 'image'];
+const IMAGE_KEYS = ['url', 'altText', 'alignment', 'width'];
+const ALIGNMENTS = ['left', 'center', 'right'];
+const SCALE_KEYS = ['min', 'max', 'minLabel', 'maxLabel'];
+const FEEDBACK_KEYS = ['correct', 'incorrect', 'general'];
+const GO_TO_KEYWORDS = ['next', 'submit', 'restart'];
+const MEDIA_TYPES = ['image', 'video'];
+// A date and time with a zone, so that the window is the same wherever the scheduler runs
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_RE = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+const YOUTUBE_RE = /^https?:\/\/(www\.|m\.)?(youtube\.com|youtu\.be)\//;
+
+const COMMON_KEYS = ['type', 'key', 'title', 'description'];
+const QUESTION_KEYS = [...COMMON_KEYS, 'required', 'image', 'points', 'correctAnswers', 'feedback'];
+
+// Allowed keys per question type, and which of them are required
+const TYPE_KEYS: Record<string, { allowed: string[]; required: string[] }> = {
+  text: { allowed: QUESTION_KEYS, required: [] },
+  paragraph: { allowed: QUESTION_KEYS, required: [] },
+  multipleChoice: { allowed: [...QUESTION_KEYS, 'options'], required: ['options'] },
+  checkbox: { allowed: [...QUESTION_KEYS, 'options'], required: ['options'] },
+  dropdown: { allowed: [...QUESTION_KEYS, 'options'], required: ['options'] },
+  scale: { allowed: [...QUESTION_KEYS, 'scale'], required: [] },
+  date: { allowed: [...QUESTION_KEYS, 'includeTime'], required: [] },
+  time: { allowed: [...QUESTION_KEYS, 'duration'], required: [] },
+  rating: { allowed: [...QUESTION_KEYS, 'ratingScale', 'icon'], required: [] },
+  grid: { allowed: [...QUESTION_KEYS, 'rows', 'columns'], required: ['rows', 'columns'] },
+  checkboxGrid: { allowed: [...QUESTION_KEYS, 'rows', 'columns'], required: ['rows', 'columns'] },
+  title: { allowed: COMMON_KEYS, required: [] },
+  image: { allowed: [...COMMON_KEYS, 'url', 'altText', 'alignment', 'width'], required: ['url'] },
+  video: { allowed: [...COMMON_KEYS, 'url', 'caption', 'alignment', 'width'], required: ['url'] },
+};
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function suggest(word: string, candidates: string[]): string {
+  const close = candidates
+    .map((c) => ({ c, d: editDistance(word.toLowerCase(), c.toLowerCase()) }))
+    .filter(({ d }) => d <= 2)
+    .sort((x, y) => x.d - y.d)[0];
+  return close ? ` (did you mean "${close.c}"?)` : '';
+}
+
+/**
+ * Validate the text of a form YAML file. Returns every problem found; an empty
+ * list means the file can be converted.
+ */
+export function validateFormYaml(content: string, options: ValidateOptions = {}): Diagnostic[] {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, prettyErrors: false });
+  const diagnostics = parseDiagnostics(doc, lineCounter);
+  if (doc.errors.length > 0) {
+    return diagnostics;
+  }
+  const locate: Locate = (node) => {
+    const { line, col } = lineCounter.linePos(node?.range?.[0] ?? 0);
+    return { line, column: col };
+  };
+  return [...diagnostics, ...validateFormDocument(doc, locate, options)].sort(byPosition);
+}
+
+/**
+ * YAML syntax errors and warnings from parsing a document.
+ */
+export function parseDiagnostics(doc: Document, lineCounter: LineCounter, file?: string): Diagnostic[] {
+  return [...doc.errors, ...doc.warnings].map((error) => {
+    const { line, col } = lineCounter.linePos(error.pos[0]);
+    return { line, column: col, message: error.message.split('\n')[0], ...(file ? { file } : {}) };
+  });
+}
+
+export const byPosition = (a: Diagnostic, b: Diagnostic): number =>
+  (a.file || '').localeCompare(b.file || '') || a.line - b.line || a.column - b.column;
+
+/**
+ * Validate a parsed form document. `locate` maps each node to its position,
+ * which lets a document assembled from several files report problems in the
+ * file they come from.
+ */
+export function validateFormDocument(doc: Document, locate: Locate, options: ValidateOptions = {}): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (node: unknown, message: string) => {
+    diagnostics.push({ ...locate(node as Node | undefined), message });
+  };
+
+  const root = doc.contents;
+  if (!isMap(root)) {
+    report(root, 'A form must be a mapping with at least a `title`');
+    return diagnostics;
+  }
+
+  // --- helpers --------------------------------------------------------------
+
+  const value = (map: YAMLMap, key: string) => map.get(key, true) as Node | undefined;
+  const keyOf = (map: YAMLMap, key: string) =>
+    (map.items as Pair<Node, Node>[]).find((p) => isScalar(p.key) && p.key.value === key)?.key;
+
+  const checkKeys = (map: YAMLMap, allowed: string[], required: string[], what: string) => {
+    for (const pair of map.items as Pair<Node, Node>[]) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : '';
+      if (!allowed.includes(key)) {
+        report(pair.key, `Unknown key "${key}" in ${what}${suggest(key, allowed)}`);
+      }
+    }
+    for (const key of required) {
+      if (!map.has(key)) {
+        report(map, `Missing required key "${key}" in ${what}`);
+      }
+    }
+  };
+
+  const asMap = (node: Node | undefined, what: string): YAMLMap | undefined => {
+    if (isMap(node)) return node;
+    report(node, `Expected ${what} to be a mapping`);
+    return undefined;
+  };
+
+  const scalarOf = (node: Node | undefined) => (isScalar(node) ? node.value : undefined);
+
+  const expectString = (node: Node | undefined, what: string) => {
+    if (node === undefined) return;
+    const v = scalarOf(node);
+    if (typeof v !== 'string' && typeof v !== 'number') {
+      report(node, `Expected ${what} to be text`);
+    }
+  };
+
+  const expectBoolean = (node: Node | undefined, what: string) => {
+    if (node !== undefined && typeof scalarOf(node) !== 'boolean') {
+      report(node, `Expected ${what} to be true or false`);
+    }
+  };
+
+  const expectInteger = (node: Node | undefined, what: string, min?: number, max?: number) => {
+    if (node === undefined) return;
+    const v = scalarOf(node);
+    if (typeof v !== 'number' || !Number.isInteger(v)) {
+      report(node, `Expected ${what} to be a whole number`);
+    } else if ((min !== undefined && v < min) || (max !== undefined && v > max)) {
+      report(node, `Expected ${what} to be between ${min} and ${max}, got ${v}`);
+    }
+  };
+
+  const expectEnum = (node: Node | undefined, what: string, allowed: string[]) => {
+    if (node === undefined) return;
+    const v = scalarOf(node);
+    if (typeof v !== 'string' || !allowed.includes(v)) {
+      report(node, `Expected ${what} to be one of ${allowed.join(', ')}${suggest(String(v), allowed)}`);
+    }
+  };
+
+  const expectStringList = (node: Node | undefined, what: string) => {
+    if (node === undefined) return;
+    if (!isSeq(node) || node.items.length === 0) {
+      report(node, `Expected ${what} to be a non-empty list`);
+      return;
+    }
+    for (const item of node.items as Node[]) {
+      expectString(item, `each entry of ${what}`);
+    }
+  };
+
+  // May be empty: nobody besides the owner
+  const expectEmails = (node: Node | undefined, what: string) => {
+    if (node === undefined) return;
+    if (!isSeq(node)) {
+      report(node, `Expected ${what} to be a list of email addresses`);
+      return;
+    }
+    for (const item of node.items as Node[]) {
+      const v = scalarOf(item);
+      if (typeof v !== 'string' || !EMAIL_RE.test(v)) {
+        report(item, `Expected each entry of ${what} to be an email address, got "${v ?? ''}"`);
+      }
+    }
+  };
+
+  // --- root -----------------------------------------------------------------
+
+  checkKeys(root, ROOT_KEYS, ['title'], 'the form');
+  expectString(value(root, 'title'), '`title`');
+  expectString(value(root, 'description'), '`description`');
+
+  const numberingNode = value(root, 'numbering');
+  const presets = Object.keys(NUMBERING_PRESETS);
+  if (isMap(numberingNode)) {
+    checkKeys(numberingNode, NUMBERING_KEYS, [], '`numbering`');
+    expectEnum(value(numberingNode, 'preset'), '`numbering.preset`', presets);
+    for (const counter of TEMPLATE_TOKENS) {
+      const template = value(numberingNode, counter);
+      expectString(template, `\`numbering.${counter}\``);
+      const unknown = String(scalarOf(template) ?? '').match(/\{(?!(?:section|subsection|question)\})[^}]*\}/);
+      if (unknown) {
+        report(template, `Unknown counter ${unknown[0]} in \`numbering.${counter}\` (expected {${TEMPLATE_TOKENS.join('}, {')}})`);
+      }
+    }
+    const styleNode = value(numberingNode, 'style');
+    const style = styleNode !== undefined ? asMap(styleNode, '`numbering.style`') : undefined;
+    if (style) {
+      checkKeys(style, TEMPLATE_TOKENS, [], '`numbering.style`');
+      for (const counter of TEMPLATE_TOKENS) {
+        expectEnum(value(style, counter), `\`numbering.style.${counter}\``, COUNTER_STYLES);
+      }
+    }
+    const restart = value(numberingNode, 'restart');
+    if (restart !== undefined && typeof scalarOf(restart) !== 'boolean') {
+      expectEnum(restart, '`numbering.restart`', RESTART_MODES);
+    }
+  } else if (numberingNode !== undefined && typeof scalarOf(numberingNode) !== 'boolean') {
+    expectEnum(numberingNode, '`numbering` (true, false or a preset)', presets);
+  }
+
+  const layouts = LAYOUT_KEYS.filter((k) => root.has(k));
+  if (layouts.length > 1) {
+    report(keyOf(root, layouts[1]), `Use only one of pages, sections or questions (found ${layouts.join(' and ')})`);
+  }
+
+  const settingsNode = value(root, 'settings');
+  let quiz = false;
+  if (settingsNode !== undefined) {
+    const settings = asMap(settingsNode, '`settings`');
+    if (settings) {
+      checkKeys(settings, SETTINGS_KEYS, [], '`settings`');
+      const collectEmail = value(settings, 'collectEmail');
+      if (collectEmail !== undefined && typeof scalarOf(collectEmail) !== 'boolean') {
+        expectEnum(collectEmail, '`collectEmail`', ['verified', 'input']);
+      }
+      expectBoolean(value(settings, 'quiz'), '`quiz`');
+      quiz = scalarOf(value(settings, 'quiz')) === true;
+
+      const published = value(settings, 'published');
+      const accepting = value(settings, 'acceptingResponses');
+      expectBoolean(published, '`published`');
+      expectBoolean(accepting, '`acceptingResponses`');
+      if (scalarOf(published) === false && scalarOf(accepting) === true) {
+        report(accepting, 'An unpublished form cannot accept responses; remove `published: false`');
+      }
+      const window = (['opensAt', 'closesAt'] as const).map((key) => {
+        const node = value(settings, key);
+        const v = scalarOf(node);
+        if (node !== undefined && (typeof v !== 'string' || !TIMESTAMP_RE.test(v) || Number.isNaN(Date.parse(v)))) {
+          report(node, `Expected \`${key}\` to be a date and time with a zone, such as 2025-03-01T09:00:00Z or 2025-03-01T09:00+01:00`);
+          return undefined;
+        }
+        return typeof v === 'string' ? Date.parse(v) : undefined;
+      });
+      const [opensAt, closesAt] = window;
+      if (opensAt !== undefined && closesAt !== undefined && closesAt <= opensAt) {
+        report(value(settings, 'closesAt'), '`closesAt` must be later than `opensAt`');
+      }
+      if (settings.has('opensAt') || settings.has('closesAt')) {
+        if (accepting !== undefined) {
+          report(accepting, '`acceptingResponses` cannot be combined with `opensAt` or `closesAt`, which decide it');
+        }
+        if (scalarOf(published) === false) {
+          report(published, 'An unpublished form cannot open for responses; remove `published: false` or the schedule');
+        }
+      }
+      expectEmails(value(settings, 'editors'), '`editors`');
+      const responders = value(settings, 'responders');
+      if (isMap(responders)) {
+        checkKeys(responders, ['domain'], ['domain'], '`responders`');
+        const domain = value(responders, 'domain');
+        if (domain !== undefined && !DOMAIN_RE.test(String(scalarOf(domain) ?? ''))) {
+          report(domain, 'Expected `responders.domain` to be a domain such as example.com');
+        }
+      } else if (isSeq(responders)) {
+        expectEmails(responders, '`responders`');
+      } else {
+        expectEnum(responders, '`responders` (anyone, a list of email addresses or a `domain`)', ['anyone']);
+      }
+    }
+  }
+
+  // Page titles are the goToSection targets (pages layout only)
+  const pagesNode = value(root, 'pages');
+  const pageTitles = isSeq(pagesNode)
+    ? (pagesNode.items as Node[]).map((p) => (isMap(p) ? String(p.get('title') ?? '') : ''))
+    : [];
+
+  // --- questions --------------------------------------------------------------
+
+  // An image is either a bare URL or a mapping with the URL and display options
+  const checkImage = (node: Node | undefined, what: string) => {
+    if (node === undefined) return;
+    if (isScalar(node)) {
+      expectString(node, what);
+      return;
+    }
+    const image = asMap(node, what);
+    if (!image) return;
+    checkKeys(image, IMAGE_KEYS, ['url'], what);
+    expectString(value(image, 'url'), `${what} \`url\``);
+    expectString(value(image, 'altText'), '`altText`');
+    expectEnum(value(image, 'alignment'), '`alignment`', ALIGNMENTS);
+    expectInteger(value(image, 'width'), '`width`', 1);
+  };
+
+  const checkOption = (node: Node, type: string) => {
+    if (isScalar(node)) {
+      expectString(node, 'an option');
+      return;
+    }
+    const option = asMap(node, 'an option');
+    if (!option) return;
+    checkKeys(option, OPTION_KEYS, ['value'], 'an option');
+    expectString(value(option, 'value'), 'the option `value`');
+    expectBoolean(value(option, 'isOther'), '`isOther`');
+    const image = value(option, 'image');
+    if (image !== undefined && type === 'dropdown') {
+      report(image, 'Option images are only supported on multipleChoice and checkbox questions');
+    } else {
+      checkImage(image, 'the option `image`');
+    }
+    const goTo = value(option, 'goToSection');
+    if (goTo === undefined) return;
+    const target = String(scalarOf(goTo));
+    if (type === 'checkbox') {
+      report(goTo, 'goToSection is only supported on multipleChoice and dropdown questions');
+    } else if (!GO_TO_KEYWORDS.includes(target) && !pageTitles.includes(target)) {
+      const known = pageTitles.filter(Boolean).map((t) => `"${t}"`).join(', ') || '(no pages)';
+      report(goTo, `Unknown goToSection "${target}". Known pages: ${known}; or use next, submit or restart`);
+    }
+  };
+
+  const checkQuestion = (node: Node) => {
+    const question = asMap(node, 'a question');
+    if (!question) return;
+
+    const typeNode = value(question, 'type');
+    const type = scalarOf(typeNode);
+    if (typeNode === undefined) {
+      report(question, 'Missing required key "type" in a question');
+      return;
+    }
+    if (typeof type !== 'string' || !TYPE_KEYS[type]) {
+      const types = Object.keys(TYPE_KEYS);
+      report(typeNode, `Unknown question type "${type}"${suggest(String(type), types)}. Expected one of ${types.join(', ')}`);
+      return;
+    }
+
+    const what = `a ${type} question`;
+    const before = diagnostics.length;
+    // Image and video items may go without a title
+    const required = MEDIA_TYPES.includes(type) ? TYPE_KEYS[type].required : ['title', ...TYPE_KEYS[type].required];
+    checkKeys(question, TYPE_KEYS[type].allowed, required, what);
+    expectString(value(question, 'title'), '`title`');
+    expectString(value(question, 'description'), '`description`');
+    expectString(value(question, 'key'), '`key`');
+    expectBoolean(value(question, 'required'), '`required`');
+    expectBoolean(value(question, 'includeTime'), '`includeTime`');
+    expectBoolean(value(question, 'duration'), '`duration`');
+    expectInteger(value(question, 'ratingScale'), '`ratingScale`', 3, 10);
+    expectEnum(value(question, 'icon'), '`icon`', ['star', 'heart', 'thumbUp']);
+    expectStringList(value(question, 'rows'), '`rows`');
+    expectStringList(value(question, 'columns'), '`columns`');
+    expectInteger(value(question, 'points'), '`points`', 0);
+    checkImage(value(question, 'image'), '`image`');
+    expectString(value(question, 'url'), '`url`');
+    expectString(value(question, 'altText'), '`altText`');
+    expectString(value(question, 'caption'), '`caption`');
+    expectEnum(value(question, 'alignment'), '`alignment`', ALIGNMENTS);
+    expectInteger(value(question, 'width'), '`width`', 1);
+
+    const url = scalarOf(value(question, 'url'));
+    if (type === 'video' && typeof url === 'string' && !YOUTUBE_RE.test(url)) {
+      report(value(question, 'url'), 'Google Forms only embeds YouTube videos; expected a youtube.com or youtu.be URL');
+    }
+
+    const optionList = value(question, 'options');
+    if (optionList !== undefined) {
+      if (!isSeq(optionList) || optionList.items.length === 0) {
+        report(optionList, 'Expected `options` to be a non-empty list');
+      } else {
+        for (const option of optionList.items as Node[]) checkOption(option, type);
+      }
+    }
+
+    const scaleNode = value(question, 'scale');
+    if (scaleNode !== undefined) {
+      const scale = asMap(scaleNode, '`scale`');
+      if (scale) {
+        checkKeys(scale, SCALE_KEYS, [], '`scale`');
+        expectInteger(value(scale, 'min'), '`scale.min`', 0, 1);
+        expectInteger(value(scale, 'max'), '`scale.max`', 2, 10);
+        expectString(value(scale, 'minLabel'), '`scale.minLabel`');
+        expectString(value(scale, 'maxLabel'), '`scale.maxLabel`');
+      }
+    }
+
+    const feedbackNode = value(question, 'feedback');
+    if (feedbackNode !== undefined) {
+      const feedback = asMap(feedbackNode, '`feedback`');
+      if (feedback) {
+        checkKeys(feedback, FEEDBACK_KEYS, [], '`feedback`');
+        for (const key of FEEDBACK_KEYS) expectString(value(feedback, key), `\`feedback.${key}\``);
+        // Text answers are not marked right or wrong automatically, so only general feedback applies
+        if (type === 'text') {
+          for (const key of ['correct', 'incorrect']) {
+            if (feedback.has(key)) report(value(feedback, key), `Text questions only take \`feedback.general\`, not \`feedback.${key}\``);
+          }
+        }
+      }
+    }
+    if ((type === 'date' || type === 'time') && question.has('correctAnswers')) {
+      report(value(question, 'correctAnswers'), `\`correctAnswers\` is not supported on ${type} questions`);
+    }
+
+    const graded = ['points', 'correctAnswers', 'feedback'].find((k) => question.has(k));
+    if (graded && !quiz) {
+      report(value(question, graded), `\`${graded}\` needs \`quiz: true\` under \`settings\``);
+    }
+
+    // Semantic checks only make sense on a structurally valid question
+    if (diagnostics.length === before && type !== 'title' && options.checkQuestion) {
+      try {
+        options.checkQuestion(question.toJSON());
+      } catch (error) {
+        report(question, error instanceof Error ? error.message : String(error));
+      }
+    }
+  };
+
+  const checkQuestionList = (node: Node | undefined, what: string) => {
+    if (node === undefined) return;
+    if (!isSeq(node)) {
+      report(node, `Expected ${what} to be a list of questions`);
+      return;
+    }
+    for (const item of node.items as Node[]) checkQuestion(item);
+  };
+
+  const checkGroups = (node: Node | undefined, kind: 'page' | 'section') => {
+    if (node === undefined) return;
+    if (!isSeq(node)) {
+      report(node, `Expected \`${kind}s\` to be a list`);
+      return;
+    }
+    for (const item of node.items as Node[]) {
+      const group = asMap(item, `a ${kind}`);
+      if (!group) continue;
+      checkKeys(group, kind === 'page' ? PAGE_KEYS : SECTION_KEYS, ['title', 'questions'], `a ${kind}`);
+      expectString(value(group, 'title'), `the ${kind} \`title\``);
+      expectString(value(group, 'description'), `the ${kind} \`description\``);
+      const goTo = value(group, 'goToSection');
+      if (goTo !== undefined) {
+        report(goTo, 'Page-level goToSection is not supported by the Google Forms API; set it on a choice option instead');
+      }
+      checkQuestionList(value(group, 'questions'), `the ${kind} \`questions\``);
+    }
+  };
+
+  checkGroups(pagesNode, 'page');
+  checkGroups(value(root, 'sections'), 'section');
+  checkQuestionList(value(root, 'questions'), '`questions`');
+
+  return diagnostics.sort(byPosition);
+}